@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { setProductCategory } from '@/lib/product-service';
+import { PRODUCT_CATEGORIES } from '@/lib/theme-taxonomy';
+import { ProductCategory } from '@/types/product';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Parse the request body; a null category is detected again on the next analysis
+    const body = await request.json();
+    const { category } = body as { category: ProductCategory | null };
+
+    if (category !== null && !PRODUCT_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `Category must be one of: ${PRODUCT_CATEGORIES.join(', ')}, or null` },
+        { status: 400 }
+      );
+    }
+
+    // Update the category; themes follow on the next analysis
+    const container = await setProductCategory(userId, id, category);
+
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      category: container.category
+    });
+
+  } catch (error) {
+    console.error('Error in PUT /api/products/[id]/category:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
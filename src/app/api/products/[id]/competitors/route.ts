@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { setCompetitorBrands } from '@/lib/product-service';
+import { validateCompetitorBrands } from '@/lib/redaction';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+    const { brands } = body as { brands: string[] };
+
+    const validationError = validateCompetitorBrands(brands);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Update the dictionary; quotes are redacted with it on the next analysis
+    const names = Array.from(new Set(brands.map(brand => brand.trim())));
+    const container = await setCompetitorBrands(userId, id, names);
+
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      competitor_brands: container.competitor_brands || []
+    });
+
+  } catch (error) {
+    console.error('Error in PUT /api/products/[id]/competitors:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
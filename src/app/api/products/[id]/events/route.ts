@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getProductContainerWithAnalysis } from '@/lib/product-service';
+import {
+  ingestionEventService,
+  IngestionEventRecord,
+  TERMINAL_INGESTION_EVENTS
+} from '@/lib/ingestion-events';
+
+// Streams must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Format a single Server-Sent Events message
+function formatEvent(event: string, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the product container exists and belongs to the user
+    const container = await getProductContainerWithAnalysis(userId, id);
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    // Reconnecting clients resume after the last event they received
+    const lastEventId = Number(request.headers.get('last-event-id')) || 0;
+    const jobId = container.scraping_job_id || undefined;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let cursor = lastEventId;
+        let closed = false;
+        let polling = false;
+
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(pollTimer);
+          clearInterval(heartbeatTimer);
+          controller.close();
+        };
+
+        const sendRecord = (record: IngestionEventRecord) => {
+          cursor = record.id;
+          send(formatEvent(record.event.type, record.event, record.id));
+          if (TERMINAL_INGESTION_EVENTS.includes(record.event.type)) {
+            close();
+          }
+        };
+
+        const poll = async () => {
+          if (closed || polling) return;
+          polling = true;
+          try {
+            const records = await ingestionEventService.getEventsSince(id, cursor, jobId);
+            records.forEach(sendRecord);
+          } finally {
+            polling = false;
+          }
+        };
+
+        // Tell the client where the container stands before any progress arrives
+        send(formatEvent('status', {
+          status: container.status,
+          error_message: container.error_message,
+          job_id: jobId
+        }));
+
+        const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+        const heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+        request.signal.addEventListener('abort', close);
+
+        poll();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/products/[id]/events:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
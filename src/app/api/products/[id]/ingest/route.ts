@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { idempotencyService } from '@/lib/idempotency-service';
 import { ingestionService } from '@/lib/ingestion-service';
 import { getProductContainerWithAnalysis } from '@/lib/product-service';
 
@@ -8,6 +9,110 @@ interface RouteParams {
 }
 
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Replay the original response when the Idempotency-Key was seen before
+    return await idempotencyService.run(request, userId, async () => {
+      // Get the product container ID
+      const { id } = await params;
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Product container ID is required' },
+          { status: 400 }
+        );
+      }
+
+      // Verify the product container exists and belongs to the user
+      const container = await getProductContainerWithAnalysis(userId, id);
+      if (!container) {
+        return NextResponse.json(
+          { error: 'Product container not found' },
+          { status: 404 }
+        );
+      }
+
+      // Check if ingestion is already in progress
+      if (container.status === 'scraping' || container.status === 'analyzing') {
+        return NextResponse.json(
+          { error: 'Ingestion already in progress for this product' },
+          { status: 409 }
+        );
+      }
+
+      // Resume the failed job from its first unfinished step instead of starting over
+      const { searchParams } = new URL(request.url);
+      if (searchParams.get('resume') === 'true') {
+        if (container.status !== 'failed' && container.status !== 'cancelled') {
+          return NextResponse.json(
+            { error: 'Only failed or cancelled ingestions can be resumed' },
+            { status: 409 }
+          );
+        }
+
+        const resumed = await ingestionService.resumeIngestion(id);
+        if (!resumed) {
+          return NextResponse.json(
+            { error: 'No resumable ingestion job found for this product. Start a new ingestion instead.' },
+            { status: 409 }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: `Ingestion resumed from step "${resumed.resumed_from}"`,
+          job_id: resumed.job_id,
+          resumed_from: resumed.resumed_from,
+          product_url: container.product_url
+        });
+      }
+
+      // Manual products have no page to scrape
+      if (container.platform === 'manual') {
+        return NextResponse.json(
+          { error: 'Reviews for this product are imported by hand. Use /reviews/import to add more.' },
+          { status: 409 }
+        );
+      }
+
+      // Completed products are only re-ingested when a refresh is asked for explicitly
+      if (container.status === 'completed' && searchParams.get('refresh') !== 'true') {
+        return NextResponse.json(
+          { error: 'Product has already been analyzed. Pass refresh=true to re-scrape it.' },
+          { status: 409 }
+        );
+      }
+
+      // Start the ingestion process; fresh=true skips the scrape cache
+      const jobId = await ingestionService.startIngestion(id, container.product_url, {
+        force_fresh: searchParams.get('fresh') === 'true'
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Ingestion started successfully',
+        job_id: jobId,
+        product_url: container.product_url
+      });
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/products/[id]/ingest:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     // Authenticate the user
     const { userId } = await auth();
@@ -36,37 +141,34 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Check if ingestion is already in progress
-    if (container.status === 'scraping' || container.status === 'analyzing') {
+    // Only running ingestions can be cancelled
+    if (container.status !== 'scraping' && container.status !== 'analyzing') {
       return NextResponse.json(
-        { error: 'Ingestion already in progress for this product' },
+        { error: 'No ingestion in progress for this product' },
         { status: 409 }
       );
     }
 
-    // Check if ingestion is already completed
-    if (container.status === 'completed') {
+    // Cancel the ingestion process
+    const success = await ingestionService.cancelIngestion(id);
+
+    if (!success) {
       return NextResponse.json(
-        { error: 'Product has already been analyzed' },
-        { status: 409 }
+        { error: 'Failed to cancel ingestion' },
+        { status: 500 }
       );
     }
 
-    // Start the ingestion process
-    const jobId = await ingestionService.startIngestion(id, container.product_url);
-
     return NextResponse.json({
       success: true,
-      message: 'Ingestion started successfully',
-      job_id: jobId,
-      product_url: container.product_url
+      message: 'Ingestion cancelled successfully'
     });
 
   } catch (error) {
-    console.error('Error in POST /api/products/[id]/ingest:', error);
+    console.error('Error in DELETE /api/products/[id]/ingest:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { ingestionService } from '@/lib/ingestion-service';
+import { getProductContainerWithAnalysis } from '@/lib/product-service';
+
+interface RouteParams {
+  params: Promise<{ id: string; jobId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container and job IDs
+    const { id, jobId } = await params;
+    if (!id || !jobId) {
+      return NextResponse.json(
+        { error: 'Product container ID and job ID are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the product container exists and belongs to the user
+    const container = await getProductContainerWithAnalysis(userId, id);
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get the job and make sure it belongs to this container
+    const job = await ingestionService.getJobStatus(jobId);
+    if (!job || job.product_container_id !== id) {
+      return NextResponse.json(
+        { error: 'Ingestion job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/products/[id]/jobs/[jobId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getProductContainerWithAnalysis } from '@/lib/product-service';
+import { redactionService } from '@/lib/redaction-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the product container exists and belongs to the user
+    const container = await getProductContainerWithAnalysis(userId, id);
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, 100);
+
+    // Get the redaction audit trail, newest first
+    const audits = await redactionService.getAudits(id, limit);
+
+    return NextResponse.json({
+      success: true,
+      competitor_brands: container.competitor_brands || [],
+      audits
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/products/[id]/redactions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
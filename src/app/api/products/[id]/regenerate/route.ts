@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { idempotencyService } from '@/lib/idempotency-service';
 import { angleReasoningService } from '@/lib/angle-reasoning-service';
 import { getProductContainerWithAnalysis } from '@/lib/product-service';
 
@@ -18,53 +19,56 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Get the product container ID
-    const { id } = await params;
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Product container ID is required' },
-        { status: 400 }
-      );
-    }
+    // Replay the original response when the Idempotency-Key was seen before
+    return await idempotencyService.run(request, userId, async () => {
+      // Get the product container ID
+      const { id } = await params;
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Product container ID is required' },
+          { status: 400 }
+        );
+      }
 
-    // Verify the product container exists and belongs to the user
-    const container = await getProductContainerWithAnalysis(userId, id);
-    if (!container) {
-      return NextResponse.json(
-        { error: 'Product container not found' },
-        { status: 404 }
-      );
-    }
+      // Verify the product container exists and belongs to the user
+      const container = await getProductContainerWithAnalysis(userId, id);
+      if (!container) {
+        return NextResponse.json(
+          { error: 'Product container not found' },
+          { status: 404 }
+        );
+      }
 
-    // Check if analysis is already completed
-    if (container.status !== 'completed') {
-      return NextResponse.json(
-        { error: 'Product analysis must be completed before regenerating virality packs' },
-        { status: 400 }
-      );
-    }
+      // Check if analysis is already completed
+      if (container.status !== 'completed') {
+        return NextResponse.json(
+          { error: 'Product analysis must be completed before regenerating virality packs' },
+          { status: 400 }
+        );
+      }
 
-    // Parse request body for options
-    const body = await request.json();
-    const { focus_areas, tone, target_length } = body;
+      // Parse request body for options
+      const body = await request.json();
+      const { focus_areas, tone, target_length } = body;
 
-    // Start the regeneration process
-    const success = await angleReasoningService.regenerateViralityPacks(id, {
-      focus_areas,
-      tone,
-      target_length
-    });
+      // Start the regeneration process
+      const success = await angleReasoningService.regenerateViralityPacks(id, {
+        focus_areas,
+        tone,
+        target_length
+      });
 
-    if (!success) {
-      return NextResponse.json(
-        { error: 'Failed to regenerate virality packs' },
-        { status: 500 }
-      );
-    }
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to regenerate virality packs' },
+          { status: 500 }
+        );
+      }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Virality packs regenerated successfully'
+      return NextResponse.json({
+        success: true,
+        message: 'Virality packs regenerated successfully'
+      });
     });
 
   } catch (error) {
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { idempotencyService } from '@/lib/idempotency-service';
+import { ingestionService } from '@/lib/ingestion-service';
+import { consumeAngleCredit, getProductContainerWithAnalysis } from '@/lib/product-service';
+import {
+  parseReviewImport,
+  ReviewImportError,
+  ReviewImportFormat,
+  ReviewImportOptions,
+  validateReviewImportRequest
+} from '@/lib/review-import';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface ImportReviewsRequest extends ReviewImportOptions {
+  format: ReviewImportFormat;
+  data: unknown; // CSV or pasted text as a string; JSON as an array, an object with "reviews", or a string
+  product_name?: string;
+}
+
+// How many skipped rows are reported back in detail
+const MAX_REPORTED_SKIPS = 20;
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Replay the original response when the Idempotency-Key was seen before
+    return await idempotencyService.run(request, userId, async () => {
+      // Get the product container ID
+      const { id } = await params;
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Product container ID is required' },
+          { status: 400 }
+        );
+      }
+
+      // Parse and check the request body; a malformed body is the client's error, not a server error
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+
+      const validationError = validateReviewImportRequest(body);
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+      const { format, data, mapping, default_rating, product_name } = body as ImportReviewsRequest;
+
+      // Verify the product container exists and belongs to the user
+      const container = await getProductContainerWithAnalysis(userId, id);
+      if (!container) {
+        return NextResponse.json(
+          { error: 'Product container not found' },
+          { status: 404 }
+        );
+      }
+
+      if (container.platform !== 'manual') {
+        return NextResponse.json(
+          { error: 'Reviews can only be imported into manual products' },
+          { status: 409 }
+        );
+      }
+
+      if (container.status === 'scraping' || container.status === 'analyzing') {
+        return NextResponse.json(
+          { error: 'Ingestion already in progress for this product' },
+          { status: 409 }
+        );
+      }
+
+      let parsed;
+      try {
+        parsed = parseReviewImport(format, data, { mapping, default_rating });
+      } catch (error) {
+        if (error instanceof ReviewImportError) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+
+      if (parsed.reviews.length === 0) {
+        return NextResponse.json(
+          {
+            error: 'None of the reviews could be imported',
+            skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS)
+          },
+          { status: 400 }
+        );
+      }
+
+      // Every import runs the full analysis, so it uses a credit like analyzing an external product does
+      if (!await consumeAngleCredit(userId)) {
+        return NextResponse.json(
+          { error: 'Insufficient angle credits. Please upgrade your plan to import reviews.' },
+          { status: 400 }
+        );
+      }
+
+      // Run the usual analysis on the imported reviews, without scraping
+      const jobId = await ingestionService.startImport(id, container.product_url, {
+        name: product_name || container.product_name || new URL(container.product_url).hostname,
+        description: container.product_description || '',
+        images: container.product_image_url ? [container.product_image_url] : [],
+        platform: 'manual',
+        original_url: container.original_url || container.product_url
+      }, parsed.reviews);
+
+      return NextResponse.json({
+        success: true,
+        message: `Importing ${parsed.reviews.length} reviews`,
+        job_id: jobId,
+        imported: parsed.reviews.length,
+        skipped_count: parsed.skipped.length,
+        skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS)
+      });
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/products/[id]/reviews/import:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getProductContainerWithAnalysis } from '@/lib/product-service';
+import { reviewService, ReviewThemeKind } from '@/lib/review-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind') as ReviewThemeKind | null;
+    const theme = searchParams.get('theme');
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    if (!theme || (kind !== 'pain_point' && kind !== 'delight_factor')) {
+      return NextResponse.json(
+        { error: 'A theme and a kind of pain_point or delight_factor are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the product container exists and belongs to the user
+    const container = await getProductContainerWithAnalysis(userId, id);
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    // Get the reviews behind the theme
+    const { reviews, total } = await reviewService.getReviewsForTheme(id, kind, theme, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      reviews,
+      total
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/products/[id]/reviews:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { refreshService, REFRESH_SCHEDULES } from '@/lib/refresh-service';
+import { RefreshSchedule } from '@/types/product';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the product container ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Product container ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Parse the request body; a null schedule turns refreshing off
+    const body = await request.json();
+    const { refresh_schedule } = body as { refresh_schedule: RefreshSchedule | null };
+
+    if (refresh_schedule !== null && !REFRESH_SCHEDULES.includes(refresh_schedule)) {
+      return NextResponse.json(
+        { error: `Refresh schedule must be one of: ${REFRESH_SCHEDULES.join(', ')}, or null` },
+        { status: 400 }
+      );
+    }
+
+    // Update the schedule
+    const container = await refreshService.setSchedule(userId, id, refresh_schedule);
+
+    if (!container) {
+      return NextResponse.json(
+        { error: 'Product container not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      refresh_schedule: container.refresh_schedule,
+      next_refresh_at: container.next_refresh_at
+    });
+
+  } catch (error) {
+    console.error('Error in PUT /api/products/[id]/schedule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
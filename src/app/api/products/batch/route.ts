@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { batchService, parseBatchInput } from '@/lib/batch-service';
+import { CreateProductBatchRequest } from '@/types/product';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+    const { input, source } = body as CreateProductBatchRequest;
+
+    // Validate required fields
+    if (!input || typeof input !== 'string') {
+      return NextResponse.json(
+        { error: 'A CSV file or list of product URLs is required' },
+        { status: 400 }
+      );
+    }
+
+    // Create the batch and queue ingestion for each product
+    const result = await batchService.createBatch(
+      userId,
+      parseBatchInput(input),
+      source === 'csv' ? 'csv' : 'list'
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      batch: result.batch,
+      product_containers: result.product_containers
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/products/batch:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { idempotencyService } from '@/lib/idempotency-service';
 import { createProductContainer } from '@/lib/product-service';
+import { PRODUCT_CATEGORIES } from '@/lib/theme-taxonomy';
 import { CreateProductRequest } from '@/types/product';
 
 export async function POST(request: NextRequest) {
@@ -14,31 +16,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse the request body
-    const body = await request.json();
-    const { product_url } = body as CreateProductRequest;
+    // Replay the original response when the Idempotency-Key was seen before
+    return await idempotencyService.run(request, userId, async () => {
+      // Parse the request body
+      const body = await request.json();
+      const { product_url, platform, category } = body as CreateProductRequest;
 
-    // Validate required fields
-    if (!product_url || typeof product_url !== 'string') {
-      return NextResponse.json(
-        { error: 'Product URL is required' },
-        { status: 400 }
-      );
-    }
+      // Validate required fields
+      if (!product_url || typeof product_url !== 'string') {
+        return NextResponse.json(
+          { error: 'Product URL is required' },
+          { status: 400 }
+        );
+      }
 
-    // Create the product container
-    const result = await createProductContainer(userId, { product_url });
+      if (platform !== undefined && platform !== 'manual') {
+        return NextResponse.json(
+          { error: 'Platform can only be set to manual' },
+          { status: 400 }
+        );
+      }
 
-    if (!result.success) {
-      return NextResponse.json(
-        { error: result.error },
-        { status: 400 }
-      );
-    }
+      if (category !== undefined && !PRODUCT_CATEGORIES.includes(category)) {
+        return NextResponse.json(
+          { error: `Category must be one of: ${PRODUCT_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      // Create the product container
+      const result = await createProductContainer(userId, { product_url, platform, category });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
 
-    return NextResponse.json({
-      success: true,
-      product_container: result.product_container
+      return NextResponse.json({
+        success: true,
+        product_container: result.product_container,
+        warning: result.warning,
+        duplicate_container_ids: result.duplicate_container_ids
+      });
     });
 
   } catch (error) {
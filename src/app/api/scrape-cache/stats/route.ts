@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { scrapeCacheService } from '@/lib/scrape-cache-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Stats cover the last `days` days, 30 by default
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1), 365);
+
+    const stats = await scrapeCacheService.getStats(days);
+
+    return NextResponse.json({
+      success: true,
+      days,
+      ...stats
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/scrape-cache/stats:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { idempotencyService } from '@/lib/idempotency-service';
 import { scriptEditorService } from '@/lib/script-editor-service';
 
 export async function POST(request: NextRequest) {
@@ -13,30 +14,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse the request body
-    const body = await request.json();
-    const { product_container_id, title, content, virality_pack_id } = body;
+    // Replay the original response when the Idempotency-Key was seen before
+    return await idempotencyService.run(request, userId, async () => {
+      // Parse the request body
+      const body = await request.json();
+      const { product_container_id, title, content, virality_pack_id } = body;
 
-    // Validate required fields
-    if (!product_container_id || !title || !content) {
-      return NextResponse.json(
-        { error: 'Product container ID, title, and content are required' },
-        { status: 400 }
-      );
-    }
+      // Validate required fields
+      if (!product_container_id || !title || !content) {
+        return NextResponse.json(
+          { error: 'Product container ID, title, and content are required' },
+          { status: 400 }
+        );
+      }
 
-    // Create the script
-    const script = await scriptEditorService.createScript(
-      userId,
-      product_container_id,
-      title,
-      content,
-      virality_pack_id
-    );
+      // Create the script
+      const script = await scriptEditorService.createScript(
+        userId,
+        product_container_id,
+        title,
+        content,
+        virality_pack_id
+      );
 
-    return NextResponse.json({
-      success: true,
-      script
+      return NextResponse.json({
+        success: true,
+        script
+      });
     });
 
   } catch (error) {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { taxonomyService } from '@/lib/taxonomy-service';
+import { DEFAULT_TAXONOMY } from '@/lib/theme-packs';
+import { PRODUCT_CATEGORIES } from '@/lib/theme-taxonomy';
+import { ThemePack } from '@/types/product';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // default=true returns the built-in taxonomy, e.g. to start editing over
+    const { searchParams } = new URL(request.url);
+    const taxonomy = searchParams.get('default') === 'true'
+      ? DEFAULT_TAXONOMY
+      : await taxonomyService.getTaxonomy(userId);
+
+    return NextResponse.json({
+      success: true,
+      taxonomy,
+      categories: PRODUCT_CATEGORIES
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/taxonomy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+    const { packs } = body as { packs: ThemePack[] };
+
+    const validationError = taxonomyService.validatePacks(packs);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Save as a new version; products pick it up on their next analysis
+    const taxonomy = await taxonomyService.saveTaxonomy(userId, packs);
+
+    return NextResponse.json({
+      success: true,
+      taxonomy
+    });
+
+  } catch (error) {
+    console.error('Error in PUT /api/taxonomy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
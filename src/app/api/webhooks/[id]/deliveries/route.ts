@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { webhookService } from '@/lib/webhook-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the webhook endpoint ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+    // Get the delivery log for the endpoint
+    const deliveries = await webhookService.getDeliveries(userId, id, limit);
+
+    return NextResponse.json({
+      success: true,
+      deliveries
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/webhooks/[id]/deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { webhookService, WebhookEndpointInput } from '@/lib/webhook-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the webhook endpoint ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+    const { url, events, description, enabled } = body as WebhookEndpointInput;
+    const updates: WebhookEndpointInput = { url, events, description, enabled };
+
+    // Drop fields that were not provided
+    (Object.keys(updates) as (keyof WebhookEndpointInput)[]).forEach(key => {
+      if (updates[key] === undefined) delete updates[key];
+    });
+
+    const validationError = webhookService.validateEndpointInput(updates);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Update the endpoint
+    const endpoint = await webhookService.updateEndpoint(userId, id, updates);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      endpoint
+    });
+
+  } catch (error) {
+    console.error('Error in PATCH /api/webhooks/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get the webhook endpoint ID
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Delete the endpoint
+    const success = await webhookService.deleteEndpoint(userId, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete webhook endpoint' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook endpoint deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error in DELETE /api/webhooks/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
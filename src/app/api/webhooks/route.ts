@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { webhookService, WebhookEndpointInput } from '@/lib/webhook-service';
+
+export async function GET() {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get user's webhook endpoints
+    const endpoints = await webhookService.getEndpoints(userId);
+
+    return NextResponse.json({
+      success: true,
+      endpoints
+    });
+
+  } catch (error) {
+    console.error('Error in GET /api/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Parse the request body
+    const body = await request.json();
+    const { url, events, description, enabled } = body as WebhookEndpointInput;
+
+    // Validate required fields
+    if (!url || typeof url !== 'string' || !events) {
+      return NextResponse.json(
+        { error: 'Webhook URL and events are required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = webhookService.validateEndpointInput({ url, events });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Create the endpoint; the secret is only returned here
+    const endpoint = await webhookService.createEndpoint(userId, { url, events, description, enabled });
+
+    return NextResponse.json({
+      success: true,
+      endpoint
+    });
+
+  } catch (error) {
+    console.error('Error in POST /api/webhooks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { CheckCircleIcon, XCircleIcon, ClockIcon, XIcon } from 'lucide-react';
+import { ProductBatchWithContainers } from '@/types/product';
+
+interface BatchStatusProps {
+  batchId: string;
+  onClose: () => void;
+  onProgress?: () => void;
+  className?: string;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export function BatchStatus({ batchId, onClose, onProgress, className }: BatchStatusProps) {
+  const [batch, setBatch] = useState<ProductBatchWithContainers | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the poll when it changes
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+
+  useEffect(() => {
+    let timer: NodeJS.Timeout | undefined;
+    let finishedCount = -1;
+    let stopped = false;
+
+    // Poll the batch until every product has finished
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/products/batch/${batchId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch batch status');
+        }
+
+        if (stopped) return;
+        const next = data.batch as ProductBatchWithContainers;
+        setBatch(next);
+        setError(null);
+
+        const finished = next.product_containers.filter(c => FINISHED_STATUSES.includes(c.status)).length;
+        if (finishedCount >= 0 && finished !== finishedCount) {
+          onProgressRef.current?.();
+        }
+        finishedCount = finished;
+
+        if (finished < next.product_containers.length) {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        if (stopped) return;
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [batchId]);
+
+  const containers = batch?.product_containers || [];
+  const rejected = batch?.rejected_urls || [];
+  const succeeded = containers.filter(c => c.status === 'completed').length;
+  const failed = containers.filter(c => c.status === 'failed' || c.status === 'cancelled').length + rejected.length;
+  const total = containers.length + rejected.length;
+  const progress = total > 0 ? ((succeeded + failed) / total) * 100 : 0;
+
+  // Get the icon for a product's status
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircleIcon className="h-4 w-4 text-green-600 shrink-0" />;
+      case 'failed':
+      case 'cancelled':
+        return <XCircleIcon className="h-4 w-4 text-destructive shrink-0" />;
+      case 'scraping':
+      case 'analyzing':
+        return <LoadingSpinner className="h-4 w-4 shrink-0" />;
+      default:
+        return <ClockIcon className="h-4 w-4 text-muted-foreground shrink-0" />;
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Batch Import</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close batch view">
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!batch ? (
+          error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : (
+            <div className="flex items-center justify-center h-16">
+              <LoadingSpinner />
+            </div>
+          )
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="default">{succeeded} succeeded</Badge>
+                <Badge variant={failed > 0 ? 'destructive' : 'outline'}>{failed} failed</Badge>
+                <Badge variant="outline">{total - succeeded - failed} in progress</Badge>
+              </div>
+              <Progress value={progress} className="h-1.5" />
+            </div>
+
+            <div className="max-h-80 overflow-y-auto divide-y border rounded-lg">
+              {containers.map((container) => (
+                <div key={container.id} className="flex items-start gap-2 p-2 text-sm">
+                  {getStatusIcon(container.status)}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate">{container.product_name || container.product_url}</p>
+                    {container.error_message && FINISHED_STATUSES.includes(container.status) && (
+                      <p className="text-xs text-destructive">{container.error_message}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {rejected.map((item, index) => (
+                <div key={`rejected-${index}`} className="flex items-start gap-2 p-2 text-sm">
+                  <XCircleIcon className="h-4 w-4 text-destructive shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate">{item.url}</p>
+                    <p className="text-xs text-destructive">{item.error}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
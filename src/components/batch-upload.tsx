@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { UploadIcon, ListPlusIcon } from 'lucide-react';
+import { CreateProductBatchRequest, ProductBatch } from '@/types/product';
+
+interface BatchUploadProps {
+  onBatchCreated: (batch: ProductBatch) => void;
+  onError: (message: string) => void;
+  className?: string;
+}
+
+export function BatchUpload({ onBatchCreated, onError, className }: BatchUploadProps) {
+  const [input, setInput] = useState('');
+  const [source, setSource] = useState<ProductBatch['source']>('list');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load a CSV file into the text area so it can be reviewed before submitting
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setInput(await file.text());
+    setSource('csv');
+    setFileName(file.name);
+    event.target.value = '';
+  };
+
+  // Submit the batch
+  const submitBatch = async () => {
+    if (!input.trim()) return;
+
+    try {
+      setSubmitting(true);
+
+      const request: CreateProductBatchRequest = { input, source };
+
+      const response = await fetch('/api/products/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create product batch');
+      }
+
+      setInput('');
+      setSource('list');
+      setFileName(null);
+      onBatchCreated(data.batch);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const urlCount = input.split(/\r?\n/).filter(line => /https?:\/\//i.test(line)).length;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Bulk Import</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          placeholder={'Paste one product URL per line, or upload a CSV with a "url" column'}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            if (!fileName) setSource('list');
+          }}
+          className="min-h-32 font-mono text-xs"
+          disabled={submitting}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={submitting}
+            >
+              <UploadIcon className="mr-2 h-4 w-4" />
+              Upload CSV
+            </Button>
+            {fileName && (
+              <span className="text-sm text-muted-foreground truncate">{fileName}</span>
+            )}
+          </div>
+          <Button
+            onClick={submitBatch}
+            disabled={submitting || urlCount === 0}
+          >
+            {submitting ? (
+              <LoadingSpinner className="mr-2 h-4 w-4" />
+            ) : (
+              <ListPlusIcon className="mr-2 h-4 w-4" />
+            )}
+            Import {urlCount > 0 ? `${urlCount} URLs` : 'URLs'}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Credits for every external link in the batch are checked before anything is created. Products are analyzed a few at a time.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
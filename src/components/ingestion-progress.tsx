@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { RefreshCwIcon } from 'lucide-react';
+import type { IngestionEvent } from '@/lib/ingestion-events';
+import type { IngestionStep } from '@/lib/ingestion-service';
+import { ProductContainer } from '@/types/product';
+
+type FinalStatus = Extract<ProductContainer['status'], 'completed' | 'failed' | 'cancelled'>;
+
+interface IngestionProgressProps {
+  containerId: string;
+  onFinished?: (status: FinalStatus, errorMessage?: string) => void;
+  className?: string;
+}
+
+// Display order and labels for the pipeline steps
+const STEP_LABELS: Record<IngestionStep, string> = {
+  scrape: 'Scraping product and reviews',
+  update_product: 'Saving product details',
+  process_reviews: 'Extracting customer insights',
+  store_insights: 'Storing insights',
+  angle_reasoning: 'Generating virality packs'
+};
+
+const STEPS = Object.keys(STEP_LABELS) as IngestionStep[];
+
+export function IngestionProgress({ containerId, onFinished, className }: IngestionProgressProps) {
+  const [step, setStep] = useState<IngestionStep | null>(null);
+  const [reviewsScraped, setReviewsScraped] = useState<number | null>(null);
+  const [insightsStored, setInsightsStored] = useState<number | null>(null);
+  const [packsGenerated, setPacksGenerated] = useState<number | null>(null);
+
+  // Keep the latest callback without reconnecting the stream when it changes
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    const source = new EventSource(`/api/products/${containerId}/events`);
+
+    const finish = (status: FinalStatus, errorMessage?: string) => {
+      source.close();
+      onFinishedRef.current?.(status, errorMessage);
+    };
+
+    source.addEventListener('status', (message) => {
+      const { status, error_message } = JSON.parse((message as MessageEvent).data);
+      if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+        finish(status, error_message || undefined);
+      }
+    });
+
+    source.addEventListener('step_started', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<IngestionEvent, { type: 'step_started' }>;
+      setStep(event.step);
+    });
+
+    source.addEventListener('reviews_scraped', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<IngestionEvent, { type: 'reviews_scraped' }>;
+      setReviewsScraped(event.count);
+    });
+
+    source.addEventListener('insights_stored', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<IngestionEvent, { type: 'insights_stored' }>;
+      setInsightsStored(event.pain_points + event.delight_factors);
+    });
+
+    source.addEventListener('packs_generated', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<IngestionEvent, { type: 'packs_generated' }>;
+      setPacksGenerated(event.count);
+    });
+
+    source.addEventListener('completed', () => finish('completed'));
+    source.addEventListener('cancelled', () => finish('cancelled'));
+    source.addEventListener('failed', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<IngestionEvent, { type: 'failed' }>;
+      finish('failed', event.error);
+    });
+
+    return () => source.close();
+  }, [containerId]);
+
+  const stepIndex = step ? STEPS.indexOf(step) : -1;
+  const progress = ((stepIndex + 1) / (STEPS.length + 1)) * 100;
+
+  const details = [
+    reviewsScraped !== null && `${reviewsScraped} reviews scraped`,
+    insightsStored !== null && `${insightsStored} insights stored`,
+    packsGenerated !== null && `${packsGenerated} virality packs generated`
+  ].filter(Boolean);
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <div className="flex items-center gap-2 text-xs text-blue-600">
+        <RefreshCwIcon className="h-3 w-3 animate-spin" />
+        <span>
+          {step ? `Step ${stepIndex + 1} of ${STEPS.length}: ${STEP_LABELS[step]}` : 'Waiting to start...'}
+        </span>
+      </div>
+      <Progress value={progress} className="h-1.5" />
+      {details.length > 0 && (
+        <p className="text-xs text-muted-foreground">{details.join(' · ')}</p>
+      )}
+    </div>
+  );
+}
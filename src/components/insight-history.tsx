@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { HistoryIcon, RefreshCwIcon, AlertTriangleIcon } from 'lucide-react';
+import { InsightSnapshot, ProductContainer, RefreshSchedule, ThemeDrift } from '@/types/product';
+
+interface InsightHistoryProps {
+  container: ProductContainer;
+  onRefreshStarted: () => void;
+  onError: (message: string) => void;
+}
+
+// Describe how a drifting theme moved since the previous snapshot
+const describeDrift = (drift: ThemeDrift) => {
+  switch (drift.change) {
+    case 'new':
+      return `new, ${drift.mentions} mentions`;
+    case 'gone':
+      return `no longer mentioned (was ${drift.previous_mentions})`;
+    case 'mentions':
+      return `${drift.previous_mentions} → ${drift.mentions} mentions`;
+    case 'sentiment':
+      return `sentiment ${drift.previous_sentiment?.toFixed(2)} → ${drift.sentiment?.toFixed(2)}`;
+  }
+};
+
+export function InsightHistory({ container, onRefreshStarted, onError }: InsightHistoryProps) {
+  const [snapshots, setSnapshots] = useState<InsightSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [schedule, setSchedule] = useState<RefreshSchedule | null>(container.refresh_schedule || null);
+  const [nextRefreshAt, setNextRefreshAt] = useState(container.next_refresh_at || null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Fetch the snapshot history
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const response = await fetch(`/api/products/${container.id}/snapshots`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch insight history');
+      }
+
+      setSnapshots(data.snapshots || []);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [container.id, onError]);
+
+  // Save the refresh schedule
+  const updateSchedule = async (value: string) => {
+    const nextSchedule = value === 'off' ? null : value as RefreshSchedule;
+
+    try {
+      setSavingSchedule(true);
+
+      const response = await fetch(`/api/products/${container.id}/schedule`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refresh_schedule: nextSchedule }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update refresh schedule');
+      }
+
+      setSchedule(data.refresh_schedule);
+      setNextRefreshAt(data.next_refresh_at);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  // Re-scrape the product now
+  const refreshNow = async () => {
+    try {
+      setRefreshing(true);
+
+      const response = await fetch(`/api/products/${container.id}/ingest?refresh=true&fresh=true`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start refresh');
+      }
+
+      onRefreshStarted();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots, container.status]);
+
+  const isRunning = container.status === 'scraping' || container.status === 'analyzing';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <HistoryIcon className="h-5 w-5" />
+            Insight History
+          </CardTitle>
+          {/* Manual products have nothing to re-scrape */}
+          {container.platform !== 'manual' && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={schedule || 'off'}
+                onValueChange={updateSchedule}
+                disabled={savingSchedule}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">No auto refresh</SelectItem>
+                  <SelectItem value="daily">Refresh daily</SelectItem>
+                  <SelectItem value="weekly">Refresh weekly</SelectItem>
+                  <SelectItem value="monthly">Refresh monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refreshNow}
+                disabled={refreshing || isRunning || container.status === 'pending'}
+              >
+                {refreshing ? (
+                  <LoadingSpinner className="mr-2 h-4 w-4" />
+                ) : (
+                  <RefreshCwIcon className="mr-2 h-4 w-4" />
+                )}
+                Refresh Now
+              </Button>
+            </div>
+          )}
+        </div>
+        {schedule && nextRefreshAt && (
+          <p className="text-xs text-muted-foreground">
+            Next refresh: {new Date(nextRefreshAt).toLocaleString()}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <LoadingSpinner />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <p className="text-muted-foreground">No snapshots yet.</p>
+        ) : (
+          snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{new Date(snapshot.created_at).toLocaleString()}</span>
+                <span className="text-muted-foreground">
+                  {snapshot.review_count} reviews · {snapshot.pain_points.length} pain points · {snapshot.delight_factors.length} delight factors
+                </span>
+              </div>
+              {snapshot.drift.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {snapshot.drift.map((drift) => (
+                    <Badge
+                      key={`${drift.kind}-${drift.theme}`}
+                      variant={drift.kind === 'pain_point' ? 'destructive' : 'secondary'}
+                    >
+                      <AlertTriangleIcon className="h-3 w-3 mr-1" />
+                      <span className="capitalize">{drift.theme.replace(/_/g, ' ')}</span>: {describeDrift(drift)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
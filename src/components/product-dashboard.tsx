@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@clerk/nextjs';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,15 +17,20 @@ import {
   BarChart3Icon,
   CreditCardIcon,
   PlayIcon,
-  RefreshCwIcon,
+  RotateCcwIcon,
+  XIcon,
   EyeIcon
 } from 'lucide-react';
 import {
   ProductContainer,
   ProductAnalytics,
+  ProductBatch,
   CreateProductRequest
 } from '@/types/product';
 import { ProductDetail } from './product-detail';
+import { IngestionProgress } from './ingestion-progress';
+import { BatchUpload } from './batch-upload';
+import { BatchStatus } from './batch-status';
 
 interface ProductDashboardProps {
   className?: string;
@@ -41,6 +47,8 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
   const [success, setSuccess] = useState<string | null>(null);
   const [ingestingContainers, setIngestingContainers] = useState<Set<string>>(new Set());
   const [selectedContainerId, setSelectedContainerId] = useState<string | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const idempotencyKey = useIdempotencyKey();
 
   // Fetch product containers and analytics
   const fetchData = async () => {
@@ -88,21 +96,29 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
         product_url: productUrl.trim()
       };
 
+      const action = `create:${request.product_url}`;
+
       const response = await fetch('/api/products/create', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.getKey(action),
         },
         body: JSON.stringify(request),
       });
 
+      // Keep the key after server errors so a retry cannot create a second container
+      if (response.status < 500) idempotencyKey.release(action);
+
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to create product container');
       }
 
-      setSuccess('Product container created successfully! You can now start the analysis.');
+      setSuccess(data.warning
+        ? `Product container created. ${data.warning}`
+        : 'Product container created successfully! You can now start the analysis.');
       setProductUrl('');
 
       // Refresh data
@@ -114,8 +130,8 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
     }
   };
 
-  // Start ingestion for a product container
-  const startIngestion = async (containerId: string) => {
+  // Start ingestion for a product container, or resume its last failed run
+  const startIngestion = async (containerId: string, resume = false) => {
     if (!userId) return;
 
     try {
@@ -125,65 +141,31 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
       // Add to ingesting set
       setIngestingContainers(prev => new Set(prev).add(containerId));
 
-      const response = await fetch(`/api/products/${containerId}/ingest`, {
+      const action = `ingest:${containerId}:${resume}`;
+
+      const response = await fetch(`/api/products/${containerId}/ingest${resume ? '?resume=true' : ''}`, {
         method: 'POST',
+        headers: {
+          'Idempotency-Key': idempotencyKey.getKey(action),
+        },
       });
 
+      if (response.status < 500) idempotencyKey.release(action);
+
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to start product analysis');
       }
 
-      setSuccess('Product analysis started! This may take a few minutes.');
-
-      // Set up polling for real-time updates
-      const pollInterval = setInterval(async () => {
-        try {
-          const updatedResponse = await fetch('/api/products?include_analytics=false');
-          const updatedData = await updatedResponse.json();
-
-          if (updatedData.success && updatedData.containers) {
-            const updatedContainer = updatedData.containers.find((c: ProductContainer) => c.id === containerId);
-
-            if (updatedContainer && (updatedContainer.status === 'completed' || updatedContainer.status === 'failed')) {
-              // Stop polling when analysis is complete
-              clearInterval(pollInterval);
-              setIngestingContainers(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(containerId);
-                return newSet;
-              });
-
-              // Refresh all data
-              await fetchData();
-
-              if (updatedContainer.status === 'completed') {
-                setSuccess('Product analysis completed successfully!');
-              } else {
-                setError(`Product analysis failed: ${updatedContainer.error_message || 'Unknown error'}`);
-              }
-            } else if (updatedContainer) {
-              // Update the container status in real-time
-              setContainers(prev => prev.map(c =>
-                c.id === containerId ? updatedContainer : c
-              ));
-            }
-          }
-        } catch (pollError) {
-          console.error('Error polling for updates:', pollError);
-        }
-      }, 3000); // Poll every 3 seconds
-
-      // Stop polling after 5 minutes max
-      setTimeout(() => {
-        clearInterval(pollInterval);
-        setIngestingContainers(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(containerId);
-          return newSet;
-        });
-      }, 300000);
+      setSuccess(resume
+        ? 'Product analysis resumed from the step that failed.'
+        : 'Product analysis started! This may take a few minutes.');
+
+      // Show the container as running; IngestionProgress streams the rest
+      setContainers(prev => prev.map(c =>
+        c.id === containerId ? { ...c, status: 'scraping', error_message: null } : c
+      ));
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -195,6 +177,65 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
     }
   };
 
+  // Handle the end of an ingestion reported by the progress stream
+  const handleIngestionFinished = async (
+    containerId: string,
+    status: 'completed' | 'failed' | 'cancelled',
+    errorMessage?: string
+  ) => {
+    setIngestingContainers(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(containerId);
+      return newSet;
+    });
+
+    // Refresh all data
+    await fetchData();
+
+    if (status === 'completed') {
+      setSuccess('Product analysis completed successfully!');
+    } else if (status === 'cancelled') {
+      setSuccess('Product analysis cancelled.');
+    } else {
+      setError(`Product analysis failed: ${errorMessage || 'Unknown error'}`);
+    }
+  };
+
+  // Cancel a running ingestion
+  const cancelIngestion = async (containerId: string) => {
+    if (!userId) return;
+
+    try {
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch(`/api/products/${containerId}/ingest`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel product analysis');
+      }
+
+      // Refresh data
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  // Show the status of a newly created batch
+  const handleBatchCreated = async (batch: ProductBatch) => {
+    setError(null);
+    setSuccess(`Batch created! ${batch.total_urls - batch.rejected_urls.length} products queued for analysis.`);
+    setActiveBatchId(batch.id);
+
+    // Refresh data
+    await fetchData();
+  };
+
   // Delete product container
   const deleteContainer = async (containerId: string) => {
     if (!userId) return;
@@ -226,6 +267,8 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
         return 'default';
       case 'failed':
         return 'destructive';
+      case 'cancelled':
+        return 'outline';
       case 'scraping':
       case 'analyzing':
         return 'secondary';
@@ -247,6 +290,8 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
         return 'Analysis Complete';
       case 'failed':
         return 'Analysis Failed';
+      case 'cancelled':
+        return 'Analysis Cancelled';
       default:
         return status;
     }
@@ -254,7 +299,7 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
 
   // Check if container can be analyzed
   const canAnalyze = (container: ProductContainer) => {
-    return container.status === 'pending' || container.status === 'failed';
+    return container.status === 'pending' || container.status === 'failed' || container.status === 'cancelled';
   };
 
   // Check if container is currently being analyzed
@@ -393,7 +438,7 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
         <CardContent className="space-y-4">
           <div className="flex gap-2">
             <Input
-              placeholder="Enter product URL (Amazon, TikTok Shop, AliExpress, etc.)"
+              placeholder="Enter product URL (Amazon, TikTok Shop, AliExpress, Shopify, etc.)"
               value={productUrl}
               onChange={(e) => setProductUrl(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && createContainer()}
@@ -417,6 +462,23 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
         </CardContent>
       </Card>
 
+      {/* Bulk Import */}
+      <BatchUpload
+        onBatchCreated={handleBatchCreated}
+        onError={(message) => {
+          setSuccess(null);
+          setError(message);
+        }}
+      />
+
+      {activeBatchId && (
+        <BatchStatus
+          batchId={activeBatchId}
+          onClose={() => setActiveBatchId(null)}
+          onProgress={fetchData}
+        />
+      )}
+
       {/* Alerts */}
       {error && (
         <Alert variant="destructive">
@@ -474,11 +536,16 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
                         Error: {container.error_message}
                       </p>
                     )}
-                    {(container.status === 'scraping' || container.status === 'analyzing') && (
-                      <div className="flex items-center gap-2 text-xs text-blue-600 mt-2">
-                        <RefreshCwIcon className="h-3 w-3 animate-spin" />
-                        <span>Analysis in progress...</span>
-                      </div>
+                    {/* Batch products report progress through the batch view instead of one stream each */}
+                    {(container.status === 'scraping' || container.status === 'analyzing') &&
+                      (!container.batch_id || isAnalyzing(container.id)) && (
+                      <IngestionProgress
+                        containerId={container.id}
+                        className="mt-2"
+                        onFinished={(status, errorMessage) =>
+                          handleIngestionFinished(container.id, status, errorMessage)
+                        }
+                      />
                     )}
                   </div>
                   <div className="flex items-center gap-2 ml-4">
@@ -504,6 +571,31 @@ export function ProductDashboard({ className }: ProductDashboardProps) {
                       </Button>
                     )}
 
+                    {/* Cancel button */}
+                    {(container.status === 'scraping' || container.status === 'analyzing') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelIngestion(container.id)}
+                        title="Cancel analysis"
+                      >
+                        <XIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+
+                    {/* Resume button */}
+                    {(container.status === 'failed' || container.status === 'cancelled') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => startIngestion(container.id, true)}
+                        disabled={isAnalyzing(container.id)}
+                        title="Resume from the failed step"
+                      >
+                        <RotateCcwIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+
                     {/* View details button */}
                     {container.status === 'completed' && (
                       <Button
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@clerk/nextjs';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -24,16 +25,24 @@ import {
   EyeIcon,
   PlusIcon,
   EditIcon,
-  TrashIcon
+  TrashIcon,
+  FilterIcon,
+  LanguagesIcon
 } from 'lucide-react';
 import {
   ProductContainerWithAnalysis,
   ViralityPack,
   PainPoint,
   DelightFactor,
-  Script
+  Script,
+  ReviewQualityFlag,
+  ReviewQualitySummary,
+  LanguageMix
 } from '@/types/product';
 import { ScriptEditor } from './script-editor';
+import { IngestionProgress } from './ingestion-progress';
+import { InsightHistory } from './insight-history';
+import { ThemeReviewsDialog, SelectedTheme } from './theme-reviews-dialog';
 
 interface ProductDetailProps {
   containerId: string;
@@ -49,6 +58,8 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
   const [activeTab, setActiveTab] = useState('virality-packs');
   const [selectedScriptId, setSelectedScriptId] = useState<string | null>(null);
   const [creatingScript, setCreatingScript] = useState(false);
+  const [selectedTheme, setSelectedTheme] = useState<SelectedTheme | null>(null);
+  const idempotencyKey = useIdempotencyKey();
 
   // Fetch product container details
   const fetchContainerDetails = async () => {
@@ -85,14 +96,21 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
       setRegenerating(true);
       setError(null);
 
+      const body = JSON.stringify(options || {});
+      const action = `regenerate:${body}`;
+
       const response = await fetch(`/api/products/${containerId}/regenerate`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.getKey(action),
         },
-        body: JSON.stringify(options || {}),
+        body,
       });
 
+      // Keep the key after server errors so a retry cannot regenerate twice
+      if (response.status < 500) idempotencyKey.release(action);
+
       const data = await response.json();
 
       if (!response.ok) {
@@ -125,6 +143,28 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
     return `${sign}${percentage}%`;
   };
 
+  // Describe the reviews the analysis left out, e.g. "3 duplicates, 1 incentivized"
+  const formatExclusions = (quality: ReviewQualitySummary) => {
+    const labels: Record<ReviewQualityFlag, [string, string]> = {
+      duplicate: ['duplicate', 'duplicates'],
+      near_duplicate: ['near duplicate', 'near duplicates'],
+      incentivized: ['incentivized', 'incentivized']
+    };
+    return (Object.keys(labels) as ReviewQualityFlag[])
+      .filter(flag => quality.excluded[flag] > 0)
+      .map(flag => `${quality.excluded[flag]} ${labels[flag][quality.excluded[flag] === 1 ? 0 : 1]}`)
+      .join(', ');
+  };
+
+  // Format a language mix as "Spanish (12), English (30)", most common first
+  const formatLanguageMix = (mix: LanguageMix) => {
+    const names = new Intl.DisplayNames(['en'], { type: 'language' });
+    return Object.entries(mix)
+      .sort(([, a], [, b]) => b - a)
+      .map(([language, count]) => `${language === 'und' ? 'Unknown' : names.of(language) || language} (${count})`)
+      .join(', ');
+  };
+
   // Get sentiment color
   const getSentimentColor = (score: number) => {
     if (score > 0.3) return 'text-green-600';
@@ -147,19 +187,25 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
       setCreatingScript(true);
       setError(null);
 
+      const body = JSON.stringify({
+        product_container_id: containerId,
+        title,
+        content,
+        virality_pack_id: viralityPackId
+      });
+      const action = `create-script:${body}`;
+
       const response = await fetch('/api/scripts/create', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.getKey(action),
         },
-        body: JSON.stringify({
-          product_container_id: containerId,
-          title,
-          content,
-          virality_pack_id: viralityPackId
-        }),
+        body,
       });
 
+      if (response.status < 500) idempotencyKey.release(action);
+
       const data = await response.json();
 
       if (!response.ok) {
@@ -255,7 +301,9 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
               </Button>
               <div>
                 <h2 className="text-2xl font-bold">{container.product_name || 'Product Analysis'}</h2>
-                <p className="text-muted-foreground">{container.platform}</p>
+                <p className="text-muted-foreground">
+                  {container.platform}{container.marketplace ? ` · ${container.marketplace}` : ''}{container.category ? ` · ${container.category}` : ''}
+                </p>
               </div>
             </div>
         <div className="flex items-center gap-2">
@@ -288,6 +336,18 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
         </div>
       </div>
 
+      {/* Live ingestion progress */}
+      {(container.status === 'scraping' || container.status === 'analyzing') && (
+        <Card>
+          <CardContent className="pt-6">
+            <IngestionProgress
+              containerId={container.id}
+              onFinished={() => fetchContainerDetails()}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Analytics Overview */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -394,6 +454,32 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
 
         {/* Customer Insights Tab */}
         <TabsContent value="insights" className="space-y-4">
+          {/* Reviews left out of the analysis */}
+          {container.review_quality && (
+            <Alert>
+              <FilterIcon className="h-4 w-4" />
+              <AlertDescription>
+                Analyzed {container.review_quality.analyzed_reviews} of {container.review_quality.total_reviews} reviews.
+                {container.review_quality.analyzed_reviews < container.review_quality.total_reviews &&
+                  ` Excluded ${formatExclusions(container.review_quality)}.`}
+                {container.review_quality.unverified_reviews > 0 &&
+                  ` ${container.review_quality.unverified_reviews} unverified reviews count for less.`}
+                {' '}Mentions are weighted by how helpful other shoppers found each review.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Languages the reviews were written in */}
+          {container.language_mix && Object.keys(container.language_mix).some(language => language !== 'en') && (
+            <Alert>
+              <LanguagesIcon className="h-4 w-4" />
+              <AlertDescription>
+                Review languages: {formatLanguageMix(container.language_mix)}.
+                {' '}Reviews in other languages were translated into English for analysis; the originals are kept.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="grid gap-6 md:grid-cols-2">
             {/* Pain Points */}
             <Card>
@@ -406,13 +492,24 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
               <CardContent className="space-y-3">
                 {container.pain_points && container.pain_points.length > 0 ? (
                   container.pain_points
-                    .sort((a, b) => b.mentions - a.mentions)
+                    .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions))
                     .map((point) => (
                       <div key={point.id} className="border-l-4 border-red-500 pl-4">
                         <div className="flex items-center justify-between mb-1">
-                          <h4 className="font-medium capitalize">
-                            {point.theme.replace(/_/g, ' ')}
-                          </h4>
+                          {point.source === 'discovered' ? (
+                            <span className="font-medium" title="Found by clustering review sentences">
+                              {point.label || point.theme.replace(/_/g, ' ')}
+                              <Badge variant="outline" className="ml-2">Discovered</Badge>
+                            </span>
+                          ) : (
+                            <button
+                              className="font-medium capitalize hover:underline text-left"
+                              onClick={() => setSelectedTheme({ kind: 'pain_point', theme: point.theme })}
+                              title="View contributing reviews"
+                            >
+                              {point.theme.replace(/_/g, ' ')}
+                            </button>
+                          )}
                           <Badge variant="destructive">
                             {point.mentions} mentions
                           </Badge>
@@ -444,13 +541,24 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
               <CardContent className="space-y-3">
                 {container.delight_factors && container.delight_factors.length > 0 ? (
                   container.delight_factors
-                    .sort((a, b) => b.mentions - a.mentions)
+                    .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions))
                     .map((factor) => (
                       <div key={factor.id} className="border-l-4 border-green-500 pl-4">
                         <div className="flex items-center justify-between mb-1">
-                          <h4 className="font-medium capitalize">
-                            {factor.theme.replace(/_/g, ' ')}
-                          </h4>
+                          {factor.source === 'discovered' ? (
+                            <span className="font-medium" title="Found by clustering review sentences">
+                              {factor.label || factor.theme.replace(/_/g, ' ')}
+                              <Badge variant="outline" className="ml-2">Discovered</Badge>
+                            </span>
+                          ) : (
+                            <button
+                              className="font-medium capitalize hover:underline text-left"
+                              onClick={() => setSelectedTheme({ kind: 'delight_factor', theme: factor.theme })}
+                              title="View contributing reviews"
+                            >
+                              {factor.theme.replace(/_/g, ' ')}
+                            </button>
+                          )}
                           <Badge variant="default">
                             {factor.mentions} mentions
                           </Badge>
@@ -471,6 +579,20 @@ export function ProductDetail({ containerId, onBack }: ProductDetailProps) {
               </CardContent>
             </Card>
           </div>
+
+          {/* Reviews behind a clicked theme */}
+          <ThemeReviewsDialog
+            containerId={container.id}
+            selected={selectedTheme}
+            onClose={() => setSelectedTheme(null)}
+          />
+
+          {/* Snapshot history and refresh schedule */}
+          <InsightHistory
+            container={container}
+            onRefreshStarted={() => fetchContainerDetails()}
+            onError={setError}
+          />
         </TabsContent>
 
         {/* Scripts Tab */}
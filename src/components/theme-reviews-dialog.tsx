@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { StarIcon, ThumbsUpIcon } from 'lucide-react';
+import { Review } from '@/types/product';
+
+export interface SelectedTheme {
+  kind: 'pain_point' | 'delight_factor';
+  theme: string;
+}
+
+interface ThemeReviewsDialogProps {
+  containerId: string;
+  selected: SelectedTheme | null;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+export function ThemeReviewsDialog({ containerId, selected, onClose }: ThemeReviewsDialogProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch a page of reviews for the selected theme
+  const fetchReviews = useCallback(async (offset: number) => {
+    if (!selected) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const query = new URLSearchParams({
+        kind: selected.kind,
+        theme: selected.theme,
+        limit: String(PAGE_SIZE),
+        offset: String(offset)
+      });
+
+      const response = await fetch(`/api/products/${containerId}/reviews?${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch reviews');
+      }
+
+      setReviews(prev => offset === 0 ? data.reviews : [...prev, ...data.reviews]);
+      setTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [containerId, selected]);
+
+  useEffect(() => {
+    setReviews([]);
+    setTotal(0);
+    fetchReviews(0);
+  }, [fetchReviews]);
+
+  return (
+    <Dialog open={!!selected} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="capitalize">
+            {selected?.theme.replace(/_/g, ' ')}
+          </DialogTitle>
+          <DialogDescription>
+            {total} {total === 1 ? 'review' : 'reviews'} contributed to this {selected?.kind === 'pain_point' ? 'pain point' : 'delight factor'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <div key={review.id} className="border rounded-lg p-3 space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <span className="flex items-center gap-1">
+                    <StarIcon className="h-3 w-3" />
+                    {review.rating}
+                  </span>
+                  <span>{review.author || 'Anonymous'}</span>
+                  {review.review_date && <span>{review.review_date}</span>}
+                  {review.verified && <Badge variant="outline">Verified</Badge>}
+                </div>
+                {!!review.helpful_count && (
+                  <span className="flex items-center gap-1">
+                    <ThumbsUpIcon className="h-3 w-3" />
+                    {review.helpful_count}
+                  </span>
+                )}
+              </div>
+              {review.title && <p className="font-medium text-sm">{review.title}</p>}
+              <p className="text-sm whitespace-pre-wrap">{review.content}</p>
+            </div>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <LoadingSpinner />
+          </div>
+        ) : reviews.length < total && (
+          <Button variant="outline" onClick={() => fetchReviews(reviews.length)}>
+            Load more
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+
+// Hands out one Idempotency-Key per pending action so double clicks and retries
+// of the same action reuse it; call release once the server has answered.
+export function useIdempotencyKey() {
+  const keys = useRef(new Map<string, string>());
+
+  const getKey = useCallback((action: string) => {
+    let key = keys.current.get(action);
+    if (!key) {
+      key = crypto.randomUUID();
+      keys.current.set(action, key);
+    }
+    return key;
+  }, []);
+
+  const release = useCallback((action: string) => {
+    keys.current.delete(action);
+  }, []);
+
+  return { getKey, release };
+}
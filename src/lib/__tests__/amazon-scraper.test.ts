@@ -0,0 +1,244 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { HttpClient, HttpError, HttpResponse } from '../http-client';
+import type { ScraperConfig } from '../scraper-registry';
+import {
+  AmazonScraper,
+  amazonScraperDefinition,
+  extractAsin,
+  getAmazonMarketplace,
+  hasNextReviewPage,
+  parseAmazonProductPage,
+  parseAmazonReviews
+} from '../amazon-scraper';
+
+// Pages recorded from each marketplace, trimmed to the markup the parser reads
+function loadPage(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'amazon', name), 'utf8');
+}
+
+type RecordedPage = string | { url: string; body: string };
+
+// Replays recorded pages by URL and keeps the requests made; anything not recorded is a 404
+class RecordedHttpClient implements HttpClient {
+  requests: string[] = [];
+
+  constructor(private pages: Record<string, RecordedPage>) {}
+
+  async get(url: string): Promise<HttpResponse> {
+    this.requests.push(url);
+    const page = this.pages[url];
+    if (page === undefined) {
+      throw new HttpError(404, url);
+    }
+
+    const { url: finalUrl, body } = typeof page === 'string' ? { url, body: page } : page;
+    return { status: 200, url: finalUrl, headers: new Headers(), body };
+  }
+}
+
+function reviewPageUrl(marketplace: string, asin: string, filter: string, pageNumber: number): string {
+  return `https://www.${marketplace}/product-reviews/${asin}/?reviewerType=all_reviews&filterByStar=${filter}&pageNumber=${pageNumber}`;
+}
+
+const COM_PAGES: Record<string, RecordedPage> = {
+  'https://www.amazon.com/dp/B083GBMWVL': loadPage('com-product.html'),
+  [reviewPageUrl('amazon.com', 'B083GBMWVL', 'all_stars', 1)]: loadPage('com-reviews-page-1.html'),
+  [reviewPageUrl('amazon.com', 'B083GBMWVL', 'all_stars', 2)]: loadPage('com-reviews-page-2.html')
+};
+
+describe('extractAsin', () => {
+  const cases: [string, string | null][] = [
+    ['https://www.amazon.com/Hydro-Flask-Wide-Mouth-Bottle/dp/B083GBMWVL/ref=sr_1_3?keywords=hydro+flask', 'B083GBMWVL'],
+    ['https://www.amazon.com/dp/product/B083GBMWVL', 'B083GBMWVL'],
+    ['https://www.amazon.co.uk/gp/product/B00DU8FHWK?psc=1', 'B00DU8FHWK'],
+    ['https://www.amazon.de/gp/aw/d/b07xj8c8f5', 'B07XJ8C8F5'],
+    ['https://www.amazon.com/product-reviews/B083GBMWVL/?filterByStar=critical', 'B083GBMWVL'],
+    ['https://www.amazon.com/exec/obidos/ASIN/B083GBMWVL', 'B083GBMWVL'],
+    ['https://www.amazon.com/gp/offer-listing?asin=B083GBMWVL', 'B083GBMWVL'],
+    ['https://amzn.to/3Bx9QeD', null],
+    ['https://www.amazon.com/s?k=water+bottle', null],
+    ['not a url', null]
+  ];
+
+  for (const [url, asin] of cases) {
+    it(`reads ${asin ?? 'no ASIN'} from ${url}`, () => {
+      assert.equal(extractAsin(url), asin);
+    });
+  }
+});
+
+describe('getAmazonMarketplace', () => {
+  it('matches marketplaces by domain, not by suffix alone', () => {
+    assert.equal(getAmazonMarketplace('https://www.amazon.co.uk/dp/B00DU8FHWK'), 'amazon.co.uk');
+    assert.equal(getAmazonMarketplace('https://smile.amazon.de/dp/B07XJ8C8F5'), 'amazon.de');
+    assert.equal(getAmazonMarketplace('https://www.amazon.com.au/dp/B07XJ8C8F5'), 'amazon.com.au');
+    assert.equal(getAmazonMarketplace('https://notamazon.com/dp/B07XJ8C8F5'), null);
+    assert.equal(getAmazonMarketplace('https://amzn.to/3Bx9QeD'), null);
+  });
+});
+
+describe('parseAmazonProductPage', () => {
+  it('reads an amazon.com product page', () => {
+    const { product, reviews } = parseAmazonProductPage(loadPage('com-product.html'));
+
+    assert.equal(product.name, 'Hydro Flask Wide Mouth Bottle with Flex Cap, 32 oz, Black');
+    assert.equal(product.price, '$44.95');
+    assert.equal(product.rating, 4.8);
+    assert.equal(product.review_count, 28519);
+    assert.equal(product.images[0], 'https://m.media-amazon.com/images/I/61oVNxQdkBL._AC_SL1500_.jpg');
+    assert.ok(product.description?.startsWith('TempShield insulation keeps drinks cold up to 24 hours'));
+    assert.ok(product.description?.endsWith('Wide mouth bottle for ice cubes and easy cleaning.'));
+    assert.deepEqual(reviews.map(review => [review.rating, review.author, review.verified]), [[5, 'Jordan P.', true]]);
+  });
+
+  it('reads an amazon.co.uk product page with the apex price block', () => {
+    const { product, reviews } = parseAmazonProductPage(loadPage('co-uk-product.html'));
+
+    assert.equal(product.name, 'Joseph Joseph Nest 9 Plus Compact Food Preparation Set');
+    assert.equal(product.price, '£34.99');
+    assert.equal(product.rating, 4.7);
+    assert.equal(product.review_count, 9876);
+    assert.equal(product.images[0], 'https://m.media-amazon.com/images/I/71l2G0bYbTL._AC_SX679_.jpg');
+    assert.deepEqual(reviews[0], {
+      rating: 5,
+      title: 'Saves so much cupboard space',
+      content: 'Everything fits inside the largest bowl and the colours make it easy to grab the right piece.',
+      author: 'Fiona',
+      date: '2025-03-03',
+      verified: true,
+      helpful_count: 14
+    });
+    assert.equal(reviews[1].date, '2025-01-17');
+  });
+
+  it('reads an amazon.de product page with German number formats', () => {
+    const { product, reviews } = parseAmazonProductPage(loadPage('de-product.html'));
+
+    assert.match(product.name || '', /^Bosch Professional 18V System Akku-Bohrschrauber GSR 18V-55/);
+    assert.equal(product.price, '89,99 €');
+    assert.equal(product.rating, 4.6);
+    assert.equal(product.review_count, 2345);
+    assert.deepEqual(product.images, [
+      'https://m.media-amazon.com/images/I/61Yw9c2vWIL._AC_SL1500_.jpg',
+      'https://m.media-amazon.com/images/I/61Yw9c2vWIL._AC_SX300_SY300_.jpg'
+    ]);
+    assert.equal(reviews[0].rating, 5);
+    assert.equal(reviews[0].verified, true);
+    assert.equal(reviews[0].helpful_count, 5);
+  });
+});
+
+describe('parseAmazonReviews', () => {
+  it('reads review pages and leaves star icons out of titles', () => {
+    const reviews = parseAmazonReviews(loadPage('com-reviews-page-1.html'));
+
+    assert.deepEqual(reviews.map(entry => entry.id), ['R2X1TOPREVIEW1', 'R1B2C3D4E5F6G7']);
+    assert.equal(reviews[0].review.title, 'Ice still there the next morning');
+    assert.deepEqual(reviews[1].review, {
+      rating: 2,
+      title: 'Paint chipped in a week',
+      content: 'Keeps water cold, but the powder coat chipped the first time I dropped it.\nExpected better for the price.',
+      author: 'Marisol',
+      date: '2024-10-02',
+      verified: false,
+      helpful_count: 1
+    });
+  });
+
+  it('reads German star ratings and "Eine Person" helpful votes', () => {
+    const [{ review }] = parseAmazonReviews(loadPage('de-reviews-critical.html'));
+
+    assert.equal(review.rating, 2);
+    assert.equal(review.author, 'Monika H.');
+    assert.equal(review.helpful_count, 1);
+    assert.equal(review.verified, true);
+  });
+
+  it('finds the next page link only when it is enabled', () => {
+    assert.equal(hasNextReviewPage(loadPage('com-reviews-page-1.html')), true);
+    assert.equal(hasNextReviewPage(loadPage('com-reviews-page-2.html')), false);
+    assert.equal(hasNextReviewPage(loadPage('com-product.html')), false);
+  });
+});
+
+describe('AmazonScraper', () => {
+  it('scrapes a dp URL and pages through its reviews without duplicates', async () => {
+    const httpClient = new RecordedHttpClient(COM_PAGES);
+    const result = await new AmazonScraper(httpClient).scrapeProduct(
+      'https://www.amazon.com/Hydro-Flask-Wide-Mouth-Bottle/dp/B083GBMWVL/ref=sr_1_3?keywords=hydro+flask'
+    );
+
+    assert.equal(result.success, true);
+    assert.equal(result.warning, undefined);
+    assert.equal(result.product_data?.marketplace, 'amazon.com');
+    assert.equal(result.product_data?.platform, 'amazon');
+    assert.deepEqual(result.reviews?.map(review => review.author), ['Jordan P.', 'Marisol', "Kevin O'Neil"]);
+    assert.deepEqual(httpClient.requests, [
+      'https://www.amazon.com/dp/B083GBMWVL',
+      reviewPageUrl('amazon.com', 'B083GBMWVL', 'all_stars', 1),
+      reviewPageUrl('amazon.com', 'B083GBMWVL', 'all_stars', 2)
+    ]);
+  });
+
+  it('stops paging once it has maxReviews reviews', async () => {
+    const httpClient = new RecordedHttpClient(COM_PAGES);
+    const result = await new AmazonScraper(httpClient, { maxReviews: 2 }).scrapeProduct('https://www.amazon.com/dp/B083GBMWVL');
+
+    assert.equal(result.reviews?.length, 2);
+    assert.equal(httpClient.requests.length, 2);
+  });
+
+  it('scrapes a gp/product URL and falls back to the product page reviews when review pages need sign-in', async () => {
+    const httpClient = new RecordedHttpClient({
+      'https://www.amazon.co.uk/dp/B00DU8FHWK': loadPage('co-uk-product.html'),
+      [reviewPageUrl('amazon.co.uk', 'B00DU8FHWK', 'all_stars', 1)]: {
+        url: 'https://www.amazon.co.uk/ap/signin?openid.return_to=https%3A%2F%2Fwww.amazon.co.uk%2Fproduct-reviews%2FB00DU8FHWK',
+        body: '<html><body><form name="signIn"></form></body></html>'
+      }
+    });
+    const result = await new AmazonScraper(httpClient).scrapeProduct('https://www.amazon.co.uk/gp/product/B00DU8FHWK?psc=1');
+
+    assert.equal(result.success, true);
+    assert.equal(result.product_data?.marketplace, 'amazon.co.uk');
+    assert.deepEqual(result.reviews?.map(review => review.author), ['Fiona', 'Dev']);
+    assert.equal(result.warning, 'Could not load review pages from amazon.co.uk; using the 2 reviews shown on the product page.');
+  });
+
+  it('follows an amzn.to short link and reads only the configured star filters', async () => {
+    const httpClient = new RecordedHttpClient({
+      'https://amzn.to/3Bx9QeD': {
+        url: 'https://www.amazon.de/dp/B07XJ8C8F5?ref_=cm_sw_r_cp_ud_dp_4XK2&th=1',
+        body: loadPage('de-product.html')
+      },
+      'https://www.amazon.de/dp/B07XJ8C8F5': loadPage('de-product.html'),
+      [reviewPageUrl('amazon.de', 'B07XJ8C8F5', 'critical', 1)]: loadPage('de-reviews-critical.html')
+    });
+    const config: ScraperConfig = { enabled: true, maxReviews: 200, timeoutMs: 120000, starFilters: ['critical', 'three_stars'] };
+    const scraper = amazonScraperDefinition.create({
+      httpClient,
+      config,
+      next: { canHandle: () => true, scrapeProduct: async () => ({ success: false }) }
+    });
+
+    const result = await scraper.scrapeProduct('https://amzn.to/3Bx9QeD');
+
+    assert.equal(result.success, true);
+    assert.equal(result.product_data?.marketplace, 'amazon.de');
+    assert.equal(result.product_data?.original_url, 'https://amzn.to/3Bx9QeD');
+    assert.deepEqual(result.reviews?.map(review => review.author), ['Monika H.']);
+    assert.deepEqual(httpClient.requests, [
+      'https://amzn.to/3Bx9QeD',
+      'https://www.amazon.de/dp/B07XJ8C8F5',
+      reviewPageUrl('amazon.de', 'B07XJ8C8F5', 'critical', 1)
+    ]);
+  });
+
+  it('reports a product that does not exist', async () => {
+    const result = await new AmazonScraper(new RecordedHttpClient({})).scrapeProduct('https://www.amazon.com/dp/B000000000');
+
+    assert.deepEqual(result, { success: false, error: 'Amazon product not found' });
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LexiconSentimentModel, LlmSentimentModel } from '../aspect-sentiment';
+import { AspectMention, ThemeMatcher } from '../theme-taxonomy';
+import { DEFAULT_TAXONOMY } from '../theme-packs';
+import { aiService } from '../ai-service';
+
+const matcher = new ThemeMatcher(DEFAULT_TAXONOMY, 'electronics');
+const model = new LexiconSentimentModel();
+
+async function scoreText(text: string): Promise<Record<string, number>> {
+  const mentions = matcher.mentions(text);
+  const scores = await model.score(mentions);
+  return Object.fromEntries(mentions.map((mention, index) => [mention.theme, scores[index]]));
+}
+
+// A mention of the word at `word` in the sentence
+function mentionOf(theme: string, sentence: string, word: string): AspectMention {
+  const start = sentence.indexOf(word);
+  return { theme, sentence, start, end: start + word.length };
+}
+
+describe('LexiconSentimentModel', () => {
+  it('scores the opinion around each mention between -1 and 1', async () => {
+    assert.deepEqual(await scoreText('The battery is good.'), { battery_life: 0.44 });
+    assert.deepEqual(await scoreText('The battery is bad.'), { battery_life: -0.54 });
+    assert.deepEqual(await scoreText('The battery.'), { battery_life: 0 });
+    assert.deepEqual(await scoreText('The battery is amazing, perfect, excellent and the best!'), { battery_life: 0.61 });
+  });
+
+  it('scales a word after an intensifier or dampener and flips it after a negator', async () => {
+    assert.deepEqual(await scoreText('The battery is very good.'), { battery_life: 0.59 });
+    assert.deepEqual(await scoreText('The battery is slightly good.'), { battery_life: 0.28 });
+    assert.deepEqual(await scoreText('The battery is not good.'), { battery_life: -0.34 });
+  });
+
+  it('joins multi-word entries and keeps long waits apart from long-lasting products', async () => {
+    assert.deepEqual(await scoreText('The battery is a waste of money.'), { battery_life: -0.61, price_value: -0.61 });
+    assert.deepEqual(await scoreText('Took forever to ship.'), { shipping_delivery: -0.49 });
+    assert.deepEqual(await scoreText('Battery lasts a long time'), { battery_life: 0 });
+  });
+
+  it('scores each side of a contrast apart', async () => {
+    const sentence = 'smells great but the cap leaks';
+
+    assert.deepEqual(
+      await model.score([mentionOf('smell_aroma', sentence, 'smells'), mentionOf('packaging', sentence, 'cap')]),
+      [0.61, -0.46]
+    );
+  });
+
+  it('splits clauses on commas, widening to the contrast when the clause holds no opinion', async () => {
+    const sentence = 'great sound, bad battery';
+
+    assert.deepEqual(
+      await model.score([mentionOf('sound_quality', sentence, 'sound'), mentionOf('battery_life', sentence, 'battery')]),
+      [0.61, -0.54]
+    );
+    assert.deepEqual(await scoreText('The battery, honestly, is terrible.'), { battery_life: -0.61 });
+  });
+
+  it('scores the whole sentence when the mention has no position', async () => {
+    assert.deepEqual(await model.score([{ theme: 'general_experience', sentence: 'love it. works great' }]), [0.87]);
+  });
+});
+
+describe('LlmSentimentModel', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const mentions: AspectMention[] = Array.from({ length: 120 }, (_, index) => ({
+    theme: 'battery_life',
+    sentence: `review ${index}: the battery is bad`
+  }));
+
+  it('scores mentions in batches of 50, falling back to the lexicon for a batch that fails', async () => {
+    let calls = 0;
+    const scoreAspectSentiment = mock.method(aiService, 'scoreAspectSentiment', async (batch: AspectMention[]) => {
+      calls += 1;
+      if (calls === 2) throw new Error('rate limited');
+      return batch.map(() => 0.5);
+    });
+    mock.method(console, 'error', () => {});
+
+    const scores = await new LlmSentimentModel().score(mentions);
+
+    assert.deepEqual(scoreAspectSentiment.mock.calls.map(call => call.arguments[0].length), [50, 50, 20]);
+    assert.equal(scores.length, 120);
+    assert.deepEqual([scores[0], scores[49], scores[50], scores[99], scores[100]], [0.5, 0.5, -0.54, -0.54, 0.5]);
+  });
+
+  it('stops instead of falling back once the signal is aborted', async () => {
+    const controller = new AbortController();
+    mock.method(aiService, 'scoreAspectSentiment', async () => {
+      controller.abort();
+      throw new Error('aborted');
+    });
+
+    await assert.rejects(new LlmSentimentModel().score(mentions, controller.signal), { name: 'AbortError' });
+  });
+});
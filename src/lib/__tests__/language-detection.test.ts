@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UNDETERMINED_LANGUAGE, detectLanguage } from '../language-detection';
+
+describe('detectLanguage', () => {
+  it('tells short reviews apart from a single clue', () => {
+    assert.equal(detectLanguage('Good!'), 'en');
+    assert.equal(detectLanguage('Bueno'), 'es');
+    assert.equal(detectLanguage('Muy bueno'), 'es');
+    assert.equal(detectLanguage('Sehr gut'), 'de');
+    assert.equal(detectLanguage('Très bon produit'), 'fr');
+    assert.equal(detectLanguage('Ottimo prodotto'), 'it');
+    assert.equal(detectLanguage('Ótimo produto, chegou rápido'), 'pt');
+  });
+
+  it('leaves text without clues undetermined', () => {
+    for (const text of ['', 'ok', 'Top', '5 stars', '👍👍', '10/10']) {
+      assert.equal(detectLanguage(text), UNDETERMINED_LANGUAGE, text);
+    }
+  });
+
+  it('goes with the language most of a mixed review is in, and gives up on a tie', () => {
+    assert.equal(detectLanguage('The color is bonito and it works with my phone'), 'en');
+    assert.equal(detectLanguage('Muy bueno pero the battery is bad y no funciona'), 'es');
+    assert.equal(detectLanguage('Great product, muy bueno'), UNDETERMINED_LANGUAGE);
+  });
+
+  it('tells non-Latin scripts apart by script', () => {
+    assert.equal(detectLanguage('Отличный товар, рекомендую'), 'ru');
+    assert.equal(detectLanguage('品質がとても良いです'), 'ja');
+    assert.equal(detectLanguage('iPhone 15 ケース'), 'ja');
+    assert.equal(detectLanguage('质量很好，推荐购买'), 'zh');
+    assert.equal(detectLanguage('배송이 빠르고 좋아요'), 'ko');
+    assert.equal(detectLanguage('منتج رائع جدا'), 'ar');
+    assert.equal(detectLanguage('Πολύ καλό προϊόν'), UNDETERMINED_LANGUAGE);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_QUOTE_SIMILARITY,
+  QuoteParaphraseService,
+  QuoteParaphraser,
+  QuoteSource,
+  RuleBasedParaphraser,
+  quoteSimilarity
+} from '../quote-paraphraser';
+
+// Returns fixed quotes in place of an AI model
+class RecordedParaphraser implements QuoteParaphraser {
+  name = 'recorded';
+
+  constructor(private quotes: Array<string | null>) {}
+
+  async paraphrase(): Promise<Array<string | null>> {
+    return this.quotes;
+  }
+}
+
+const SOURCES: QuoteSource[] = [
+  { text: 'The battery died after two days of light use. Very disappointed.', theme: 'battery life', sentiment: -0.9 },
+  { text: "Love it! Fits perfectly and the fabric doesn't pill after washing.", theme: 'fit', sentiment: 0.8 },
+  { text: 'Took forever to ship and arrived dented.', theme: 'shipping & delivery', sentiment: -0.5 },
+  { text: 'Smells amazing, like fresh lavender, and the scent lasts all day.', theme: 'scent', sentiment: 0.9 }
+];
+
+describe('quoteSimilarity', () => {
+  it('measures the share of the quote trigrams found in the source', () => {
+    assert.equal(quoteSimilarity('The battery died after two days.', 'the battery died after two days'), 1);
+    assert.equal(quoteSimilarity('The battery died after two days.', 'Power ran out quickly'), 0);
+    assert.equal(quoteSimilarity('Great value', 'great'), 1);
+  });
+});
+
+describe('RuleBasedParaphraser', () => {
+  it('restructures each excerpt into the reviewer view plus their details', async () => {
+    const quotes = await new RuleBasedParaphraser().paraphrase(SOURCES);
+
+    assert.deepEqual(quotes, [
+      'A reviewer was very unhappy with the battery life, mentioning died, two days and light use.',
+      "A reviewer was delighted with the fit, mentioning perfectly, fabric doesn't pill and washing.",
+      'A reviewer had some complaints about the shipping & delivery, mentioning took forever and arrived dented.',
+      'A reviewer was delighted with the scent, mentioning smells, fresh lavender and lasts all day.'
+    ]);
+    quotes.forEach((quote, index) => {
+      assert.ok(quoteSimilarity(SOURCES[index].text, quote!) <= MAX_QUOTE_SIMILARITY, quote!);
+    });
+  });
+
+  it('gives no quote when an excerpt has nothing beyond the theme and an opinion', async () => {
+    const quotes = await new RuleBasedParaphraser().paraphrase([
+      { text: 'Great.', theme: 'value', sentiment: 0.8 },
+      { text: 'Love the fit!', theme: 'fit', sentiment: 0.9 }
+    ]);
+
+    assert.deepEqual(quotes, [null, null]);
+  });
+});
+
+describe('QuoteParaphraseService', () => {
+  it('keeps quotes written in new words', async () => {
+    const service = new QuoteParaphraseService(new RecordedParaphraser(['Power ran out within a couple of days.']));
+    assert.deepEqual(await service.paraphrase(SOURCES.slice(0, 1)), ['Power ran out within a couple of days.']);
+  });
+
+  it('replaces quotes that copy the excerpt with the rule-based rewrite', async () => {
+    const service = new QuoteParaphraseService(new RecordedParaphraser([SOURCES[0].text]));
+    assert.deepEqual(await service.paraphrase(SOURCES.slice(0, 1)), [
+      'A reviewer was very unhappy with the battery life, mentioning died, two days and light use.'
+    ]);
+  });
+
+  it('checks quotes against the whole review, not only the excerpt', async () => {
+    const source: QuoteSource = {
+      text: 'The battery died after two days.',
+      theme: 'battery life',
+      sentiment: -0.9,
+      review: 'Returned it within the week. The battery died after two days.'
+    };
+    const service = new QuoteParaphraseService(new RecordedParaphraser(['I returned it within the week.']));
+
+    assert.deepEqual(await service.paraphrase([source]), [
+      'A reviewer was very unhappy with the battery life, mentioning died and two days.'
+    ]);
+  });
+
+  it('drops a quote when no rewrite is far enough from the review', async () => {
+    const service = new QuoteParaphraseService(new RecordedParaphraser(['Great!']));
+    assert.deepEqual(await service.paraphrase([{ text: 'Great!', theme: 'value', sentiment: 0.8 }]), [null]);
+  });
+});
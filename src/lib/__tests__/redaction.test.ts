@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Redactor, validateCompetitorBrands } from '../redaction';
+
+function redact(text: string): string {
+  return new Redactor().redact(text);
+}
+
+describe('Redactor phone numbers', () => {
+  it('redacts numbers with a country code, 3-3-4 groups or a trunk zero', () => {
+    assert.equal(redact('Call (555) 123-4567 for returns'), 'Call [phone] for returns');
+    assert.equal(redact('Text me on 555.123.4567'), 'Text me on [phone]');
+    assert.equal(redact('Ring +44 20 7946 0958.'), 'Ring [phone].');
+    assert.equal(redact('Support: +1 (555) 123-4567'), 'Support: [phone]');
+    assert.equal(redact('WhatsApp +4915112345678'), 'WhatsApp [phone]');
+    assert.equal(redact('Their office is 020 7946 0958'), 'Their office is [phone]');
+    assert.equal(redact('My mobile 07700 900123'), 'My mobile [phone]');
+  });
+
+  it('leaves ordinary digit runs and years alone', () => {
+    for (const text of [
+      'used it 2024 2025 2026 daily',
+      'Model 2023 1234 5678',
+      'Ordered 12 pcs 123 456 789',
+      'Gift card 1234-5678-9012',
+      'Lost 10 lbs in 3 weeks 2 days'
+    ]) {
+      assert.equal(redact(text), text);
+    }
+  });
+});
+
+describe('Redactor names', () => {
+  it('redacts relatives, carers, introductions and sign-offs, keeping the lead-in', () => {
+    assert.equal(redact('My husband Mark loves it'), 'My husband [name] loves it');
+    assert.equal(redact('our daughter, Emily, wears it daily'), 'our daughter, [name], wears it daily');
+    assert.equal(redact('My dermatologist, Dr. Okafor, suggested it'), 'My dermatologist, [name], suggested it');
+    assert.equal(redact("Hi, my name is Jane Doe and I'm a nurse"), "Hi, my name is [name] and I'm a nurse");
+    assert.equal(redact('Works great. - Sarah K.'), 'Works great. - [name]');
+  });
+
+  it('redacts a titled name only when it is followed by what the person said', () => {
+    assert.equal(redact('Dr. Patel recommended this cream'), '[name] recommended this cream');
+    assert.equal(redact('Mrs Holloway told me to try it'), '[name] told me to try it');
+  });
+
+  it('leaves brands that use a title alone', () => {
+    for (const text of [
+      'Dr. Bronner soap works better',
+      'Smells like Dr. Bronner',
+      'Mr. Coffee makers last longer',
+      'Same size as Mrs. Meyers bottles'
+    ]) {
+      assert.equal(redact(text), text);
+    }
+  });
+});
+
+describe('Redactor report', () => {
+  it('counts each distinct value once however often the same text is redacted', () => {
+    const redactor = new Redactor(['Dyson']);
+    const review = 'Email a@b.com or call (555) 123-4567. My wife Anna prefers it to the DYSON.';
+
+    assert.equal(
+      redactor.redact(review),
+      'Email [email] or call [phone]. My wife [name] prefers it to the [another brand].'
+    );
+    redactor.redact(`Great fan. ${review}`);
+    redactor.redact(review.slice(0, 20));
+    redactor.redact('Also sold by Dyson, call 555-987-6543');
+
+    assert.deepEqual(redactor.getReport(), {
+      counts: { email: 1, phone: 2, order_number: 0, name: 1, competitor: 1 },
+      competitor_brands: ['Dyson']
+    });
+  });
+
+  it('redacts order numbers with or without a label', () => {
+    assert.equal(redact('Order 112-4567890-1234567 arrived'), 'Order [order number] arrived');
+    assert.equal(redact('tracking number: 1Z999AA10123456784'), 'tracking number: [order number]');
+    assert.equal(redact('order is delayed'), 'order is delayed');
+  });
+});
+
+describe('validateCompetitorBrands', () => {
+  it('accepts a list of names and rejects anything else', () => {
+    assert.equal(validateCompetitorBrands(['Dyson', 'Shark']), null);
+    assert.equal(validateCompetitorBrands('Dyson'), 'Competitor brands must be a list of names');
+    assert.equal(validateCompetitorBrands(['Dyson', ' ']), 'Each competitor brand must be 1 to 60 characters');
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ReviewImportError,
+  parseCsvReviews,
+  parseCsvRows,
+  parseJsonReviews,
+  parseRating,
+  parseReviewImport,
+  parseTextReviews,
+  validateReviewImportRequest
+} from '../review-import';
+
+// A semicolon-separated export with quoted line breaks, mixed rating styles and rows that cannot be used
+function loadExport(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'imports', name), 'utf8');
+}
+
+describe('parseCsvRows', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    assert.deepEqual(parseCsvRows('a,b\r\n"x, y","say ""hi""\nthere"\n'), [
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere']
+    ]);
+  });
+
+  it('detects the delimiter from the header line and drops blank lines', () => {
+    assert.deepEqual(parseCsvRows('\uFEFFrating;review\n\n5;Good, solid\n'), [['rating', 'review'], ['5', 'Good, solid']]);
+    assert.deepEqual(parseCsvRows('rating\treview\n4\tFine'), [['rating', 'review'], ['4', 'Fine']]);
+    assert.deepEqual(parseCsvRows('rating|review\n3|Okay'), [['rating', 'review'], ['3', 'Okay']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    assert.throws(() => parseCsvRows('rating,review\n5,"never closed'), ReviewImportError);
+  });
+});
+
+describe('parseRating', () => {
+  it('reads numbers, fractions, star counts and symbols onto a 1-5 scale', () => {
+    assert.equal(parseRating(4), 4);
+    assert.equal(parseRating('4.5'), 4.5);
+    assert.equal(parseRating('4,5'), 4.5);
+    assert.equal(parseRating('8/10'), 4);
+    assert.equal(parseRating('3 out of 5'), 3);
+    assert.equal(parseRating('4 stars'), 4);
+    assert.equal(parseRating('★★☆☆☆'), 2);
+  });
+
+  it('clamps out-of-range values and rejects what is not a rating', () => {
+    assert.equal(parseRating(9), 5);
+    assert.equal(parseRating(0.5), 1);
+    assert.equal(parseRating(0), undefined);
+    assert.equal(parseRating('n/a'), undefined);
+    assert.equal(parseRating(''), undefined);
+    assert.equal(parseRating(null), undefined);
+  });
+});
+
+describe('parseCsvReviews', () => {
+  it('matches columns by alias and reads dates, flags, counts and languages', () => {
+    const { reviews } = parseCsvReviews(loadExport('reviews-export.csv'));
+
+    assert.equal(reviews.length, 3);
+    assert.deepEqual(reviews[0], {
+      rating: 5,
+      title: 'Great pan',
+      content: 'Heats evenly; the handle stays cool.\nCleans up in seconds.',
+      author: 'Alex P.',
+      date: '2025-03-14T00:00:00.000Z',
+      verified: true,
+      helpful_count: 12,
+      language: 'en'
+    });
+    assert.deepEqual(reviews[1], {
+      rating: 3,
+      title: 'Sticks a bit',
+      content: 'Eggs stick unless I use plenty of oil, "non-stick" is a stretch.',
+      author: 'Jordan',
+      date: '2025-03-14T00:00:00.000Z', // Unix seconds
+      verified: false,
+      helpful_count: 1204,
+      language: 'en'
+    });
+    assert.equal(reviews[2].rating, 4);
+    assert.equal(reviews[2].date, '2025-02-01T10:00:00.000Z');
+    assert.equal(reviews[2].verified, true);
+    assert.equal(reviews[2].helpful_count, undefined);
+    assert.equal(reviews[2].language, 'es');
+  });
+
+  it('reports rows it cannot use by their 1-based row number', () => {
+    const { skipped } = parseCsvReviews(loadExport('reviews-export.csv'));
+
+    assert.deepEqual(skipped, [
+      { row: 4, reason: 'missing or unreadable rating' },
+      { row: 5, reason: 'missing review text' }
+    ]);
+  });
+
+  it('fills missing ratings from default_rating', () => {
+    const { reviews, skipped } = parseCsvReviews(loadExport('reviews-export.csv'), { default_rating: 4 });
+
+    assert.equal(reviews.length, 4);
+    assert.equal(reviews[3].rating, 4);
+    assert.deepEqual(skipped, [{ row: 5, reason: 'missing review text' }]);
+  });
+
+  it('uses an explicit mapping, matching column names loosely', () => {
+    const csv = 'Score,Feedback,Shopper\n5,Perfect fit,Ana\n';
+    const { reviews } = parseCsvReviews(csv, { mapping: { rating: 'score', content: 'FEEDBACK', author: 'Shopper' } });
+
+    assert.deepEqual(reviews.map(review => [review.rating, review.content, review.author]), [[5, 'Perfect fit', 'Ana']]);
+  });
+
+  it('rejects a mapping to a missing column and an export without a text column', () => {
+    assert.throws(
+      () => parseCsvReviews('rating,review\n5,Good', { mapping: { content: 'Body' } }),
+      { message: 'Column "Body" mapped to content was not found' }
+    );
+    assert.throws(
+      () => parseCsvReviews('rating,stock\n5,12'),
+      { message: 'No review text column found; map one with mapping.content' }
+    );
+    assert.throws(() => parseCsvReviews('rating,review'), { message: 'CSV needs a header row and at least one review' });
+  });
+});
+
+describe('parseJsonReviews', () => {
+  it('reads an array, a "reviews" object or a JSON string, resolving each item on its own', () => {
+    const items = [
+      { stars: '5', body: 'Love it', reviewer: 'Kim', createdAt: 1735689600000 },
+      { rating: 2, comment: 'Zipper broke', verified_purchase: true }
+    ];
+
+    for (const payload of [items, { reviews: items }, JSON.stringify(items)]) {
+      const { reviews, skipped } = parseJsonReviews(payload);
+      assert.deepEqual(skipped, []);
+      assert.deepEqual(reviews.map(review => [review.rating, review.content, review.author, review.verified]), [
+        [5, 'Love it', 'Kim', false],
+        [2, 'Zipper broke', undefined, true]
+      ]);
+      assert.equal(reviews[0].date, '2025-01-01T00:00:00.000Z'); // Unix milliseconds
+    }
+  });
+
+  it('skips items without a text field and rejects what is not a list of reviews', () => {
+    const { skipped } = parseJsonReviews([{ rating: 5, review: 'Good' }, { rating: 4 }, 'nope']);
+    assert.deepEqual(skipped, [
+      { row: 2, reason: 'No review text column found; map one with mapping.content' },
+      { row: 3, reason: 'No review text column found; map one with mapping.content' }
+    ]);
+
+    assert.throws(() => parseJsonReviews('{oops'), { message: 'Reviews are not valid JSON' });
+    assert.throws(() => parseJsonReviews({ items: [] }), ReviewImportError);
+    assert.throws(() => parseJsonReviews([]), ReviewImportError);
+  });
+});
+
+describe('parseTextReviews', () => {
+  it('splits paragraphs and picks up a leading rating', () => {
+    const text = '5/5 - Arrived early and works great.\r\n\r\n★★☆☆☆\nStrap snapped\nafter a week.\n\nRating: 4 stars: Comfortable.\n\nNo rating here.';
+    const { reviews, skipped } = parseTextReviews(text);
+
+    assert.deepEqual(reviews.map(review => [review.rating, review.content]), [
+      [5, 'Arrived early and works great.'],
+      [2, 'Strap snapped after a week.'],
+      [4, 'Comfortable.']
+    ]);
+    assert.deepEqual(skipped, [{ row: 4, reason: 'missing or unreadable rating' }]);
+  });
+
+  it('rejects text with no reviews', () => {
+    assert.throws(() => parseTextReviews(' \n\n '), { message: 'No reviews found in the pasted text' });
+  });
+});
+
+describe('parseReviewImport', () => {
+  it('dispatches on the format and checks the data type', () => {
+    assert.equal(parseReviewImport('text', '4/5 Nice', {}).reviews[0].content, 'Nice');
+    assert.throws(() => parseReviewImport('csv', [{ review: 'x' }]), { message: 'CSV reviews must be sent as a string' });
+  });
+});
+
+describe('validateReviewImportRequest', () => {
+  it('accepts a well-formed request and explains what is wrong with others', () => {
+    assert.equal(validateReviewImportRequest({ format: 'csv', data: 'rating,review\n5,Good', default_rating: '4/5' }), null);
+    assert.equal(validateReviewImportRequest([]), 'Request body must be a JSON object');
+    assert.equal(validateReviewImportRequest({ format: 'xml', data: '<r/>' }), 'Format must be one of: csv, json, text');
+    assert.equal(validateReviewImportRequest({ format: 'text', data: '  ' }), 'No reviews were sent in data');
+    assert.equal(validateReviewImportRequest({ format: 'json', data: 5 }), 'JSON reviews must be an array, an object with "reviews", or a string');
+    assert.equal(
+      validateReviewImportRequest({ format: 'json', data: [], mapping: { content: 3 } }),
+      'Mapping must be an object of review fields to column names'
+    );
+    assert.equal(
+      validateReviewImportRequest({ format: 'json', data: [], default_rating: 'great' }),
+      'Default rating must be a rating such as 4 or "4/5"'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AssessableReview,
+  UNVERIFIED_WEIGHT,
+  assessReviewQuality,
+  getReviewWeight,
+  isIncentivized
+} from '../review-quality';
+
+const BLENDER = 'The blender crushed ice in seconds and the jar is easy to clean, but the motor gets loud on the highest '
+  + 'setting and the lid sometimes pops off when I make thick smoothies for breakfast.';
+
+function review(id: string, content: string, overrides: Partial<AssessableReview> = {}): AssessableReview {
+  return { id, content, verified: true, helpful_count: 0, ...overrides };
+}
+
+describe('assessReviewQuality', () => {
+  it('keeps the first copy of a text and flags later exact copies, ignoring case and punctuation', () => {
+    const { assessments, summary } = assessReviewQuality([
+      review('a', BLENDER),
+      review('b', `${BLENDER.toUpperCase()}!!`),
+      review('c', BLENDER.replace(/,/g, ''))
+    ]);
+
+    assert.deepEqual(assessments.get('a'), { flag: null, weight: 1 });
+    assert.deepEqual(assessments.get('b'), { flag: 'duplicate', duplicate_of: 'a', weight: 0 });
+    assert.deepEqual(assessments.get('c'), { flag: 'duplicate', duplicate_of: 'a', weight: 0 });
+    assert.equal(summary.excluded.duplicate, 2);
+    assert.equal(summary.analyzed_reviews, 1);
+  });
+
+  it('flags near duplicates with a word or two changed, but not different reviews', () => {
+    const { assessments } = assessReviewQuality([
+      review('a', BLENDER),
+      review('b', BLENDER.replace('thick smoothies', 'frozen smoothies')),
+      review('c', 'Returned it after a week because the jar cracked along the base and customer service never answered my emails.')
+    ]);
+
+    assert.deepEqual(assessments.get('b'), { flag: 'near_duplicate', duplicate_of: 'a', weight: 0 });
+    assert.equal(assessments.get('c')?.flag, null);
+  });
+
+  it('lets different people repeat short reviews', () => {
+    const { assessments, summary } = assessReviewQuality([
+      review('a', 'Great product!'),
+      review('b', 'Great product!'),
+      review('c', 'great product')
+    ]);
+
+    assert.deepEqual(Array.from(assessments.values()).map(assessment => assessment.flag), [null, null, null]);
+    assert.equal(summary.analyzed_reviews, 3);
+  });
+
+  it('treats the first review in the given order as the original, whatever its ID', () => {
+    const { assessments } = assessReviewQuality([review('9a01', BLENDER), review('0b7c', BLENDER), review('1f2e', BLENDER)]);
+
+    assert.equal(assessments.get('9a01')?.flag, null);
+    assert.equal(assessments.get('0b7c')?.duplicate_of, '9a01');
+    assert.equal(assessments.get('1f2e')?.duplicate_of, '9a01');
+  });
+
+  it('excludes incentivized reviews, including disclosures in the title', () => {
+    const { assessments, summary } = assessReviewQuality([
+      review('a', 'I received this blender at a discount in exchange for my honest review. It works well.'),
+      review('b', 'Works well and looks nice on the counter.', { title: '#gifted' }),
+      review('c', 'Bought it with my own money and it works well.')
+    ]);
+
+    assert.equal(assessments.get('a')?.flag, 'incentivized');
+    assert.equal(assessments.get('b')?.flag, 'incentivized');
+    assert.equal(assessments.get('c')?.flag, null);
+    assert.equal(summary.excluded.incentivized, 2);
+  });
+
+  it('weights analyzed reviews and counts the unverified ones', () => {
+    const { assessments, summary } = assessReviewQuality([
+      review('a', 'Solid and quiet.', { verified: true, helpful_count: 9 }),
+      review('b', 'Solid but loud.', { verified: false, helpful_count: 0 })
+    ]);
+
+    assert.equal(assessments.get('a')?.weight, 2);
+    assert.equal(assessments.get('b')?.weight, UNVERIFIED_WEIGHT);
+    assert.equal(summary.unverified_reviews, 1);
+  });
+});
+
+describe('getReviewWeight', () => {
+  it('halves unverified reviews and grows logarithmically with helpful votes', () => {
+    assert.equal(getReviewWeight({ verified: true, helpful_count: 0 }), 1);
+    assert.equal(getReviewWeight({ verified: true, helpful_count: 99 }), 3);
+    assert.equal(getReviewWeight({ verified: false, helpful_count: 9 }), 1);
+    assert.equal(getReviewWeight({ verified: true, helpful_count: -5 }), 1);
+  });
+});
+
+describe('isIncentivized', () => {
+  it('recognises common disclosures', () => {
+    assert.ok(isIncentivized('I was sent this product free of charge.'));
+    assert.ok(isIncentivized('Vine Customer Review of Free Product'));
+    assert.ok(isIncentivized('This was provided by the manufacturer'));
+    assert.ok(!isIncentivized('Free shipping was a nice touch.'));
+  });
+});
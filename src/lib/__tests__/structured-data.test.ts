@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeEntities, extractStructuredData, toNumber } from '../structured-data';
+
+// Product pages saved from stores on each platform, trimmed to the markup the extractor reads
+function loadPage(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'stores', name), 'utf8');
+}
+
+describe('extractStructuredData', () => {
+  it('reads a Shopify product page from its JSON-LD', () => {
+    const { product, reviews, sources } = extractStructuredData(
+      loadPage('shopify-product.html'),
+      'https://hearthandco.com/products/linen-apron'
+    );
+
+    assert.deepEqual(sources, ['json-ld', 'opengraph']);
+    assert.equal(product.name, 'Stonewashed Linen Apron');
+    assert.equal(product.brand, 'Hearth & Co');
+    assert.equal(product.price, '$38.00');
+    assert.equal(product.rating, 4.8);
+    assert.equal(product.review_count, 127);
+    assert.equal(product.images[0], 'https://hearthandco.com/cdn/shop/products/apron-front.jpg?v=1712345678');
+    assert.ok(product.images.includes('https://hearthandco.com/cdn/shop/products/apron-pocket.jpg?v=1712345678'));
+
+    assert.equal(reviews.length, 2);
+    assert.deepEqual(reviews[0], {
+      rating: 5,
+      title: 'Softens with every wash',
+      content: "Stiff out of the package but after two washes it's the softest apron I own. The pockets fit my phone and a thermometer.",
+      author: 'Megan R.',
+      date: '2025-02-11',
+      verified: false
+    });
+    assert.equal(reviews[1].content, 'Good quality linen, but it hits below my knees and I’m 5\'9".');
+  });
+
+  it('reads a WooCommerce product from the @graph with an array priceSpecification', () => {
+    const { product, reviews, sources } = extractStructuredData(
+      loadPage('woocommerce-product.html'),
+      'https://kilnstreet.co.uk/product/speckled-stoneware-mug/'
+    );
+
+    assert.deepEqual(sources, ['json-ld', 'opengraph']);
+    assert.equal(product.name, 'Speckled Stoneware Mug');
+    assert.equal(product.description, 'Wheel-thrown 350ml mug in a speckled oatmeal glaze. Dishwasher and microwave safe.');
+    assert.equal(product.price, '£24.00');
+    assert.equal(product.rating, 4.3);
+    assert.equal(product.review_count, 3);
+    assert.deepEqual(product.images, ['https://kilnstreet.co.uk/wp-content/uploads/2025/01/speckled-mug.jpg']);
+
+    assert.deepEqual(reviews.map(review => [review.rating, review.author, review.date]), [
+      [5, 'Priya', '2025-03-02'],
+      [3, 'Gareth', '2025-02-18'],
+      [5, 'Hannah', '2025-01-30']
+    ]);
+    assert.equal(reviews[2].content, 'Bought four as a gift – they arrived beautifully wrapped.');
+  });
+
+  it('reads microdata with German number formats', () => {
+    const { product, reviews, sources } = extractStructuredData(
+      loadPage('microdata-product.html'),
+      'https://www.werkhaus-shop.de/akku-bohrschrauber-bs-18-kompakt'
+    );
+
+    assert.deepEqual(sources, ['microdata']);
+    assert.equal(product.name, 'Akku-Bohrschrauber BS 18 Kompakt');
+    assert.equal(product.brand, 'Werkhaus');
+    assert.equal(product.price, '€1299.00');
+    assert.equal(product.rating, 4.6);
+    assert.equal(product.review_count, 1234);
+    assert.deepEqual(product.images, [
+      'https://www.werkhaus-shop.de/media/catalog/bs18-kompakt.jpg',
+      'https://www.werkhaus-shop.de/media/catalog/bs18-kompakt-koffer.jpg'
+    ]);
+
+    assert.equal(reviews.length, 2);
+    assert.deepEqual(reviews[1], {
+      rating: 2,
+      title: 'Bohrfutter rutscht',
+      content: 'Das Bohrfutter lässt Bits bei hohem Drehmoment durchrutschen.',
+      author: 'Sabine',
+      date: '2025-03-21',
+      verified: false
+    });
+  });
+
+  it('reads a JSON-LD ProductGroup with variant offers, a 10-point scale and standalone reviews', () => {
+    const { product, reviews, sources } = extractStructuredData(
+      loadPage('jsonld-product-group.html'),
+      'https://northpeak.example/products/trail-runner-2'
+    );
+
+    assert.deepEqual(sources, ['json-ld', 'opengraph']);
+    assert.equal(product.name, 'Trail Runner 2');
+    assert.equal(product.description, 'Lightweight trail shoe with a rock plate and a 6mm drop.');
+    assert.equal(product.price, 'CA$129.95');
+    assert.equal(product.rating, 4.3);
+    assert.equal(product.review_count, 2140);
+    assert.deepEqual(product.images, [
+      'https://northpeak.example/assets/trail-runner-2/black.jpg',
+      'https://northpeak.example/assets/trail-runner-2/og.jpg'
+    ]);
+
+    assert.deepEqual(reviews, [{
+      rating: 4.5,
+      title: undefined,
+      content: 'Grippy on wet rock and no blisters after 30km.',
+      author: 'Dana',
+      date: '2025-05-09',
+      verified: false
+    }]);
+  });
+
+  it('falls back to the page title when there is no structured data', () => {
+    const html = '<html><head><title>Handmade Candle &#99999999; Wick &amp; Co</title></head><body></body></html>';
+    const { product, reviews, sources } = extractStructuredData(html, 'https://wick.example/candle');
+
+    assert.deepEqual(sources, ['html']);
+    assert.equal(product.name, 'Handmade Candle &#99999999; Wick & Co');
+    assert.deepEqual(reviews, []);
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric entities', () => {
+    assert.equal(decodeEntities('Tom &amp; Jerry &#8211; &#x1F600; &rsquo;'), 'Tom & Jerry – 😀 ’');
+  });
+
+  it('leaves numeric entities outside the Unicode range as written', () => {
+    assert.equal(decodeEntities('a &#99999999; b &#x110000;'), 'a &#99999999; b &#x110000;');
+  });
+});
+
+describe('toNumber', () => {
+  it('treats the last separator as the decimal point when both appear', () => {
+    assert.equal(toNumber('1.234,56'), 1234.56);
+    assert.equal(toNumber('1,234.56'), 1234.56);
+    assert.equal(toNumber('1.234.567,8 €'), 1234567.8);
+  });
+
+  it('reads a lone comma followed by one or two digits as a decimal comma', () => {
+    assert.equal(toNumber('4,5'), 4.5);
+    assert.equal(toNumber('19,99 €'), 19.99);
+    assert.equal(toNumber('1,234'), 1234);
+    assert.equal(toNumber('$1,299'), 1299);
+  });
+
+  it('passes numbers through and rejects what is not a number', () => {
+    assert.equal(toNumber(12.5), 12.5);
+    assert.equal(toNumber(Number.NaN), undefined);
+    assert.equal(toNumber('n/a'), undefined);
+    assert.equal(toNumber(null), undefined);
+  });
+});
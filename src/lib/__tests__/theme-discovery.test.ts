@@ -0,0 +1,116 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscoverySentence, HashingEmbedder, ThemeDiscovery, clusterVectors, splitSentences } from '../theme-discovery';
+import { aiService } from '../ai-service';
+
+// Three complaints the taxonomy has no theme for, each raised in several reviews
+const TOPICS = [
+  'the powder clumps in cold water',
+  'the scoop is lost inside the tub',
+  'the zip seal on the bag tears'
+];
+const SENTENCES: DiscoverySentence[] = Array.from({ length: 24 }, (_, index) => ({
+  review_id: `review-${index}`,
+  text: `Sadly ${TOPICS[index % TOPICS.length]} every time ${['again', 'lately', 'now', 'too'][index % 4]}.`
+}));
+
+function topicOf(text: string): number {
+  return TOPICS.findIndex(topic => text.includes(topic));
+}
+
+describe('splitSentences', () => {
+  it('splits on sentence ends and line breaks, dropping sentences too short or long to be about one thing', () => {
+    const long = Array(41).fill('word').join(' ');
+    assert.deepEqual(splitSentences(`Great stuff! The powder clumps in cold water. Love it.\nThe scoop is always buried. ${long}`), [
+      'The powder clumps in cold water.',
+      'The scoop is always buried.'
+    ]);
+  });
+});
+
+describe('HashingEmbedder', () => {
+  it('gives unit vectors that ignore case, punctuation and stopwords', async () => {
+    const [a, b, c] = await new HashingEmbedder().embed([
+      'The powder clumps in cold water.',
+      'POWDER clumps, cold water!',
+      'The zip seal tears'
+    ]);
+    const dot = (x: number[], y: number[]) => x.reduce((sum, value, index) => sum + value * y[index], 0);
+
+    assert.equal(Math.round(dot(a, a) * 1e9) / 1e9, 1);
+    assert.deepEqual(a, b);
+    assert.equal(dot(a, c), 0);
+  });
+});
+
+describe('clusterVectors', () => {
+  it('groups alike vectors, and clusters the same vectors the same way every time', async () => {
+    const vectors = await new HashingEmbedder().embed(SENTENCES.map(sentence => sentence.text));
+    const { assignments, centroids } = clusterVectors(vectors, 3);
+
+    assert.equal(centroids.length, 3);
+    SENTENCES.forEach((sentence, index) => {
+      const first = SENTENCES.findIndex(other => topicOf(other.text) === topicOf(sentence.text));
+      assert.equal(assignments[index], assignments[first], sentence.text);
+    });
+    assert.equal(new Set(assignments).size, 3);
+    assert.deepEqual(clusterVectors(vectors, 3), { assignments, centroids });
+  });
+
+  it('stops seeding when every vector is already a center', () => {
+    const { assignments, centroids } = clusterVectors([[1, 0], [1, 0], [1, 0]], 3);
+
+    assert.equal(centroids.length, 1);
+    assert.deepEqual(assignments, [0, 0, 0]);
+  });
+});
+
+describe('ThemeDiscovery', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const knownThemes = [{ id: 'packaging', label: 'Packaging' }];
+
+  it('names each cluster, leaving clusters that match a known theme to it', async () => {
+    const nameThemeClusters = mock.method(aiService, 'nameThemeClusters', async (clusters: string[][]) =>
+      clusters.map(samples => [
+        { label: 'Clumps in cold water', existing_theme: null },
+        { label: 'Scoop buried in tub', existing_theme: null },
+        { label: 'Packaging', existing_theme: 'packaging' }
+      ][topicOf(samples[0])]));
+
+    const themes = await new ThemeDiscovery(new HashingEmbedder()).discover(SENTENCES, knownThemes);
+
+    assert.equal(nameThemeClusters.mock.calls.length, 1);
+    assert.ok(nameThemeClusters.mock.calls[0].arguments[0].every(samples => samples.length === 8));
+    assert.deepEqual(
+      themes.map(theme => [theme.id, theme.label, theme.sentences.length]).sort(),
+      [['clumps_in_cold_water', 'Clumps in cold water', 8], ['scoop_buried_in_tub', 'Scoop buried in tub', 8]]
+    );
+    for (const theme of themes) {
+      assert.equal(new Set(theme.sentences.map(sentence => topicOf(sentence.text))).size, 1);
+    }
+  });
+
+  it('merges clusters given the same name and skips names already in the taxonomy', async () => {
+    mock.method(aiService, 'nameThemeClusters', async (clusters: string[][]) =>
+      clusters.map(samples => ({ label: topicOf(samples[0]) === 2 ? 'packaging' : 'Mixing problems', existing_theme: null })));
+
+    const themes = await new ThemeDiscovery(new HashingEmbedder()).discover(SENTENCES, knownThemes);
+
+    assert.deepEqual(themes.map(theme => [theme.id, theme.sentences.length]), [['mixing_problems', 16]]);
+  });
+
+  it('does not cluster too few sentences or name clusters too few reviews share', async () => {
+    const nameThemeClusters = mock.method(aiService, 'nameThemeClusters', async () => []);
+    const discovery = new ThemeDiscovery(new HashingEmbedder());
+
+    assert.deepEqual(await discovery.discover(SENTENCES.slice(0, 19), knownThemes), []);
+    assert.deepEqual(
+      await discovery.discover(SENTENCES.map(sentence => ({ ...sentence, review_id: 'one-review' })), knownThemes),
+      []
+    );
+    assert.equal(nameThemeClusters.mock.calls.length, 0);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FALLBACK_THEME,
+  ThemeMatcher,
+  detectCategory,
+  getTaxonomyVersion,
+  normalizeText,
+  validateTaxonomyPacks
+} from '../theme-taxonomy';
+import { DEFAULT_TAXONOMY } from '../theme-packs';
+import { ThemeTaxonomy } from '@/types/product';
+
+const CUSTOM_TAXONOMY: ThemeTaxonomy = {
+  version: 'custom@3',
+  packs: [
+    {
+      category: 'general',
+      themes: [
+        { id: 'smell_aroma', label: 'Smell', phrases: ['smell*'] },
+        { id: 'leaks', label: 'Leaks', phrases: [], affirmed_phrases: ['leak*'] }
+      ]
+    },
+    {
+      category: 'beauty',
+      keywords: ['serum'],
+      themes: [{ id: 'smell_aroma', label: 'Scent', phrases: ['scent', 'smell*'] }]
+    }
+  ]
+};
+
+describe('normalizeText', () => {
+  it('lower-cases, straightens apostrophes and turns hyphens into spaces', () => {
+    assert.equal(normalizeText('Well-Made, Doesn’t Leak'), "well made, doesn't leak");
+  });
+});
+
+describe('ThemeMatcher', () => {
+  it('matches whole words, wildcard endings and the general pack alongside the category pack', () => {
+    const matcher = new ThemeMatcher(DEFAULT_TAXONOMY, 'electronics');
+
+    assert.deepEqual(matcher.match('The battery drains overnight and the price is too high.'), ['battery_life', 'price_value']);
+    assert.deepEqual(matcher.match('Recharging takes forever.'), ['battery_life']);
+    assert.deepEqual(matcher.match('Well-made and sturdy'), ['build_quality']);
+    assert.deepEqual(matcher.match('Shipment took a long time to ship.'), ['shipping_delivery']);
+  });
+
+  it('falls back to the general experience theme when nothing matches', () => {
+    const matcher = new ThemeMatcher(DEFAULT_TAXONOMY, 'electronics');
+
+    assert.deepEqual(matcher.match('My relationship with this brand is over.'), [FALLBACK_THEME]);
+    assert.deepEqual(matcher.mentions('  Meh.  '), [{ theme: FALLBACK_THEME, sentence: 'meh.' }]);
+  });
+
+  it('ignores excluded phrases and negated affirmed phrases', () => {
+    const matcher = new ThemeMatcher(DEFAULT_TAXONOMY, 'beauty');
+
+    assert.deepEqual(matcher.match('It broke me out in a rash.'), ['skin_reaction']);
+    assert.deepEqual(matcher.match('Does not sting at all, no redness.'), [FALLBACK_THEME]);
+    assert.deepEqual(matcher.match('Looks like water but absorbs fast.'), ['texture_feel']);
+  });
+
+  it('only negates within the same clause', () => {
+    const matcher = new ThemeMatcher(CUSTOM_TAXONOMY, null);
+
+    assert.deepEqual(matcher.match("It doesn't leak."), [FALLBACK_THEME]);
+    assert.deepEqual(matcher.match('No complaints at first, but it leaks now.'), ['leaks']);
+  });
+
+  it('reports each mention with its sentence and position', () => {
+    const matcher = new ThemeMatcher(DEFAULT_TAXONOMY, 'electronics');
+    const [mention] = matcher.mentions('Great sound. The battery dies quickly!');
+
+    assert.deepEqual(mention, { theme: 'battery_life', sentence: 'the battery dies quickly!', start: 4, end: 11 });
+    assert.equal(mention.sentence.slice(mention.start, mention.end), 'battery');
+  });
+
+  it('lets a category theme replace a general theme with the same ID', () => {
+    assert.deepEqual(new ThemeMatcher(CUSTOM_TAXONOMY, 'beauty').listThemes(), [
+      { id: 'smell_aroma', label: 'Scent' },
+      { id: 'leaks', label: 'Leaks' }
+    ]);
+    assert.deepEqual(new ThemeMatcher(CUSTOM_TAXONOMY, null).listThemes(), [
+      { id: 'smell_aroma', label: 'Smell' },
+      { id: 'leaks', label: 'Leaks' }
+    ]);
+  });
+});
+
+describe('getTaxonomyVersion', () => {
+  it('labels the version with the pack applied', () => {
+    assert.equal(getTaxonomyVersion(DEFAULT_TAXONOMY, 'beauty'), 'default@2/beauty');
+    assert.equal(getTaxonomyVersion(CUSTOM_TAXONOMY, null), 'custom@3/general');
+  });
+});
+
+describe('detectCategory', () => {
+  it('weighs the product name above its description', () => {
+    assert.equal(detectCategory(DEFAULT_TAXONOMY, { name: 'Wireless Earbuds', description: 'Comes with a cotton pouch' }), 'electronics');
+    assert.equal(detectCategory(DEFAULT_TAXONOMY, { name: 'Vitamin C Serum', description: null }), 'beauty');
+  });
+
+  it('falls back to the pack most reviews mention, needing at least three', () => {
+    const product = { name: 'The Original', description: '' };
+    const reviews = ['Runs small, order a size up', 'The fabric is soft', 'Great fit', 'Fits true to size'];
+
+    assert.equal(detectCategory(DEFAULT_TAXONOMY, product, reviews), 'apparel');
+    assert.equal(detectCategory(DEFAULT_TAXONOMY, product, reviews.slice(0, 2)), null);
+    assert.equal(detectCategory(DEFAULT_TAXONOMY, product), null);
+  });
+});
+
+describe('validateTaxonomyPacks', () => {
+  it('accepts the built-in taxonomy', () => {
+    assert.equal(validateTaxonomyPacks(DEFAULT_TAXONOMY.packs), null);
+  });
+
+  it('explains what is wrong with an edited taxonomy', () => {
+    assert.equal(validateTaxonomyPacks([]), 'Taxonomy must have at least one theme pack');
+    assert.equal(
+      validateTaxonomyPacks([{ category: 'toys', themes: [] }]),
+      'Pack category must be general or one of: beauty, supplements, electronics, apparel, home'
+    );
+    assert.equal(
+      validateTaxonomyPacks([{ category: 'general', themes: [] }, { category: 'general', themes: [] }]),
+      'There is more than one general pack'
+    );
+    assert.equal(
+      validateTaxonomyPacks([{ category: 'general', themes: [{ id: 'Bad Id', label: 'x', phrases: ['x'] }] }]),
+      'Theme 1 of the general pack needs an id of lower-case letters, digits and underscores'
+    );
+    assert.equal(
+      validateTaxonomyPacks([{ category: 'general', themes: [{ id: 'empty', label: 'Empty', phrases: [] }] }]),
+      'Theme empty needs at least one phrase'
+    );
+    assert.equal(
+      validateTaxonomyPacks([{ category: 'general', themes: [{ id: FALLBACK_THEME, label: 'Other', phrases: ['other'] }] }]),
+      `Theme ID ${FALLBACK_THEME} is used twice in the general pack`
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LlmTranslator, StubTranslator } from '../translation';
+import { aiService } from '../ai-service';
+
+describe('StubTranslator', () => {
+  it('passes text through as written, whatever the source language', async () => {
+    const texts = ['Muy bueno', 'Llegó rápido'];
+    const translated = await new StubTranslator().translate(texts);
+
+    assert.deepEqual(translated, texts);
+    assert.notEqual(translated, texts);
+  });
+});
+
+describe('LlmTranslator', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('translates in batches of 20, sending each batch with its source language', async () => {
+    const calls: Array<{ size: number; language: string }> = [];
+    mock.method(aiService, 'translateTexts', async (texts: string[], language: string) => {
+      calls.push({ size: texts.length, language });
+      return texts.map(text => `en:${text}`);
+    });
+
+    const texts = Array.from({ length: 45 }, (_, index) => `reseña ${index + 1}`);
+    const translated = await new LlmTranslator().translate(texts, 'es');
+
+    assert.deepEqual(calls, [{ size: 20, language: 'es' }, { size: 20, language: 'es' }, { size: 5, language: 'es' }]);
+    assert.deepEqual(translated, texts.map(text => `en:${text}`));
+  });
+
+  it('keeps a batch as written when the model fails, and still translates the others', async () => {
+    let call = 0;
+    mock.method(aiService, 'translateTexts', async (texts: string[]) => {
+      call += 1;
+      if (call === 1) throw new Error('rate limited');
+      return texts.map(text => `en:${text}`);
+    });
+
+    const texts = Array.from({ length: 25 }, (_, index) => `avis ${index + 1}`);
+    const translated = await new LlmTranslator().translate(texts, 'fr');
+
+    assert.deepEqual(translated, [...texts.slice(0, 20), ...texts.slice(20).map(text => `en:${text}`)]);
+  });
+
+  it('stops instead of falling back once the run is aborted', async () => {
+    const controller = new AbortController();
+    mock.method(aiService, 'translateTexts', async () => {
+      controller.abort(new Error('Ingestion cancelled by user'));
+      throw new Error('aborted');
+    });
+
+    await assert.rejects(
+      new LlmTranslator().translate(['Sehr gut'], 'de', controller.signal),
+      { message: 'Ingestion cancelled by user' }
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpRedirectResolver, RedirectResolver, UrlCanonicalizer, stripTrackingParams } from '../url-canonicalizer';
+import { scraperRegistry } from '../scraper-registry';
+import { HttpClient, HttpError, HttpRequestOptions, HttpResponse } from '../http-client';
+
+// Resolves short links from a fixed table instead of the network
+class RecordedRedirectResolver implements RedirectResolver {
+  constructor(private redirects: Record<string, string>) {}
+
+  async resolve(url: string): Promise<string> {
+    return this.redirects[url] || url;
+  }
+}
+
+// Answers each URL with a recorded status and Location header; error statuses are thrown like the fetch client does
+class RecordedHttpClient implements HttpClient {
+  requests: Array<{ url: string; redirect?: string }> = [];
+
+  constructor(private responses: Record<string, { status: number; location?: string }>) {}
+
+  async get(url: string, options?: HttpRequestOptions): Promise<HttpResponse> {
+    this.requests.push({ url, redirect: options?.redirect });
+    const { status, location } = this.responses[url] || { status: 404 };
+    if (status >= 400) {
+      throw new HttpError(status, url);
+    }
+    return { status, url, headers: new Headers(location ? { location } : {}), body: '' };
+  }
+}
+
+describe('stripTrackingParams', () => {
+  it('strips utm_* and click IDs, drops the fragment and sorts what is left', () => {
+    assert.equal(
+      stripTrackingParams('https://Shop.Example.com/p/42?utm_source=ig&size=m&gclid=abc&color=red&fbclid=xyz#reviews'),
+      'https://shop.example.com/p/42?color=red&size=m'
+    );
+  });
+
+  it('only strips platform parameters it is given, with "*" matching a prefix', () => {
+    const url = 'https://www.amazon.com/dp/B083GBMWVL?tag=aff-20&th=1&pd_rd_w=Xy1&keep=1';
+    assert.equal(stripTrackingParams(url), 'https://www.amazon.com/dp/B083GBMWVL?keep=1&pd_rd_w=Xy1&tag=aff-20&th=1');
+    assert.equal(stripTrackingParams(url, ['tag', 'th', 'pd_rd_*']), 'https://www.amazon.com/dp/B083GBMWVL?keep=1');
+  });
+});
+
+describe('UrlCanonicalizer', () => {
+  const canonicalizer = new UrlCanonicalizer(
+    new RecordedRedirectResolver({
+      'https://amzn.to/3Bx9QeD': 'https://www.amazon.de/Bosch-Professional/dp/B07XJ8C8F5/ref=sr_1_1?tag=aff-21&th=1&utm_medium=social'
+    }),
+    scraperRegistry
+  );
+
+  it('follows Amazon short links to the canonical /dp/ URL', async () => {
+    const canonical = await canonicalizer.canonicalize('https://amzn.to/3Bx9QeD');
+
+    assert.deepEqual(canonical, {
+      original_url: 'https://amzn.to/3Bx9QeD',
+      canonical_url: 'https://www.amazon.de/dp/B07XJ8C8F5',
+      platform: 'amazon',
+      product_key: 'amazon:amazon.de:B07XJ8C8F5',
+      resolved: true
+    });
+  });
+
+  it('keeps Amazon-style parameters that identify a product on other stores', async () => {
+    const first = await canonicalizer.canonicalize('https://shop.example.com/products/tee?ref=blue-xl&tag=organic&utm_source=ig');
+    const second = await canonicalizer.canonicalize('https://shop.example.com/products/tee?ref=red-s&tag=organic');
+
+    assert.equal(first.canonical_url, 'https://shop.example.com/products/tee?ref=blue-xl&tag=organic');
+    assert.equal(first.platform, 'external');
+    assert.notEqual(first.product_key, second.product_key);
+  });
+});
+
+describe('HttpRedirectResolver', () => {
+  it('follows each Location header hop by hop', async () => {
+    const httpClient = new RecordedHttpClient({
+      'https://vm.tiktok.com/ZMabc123/': { status: 301, location: 'https://www.tiktok.com/t/ZMabc123/' },
+      'https://www.tiktok.com/t/ZMabc123/': { status: 302, location: '/view/product/1729384756?region=US' },
+      'https://www.tiktok.com/view/product/1729384756?region=US': { status: 200 }
+    });
+
+    const resolved = await new HttpRedirectResolver(httpClient).resolve('https://vm.tiktok.com/ZMabc123/');
+
+    assert.equal(resolved, 'https://www.tiktok.com/view/product/1729384756?region=US');
+    assert.deepEqual(httpClient.requests.map(request => request.redirect), ['manual', 'manual', 'manual']);
+  });
+
+  it('resolves a short link whose product page answers with an error or a bot check', async () => {
+    const httpClient = new RecordedHttpClient({
+      'https://amzn.to/3Bx9QeD': { status: 301, location: 'https://www.amazon.com/dp/B083GBMWVL?tag=aff-20' },
+      'https://www.amazon.com/dp/B083GBMWVL?tag=aff-20': { status: 503 }
+    });
+
+    const resolved = await new HttpRedirectResolver(httpClient).resolve('https://amzn.to/3Bx9QeD');
+
+    assert.equal(resolved, 'https://www.amazon.com/dp/B083GBMWVL?tag=aff-20');
+  });
+
+  it('fails when the short link itself cannot be fetched', async () => {
+    const resolver = new HttpRedirectResolver(new RecordedHttpClient({ 'https://a.aliexpress.com/_mK1': { status: 503 } }));
+
+    await assert.rejects(resolver.resolve('https://a.aliexpress.com/_mK1'), HttpError);
+  });
+});
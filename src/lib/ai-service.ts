@@ -1,8 +1,11 @@
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
-import { ViralityPack, PainPoint, DelightFactor } from '@/types/product';
+import { ViralityPack, PainPoint, DelightFactor, RedactionReport } from '@/types/product';
 import { getAIConfig, validateAIConfig } from './ai-config';
+import type { AspectMention } from './theme-taxonomy';
+import type { QuoteSource } from './quote-paraphraser';
+import { Redactor } from './redaction';
 
 // Types for AI generation
 export interface ViralityAnalysisInput {
@@ -12,6 +15,7 @@ export interface ViralityAnalysisInput {
   delight_factors: DelightFactor[];
   platform: string;
   target_audience?: string;
+  competitor_brands?: string[]; // Redacted from the prompt along with personal details
 }
 
 export interface ViralityPackGeneration {
@@ -31,6 +35,7 @@ export interface ViralityAnalysisOutput {
   key_insights: string[];
   virality_packs: ViralityPackGeneration[];
   recommendations: string[];
+  redactions?: RedactionReport; // What was removed from the prompt
 }
 
 export class AIService {
@@ -83,26 +88,30 @@ export class AIService {
   }
 
   // Generate virality packs based on product insights
-  async generateViralityPacks(input: ViralityAnalysisInput): Promise<ViralityAnalysisOutput> {
+  async generateViralityPacks(input: ViralityAnalysisInput, signal?: AbortSignal): Promise<ViralityAnalysisOutput> {
     try {
       const model = this.getModel();
 
-      // Prepare the prompt for AI analysis
-      const prompt = this.buildViralityAnalysisPrompt(input);
+      // Remove personal details and competitor brands, then prepare the prompt for AI analysis
+      const redactor = new Redactor(input.competitor_brands);
+      const safeInput = this.redactInput(input, redactor);
+      const prompt = this.buildViralityAnalysisPrompt(safeInput);
 
       const result = await generateText({
         model,
         prompt,
         temperature: 0.7,
         maxTokens: 4000,
+        abortSignal: signal,
       });
 
       // Parse the AI response
       const analysis = this.parseViralityAnalysis(result.text);
 
       // Generate additional virality packs with different angles
-      const additionalPacks = await this.generateAdditionalPacks(input, analysis.virality_packs);
+      const additionalPacks = await this.generateAdditionalPacks(safeInput, analysis.virality_packs, signal);
       analysis.virality_packs.push(...additionalPacks);
+      analysis.redactions = redactor.getReport();
 
       return analysis;
 
@@ -112,21 +121,37 @@ export class AIService {
     }
   }
 
+  // Copy of the input with review-derived text redacted; the product's own name is kept
+  private redactInput(input: ViralityAnalysisInput, redactor: Redactor): ViralityAnalysisInput {
+    const redactTheme = <T extends PainPoint | DelightFactor>(theme: T): T => ({
+      ...theme,
+      label: theme.label ? redactor.redact(theme.label) : theme.label,
+      example_quotes: theme.example_quotes.map(quote => redactor.redact(quote))
+    });
+
+    return {
+      ...input,
+      product_description: redactor.redact(input.product_description),
+      pain_points: input.pain_points.map(redactTheme),
+      delight_factors: input.delight_factors.map(redactTheme)
+    };
+  }
+
   // Build the comprehensive prompt for virality analysis
   private buildViralityAnalysisPrompt(input: ViralityAnalysisInput): string {
     const { product_name, product_description, pain_points, delight_factors, platform } = input;
 
     // Format pain points and delight factors for the prompt
     const formattedPainPoints = pain_points
-      .sort((a, b) => b.mentions - a.mentions)
+      .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions))
       .slice(0, 5)
-      .map(pp => `- ${pp.theme} (sentiment: ${pp.sentiment.toFixed(2)}, ${pp.mentions} mentions): ${pp.example_quotes.slice(0, 2).join('; ')}`)
+      .map(pp => `- ${pp.label || pp.theme} (sentiment: ${pp.sentiment.toFixed(2)}, ${pp.mentions} mentions): ${pp.example_quotes.slice(0, 2).join('; ')}`)
       .join('\n');
 
     const formattedDelightFactors = delight_factors
-      .sort((a, b) => b.mentions - a.mentions)
+      .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions))
       .slice(0, 5)
-      .map(df => `- ${df.theme} (sentiment: ${df.sentiment.toFixed(2)}, ${df.mentions} mentions): ${df.example_quotes.slice(0, 2).join('; ')}`)
+      .map(df => `- ${df.label || df.theme} (sentiment: ${df.sentiment.toFixed(2)}, ${df.mentions} mentions): ${df.example_quotes.slice(0, 2).join('; ')}`)
       .join('\n');
 
     return `You are an expert TikTok content strategist and viral marketing specialist. Your task is to analyze product data and create data-driven virality strategies.
@@ -237,9 +262,11 @@ Please provide your analysis in valid JSON format:`;
   // Generate additional virality packs with different angles
   private async generateAdditionalPacks(
     input: ViralityAnalysisInput,
-    existingPacks: ViralityPackGeneration[]
+    existingPacks: ViralityPackGeneration[],
+    signal?: AbortSignal
   ): Promise<ViralityPackGeneration[]> {
     if (existingPacks.length >= 5) return []; // We already have enough packs
+    if (signal?.aborted) return [];
 
     try {
       const model = this.getModel();
@@ -266,6 +293,7 @@ Provide only the virality_packs array in JSON format:`;
         prompt: additionalPrompt,
         temperature: 0.8,
         maxTokens: 2000,
+        abortSignal: signal,
       });
 
       try {
@@ -286,6 +314,171 @@ Provide only the virality_packs array in JSON format:`;
     }
   }
 
+  // Score how each sentence feels about the theme it mentions, from -1.0 to 1.0
+  async scoreAspectSentiment(mentions: AspectMention[], signal?: AbortSignal): Promise<number[]> {
+    const model = this.getModel();
+    const redactor = new Redactor(); // Personal details; callers redact competitor brands
+    const list = mentions
+      .map((mention, index) => `${index + 1}. [${mention.theme.replace(/_/g, ' ')}] ${redactor.redact(mention.sentence)}`)
+      .join('\n');
+
+    const prompt = `You are scoring product reviews. Each line below names a product aspect in brackets and quotes the sentence from a review that mentions it.
+
+For each line, rate how the reviewer feels about that aspect only, ignoring opinions about other aspects in the same sentence. Use a number from -1.0 (very negative) to 1.0 (very positive), and 0 when the sentence expresses no opinion of the aspect. Account for negation ("not bad"), intensifiers ("really great") and sarcasm.
+
+${list}
+
+Respond with only a JSON array of ${mentions.length} numbers in the same order as the lines.`;
+
+    const result = await generateText({
+      model,
+      prompt,
+      temperature: 0,
+      maxTokens: 1000,
+      abortSignal: signal,
+    });
+
+    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in AI sentiment response');
+    }
+
+    const scores = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(scores) || scores.length !== mentions.length) {
+      throw new Error(`Expected ${mentions.length} sentiment scores from AI`);
+    }
+
+    return scores.map(score => this.ensureNumber(score, 0));
+  }
+
+  // Name clusters of similar review sentences, matching clusters to known themes where they overlap
+  async nameThemeClusters(
+    clusters: string[][],
+    knownThemes: Array<{ id: string; label: string }>,
+    signal?: AbortSignal
+  ): Promise<Array<{ label: string | null; existing_theme: string | null }>> {
+    const model = this.getModel();
+    const redactor = new Redactor(); // Personal details; callers redact competitor brands
+    const themeList = knownThemes.map(theme => `- ${theme.id}: ${theme.label}`).join('\n');
+    const clusterList = clusters
+      .map((sentences, index) => `Cluster ${index + 1}:\n${sentences.map(sentence => `  - ${redactor.redact(sentence)}`).join('\n')}`)
+      .join('\n\n');
+
+    const prompt = `You are analyzing product reviews. Sentences from different reviews have been grouped into clusters by similarity.
+
+Known themes:
+${themeList}
+
+${clusterList}
+
+For each cluster, give a short, specific label (2 to 6 words, lower case) for the product aspect its sentences share, such as "clumps in cold water" or "left earbud disconnects". If the cluster is about one of the known themes, set existing_theme to that theme's id. If the sentences share no product aspect, set label to null.
+
+Respond with only a JSON array with one object per cluster, in order: [{"cluster": 1, "label": "...", "existing_theme": null}]`;
+
+    const result = await generateText({
+      model,
+      prompt,
+      temperature: 0.2,
+      maxTokens: 1500,
+      abortSignal: signal,
+    });
+
+    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in AI cluster naming response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error('AI cluster naming response is not a list');
+    }
+
+    const entries = parsed as Array<{ cluster?: unknown; label?: unknown; existing_theme?: unknown } | null>;
+    const knownIds = new Set(knownThemes.map(theme => theme.id));
+    return clusters.map((_, index) => {
+      const entry = entries.find(item => Number(item?.cluster) === index + 1) ?? entries[index];
+      const label = typeof entry?.label === 'string' ? entry.label.trim().slice(0, 80) : '';
+      const existing = typeof entry?.existing_theme === 'string' ? entry.existing_theme : '';
+      return {
+        label: label || null,
+        existing_theme: knownIds.has(existing) ? existing : null
+      };
+    });
+  }
+
+  // Rewrite review excerpts as short quotes in new words, keeping the reviewer's view of each theme
+  async paraphraseQuotes(sources: QuoteSource[], signal?: AbortSignal): Promise<string[]> {
+    const model = this.getModel();
+    const redactor = new Redactor(); // Personal details; callers redact competitor brands
+    const list = sources
+      .map((source, index) => `${index + 1}. [${source.theme}, sentiment ${source.sentiment.toFixed(2)}] ${redactor.redact(source.text).replace(/\s+/g, ' ')}`)
+      .join('\n');
+
+    const prompt = `You are writing example quotes for a product insights report. Each line below gives a theme, the reviewer's sentiment towards it, and an excerpt from a customer review.
+
+Rewrite each excerpt as one short first-person sentence (at most 25 words) about that theme only. Keep the reviewer's opinion and its strength, but use entirely your own words: do not copy any run of three or more words from the excerpt. Leave out names, brands and personal details.
+
+${list}
+
+Respond with only a JSON array of ${sources.length} strings in the same order as the lines.`;
+
+    const result = await generateText({
+      model,
+      prompt,
+      temperature: 0.7,
+      maxTokens: 2000,
+      abortSignal: signal,
+    });
+
+    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in AI paraphrase response');
+    }
+
+    const quotes = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(quotes) || quotes.length !== sources.length) {
+      throw new Error(`Expected ${sources.length} paraphrased quotes from AI`);
+    }
+
+    return quotes.map(quote => (typeof quote === 'string' ? quote.trim() : ''));
+  }
+
+  // Translate review texts from one language into English, keeping their tone
+  async translateTexts(texts: string[], language: string, signal?: AbortSignal): Promise<string[]> {
+    const model = this.getModel();
+    const redactor = new Redactor(); // Personal details; callers redact competitor brands
+    const list = texts.map((text, index) => `${index + 1}. ${redactor.redact(text).replace(/\s+/g, ' ')}`).join('\n');
+
+    const prompt = `Translate each of these product reviews from the language with ISO 639-1 code "${language}" into natural English. Keep the reviewer's opinions, tone and strength of feeling, and do not add or leave out anything.
+
+${list}
+
+Respond with only a JSON array of ${texts.length} strings in the same order as the reviews.`;
+
+    const result = await generateText({
+      model,
+      prompt,
+      temperature: 0,
+      maxTokens: 4000,
+      abortSignal: signal,
+    });
+
+    const jsonMatch = result.text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in AI translation response');
+    }
+
+    const translations = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(translations) || translations.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} translations from AI`);
+    }
+
+    // An empty translation keeps the review as written
+    return translations.map((translation, index) =>
+      typeof translation === 'string' && translation.trim() ? translation.trim() : texts[index]
+    );
+  }
+
   // Ensure a value is a number within expected range
   private ensureNumber(value: any, defaultValue: number, min: number = -1, max: number = 1): number {
     const num = Number(value);
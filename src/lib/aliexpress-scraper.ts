@@ -0,0 +1,112 @@
+import type { ScrapedProductData, ScrapedReviewData, ScrapingResult, ScrapingService } from './scraping-service';
+import type { ScraperDefinition } from './scraper-registry';
+import { delay } from './utils';
+
+// AliExpress scraper
+export class AliExpressScraper implements ScrapingService {
+  canHandle(url: string): boolean {
+    try {
+      const hostname = new URL(url).hostname;
+      return hostname.includes('aliexpress.com') || hostname.includes('s.click.aliexpress.com');
+    } catch {
+      return false;
+    }
+  }
+
+  async scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    try {
+      // For now, return mock data - in production, this would use Apify or RapidAPI
+      const mockData = await this.mockAliExpressScrape(url, signal);
+      return { success: true, ...mockData };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to scrape AliExpress product'
+      };
+    }
+  }
+
+  private async mockAliExpressScrape(url: string, signal?: AbortSignal): Promise<{ product_data: ScrapedProductData; reviews: ScrapedReviewData[] }> {
+    // Simulate API delay
+    await delay(3000, signal);
+
+    const productData: ScrapedProductData = {
+      name: "Wireless Bluetooth Earbuds Pro",
+      description: "True wireless earbuds with noise cancellation, 24hr battery life, IPX7 waterproof rating. Premium sound quality.",
+      images: [
+        "https://example.com/earbuds1.jpg",
+        "https://example.com/earbuds2.jpg"
+      ],
+      price: "$29.99",
+      rating: 4.1,
+      review_count: 15420,
+      platform: 'aliexpress',
+      original_url: url
+    };
+
+    const reviews: ScrapedReviewData[] = [
+      {
+        rating: 5,
+        title: "Excellent quality!",
+        content: "Sound quality is amazing for this price. Noise cancellation works great. Battery lasts all day.",
+        author: "Tech Enthusiast",
+        date: "2024-11-12",
+        verified: true,
+        helpful_count: 892
+      },
+      {
+        rating: 1,
+        title: "Stopped working",
+        content: "Left earbud died after 2 weeks of use. Contacted seller but no response. Waste of money.",
+        author: "Frustrated Buyer",
+        date: "2024-11-09",
+        verified: true,
+        helpful_count: 234
+      },
+      {
+        rating: 4,
+        title: "Good value",
+        content: "Not as good as AirPods but for the price, I'm impressed. Comfortable fit and decent battery life.",
+        author: "Value Shopper",
+        date: "2024-11-07",
+        verified: true,
+        helpful_count: 445
+      },
+      {
+        rating: 5,
+        title: "Perfect for gym",
+        content: "Never falls out during workouts. Waterproof feature really works. Sound quality is better than expected.",
+        author: "Fitness Lover",
+        date: "2024-11-04",
+        verified: true,
+        helpful_count: 667
+      }
+    ];
+
+    return { product_data: productData, reviews };
+  }
+}
+
+// Item ID from /item/<id>.html, also found on regional hosts such as es.aliexpress.com
+export function getAliExpressItemId(url: string): string | null {
+  return new URL(url).pathname.match(/\/item\/(?:[^/]*\/)?(\d+)\.html/)?.[1] || null;
+}
+
+// Registry entry
+export const aliExpressScraperDefinition: ScraperDefinition = {
+  platform: 'aliexpress',
+  priority: 100,
+  detect: url => new AliExpressScraper().canHandle(url),
+  productKey: getAliExpressItemId,
+  canonicalUrl: url => {
+    const itemId = getAliExpressItemId(url);
+    return itemId ? `https://www.aliexpress.com/item/${itemId}.html` : null;
+  },
+  shortLinkHosts: ['s.click.aliexpress.com', 'a.aliexpress.com'],
+  trackingParams: [
+    'spm', 'scm', 'algo_pvid', 'algo_exp_id', 'aff_*', 'terminal_id', 'afsmartredirect', 'gatewayadapt',
+    'pdp_npi', 'srcsns', 'businesstype'
+  ],
+  create: () => new AliExpressScraper()
+};
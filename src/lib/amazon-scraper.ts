@@ -0,0 +1,370 @@
+import { HttpClient, HttpError } from './http-client';
+import type { ScrapedProductData, ScrapedReviewData, ScrapingResult, ScrapingService } from './scraping-service';
+import type { ScraperDefinition } from './scraper-registry';
+import { ExtractedProduct, findElement, findElements, stripTags, toNumber } from './structured-data';
+
+export const AMAZON_MARKETPLACES = [
+  'amazon.com',
+  'amazon.ca',
+  'amazon.com.mx',
+  'amazon.com.br',
+  'amazon.co.uk',
+  'amazon.de',
+  'amazon.fr',
+  'amazon.it',
+  'amazon.es',
+  'amazon.nl',
+  'amazon.se',
+  'amazon.pl',
+  'amazon.com.be',
+  'amazon.com.tr',
+  'amazon.ae',
+  'amazon.sa',
+  'amazon.eg',
+  'amazon.in',
+  'amazon.co.jp',
+  'amazon.sg',
+  'amazon.com.au'
+] as const;
+
+export type AmazonMarketplace = typeof AMAZON_MARKETPLACES[number];
+
+// Review page filters, as accepted by the filterByStar query parameter
+export const AMAZON_STAR_FILTERS = [
+  'all_stars',
+  'five_star',
+  'four_star',
+  'three_star',
+  'two_star',
+  'one_star',
+  'positive',
+  'critical'
+] as const;
+
+export type AmazonStarFilter = typeof AMAZON_STAR_FILTERS[number];
+
+export function isAmazonStarFilter(value: string): value is AmazonStarFilter {
+  return (AMAZON_STAR_FILTERS as readonly string[]).includes(value);
+}
+
+export interface AmazonScraperOptions {
+  maxReviews?: number;
+  maxReviewPages?: number; // Per star filter
+  starFilters?: AmazonStarFilter[];
+}
+
+// Share links that redirect to a product page on one of the marketplaces
+const SHORT_LINK_HOSTS = ['amzn.to', 'amzn.eu', 'amzn.asia', 'a.co'];
+
+// Path shapes that carry an ASIN: /dp/, /gp/product/, mobile /gp/aw/d/, reviews and the legacy obidos links
+const ASIN_PATH_PATTERN =
+  /\/(?:dp(?:\/product)?|gp\/product|gp\/aw\/d|gp\/offer-listing|product-reviews|exec\/obidos\/asin|o\/asin)\/([A-Z0-9]{10})(?=[/?#]|$)/i;
+
+// Marketplace domain for an Amazon URL, e.g. "amazon.co.uk"; null for other hosts and short links
+export function getAmazonMarketplace(url: string): AmazonMarketplace | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return AMAZON_MARKETPLACES.find(domain => hostname === domain || hostname.endsWith(`.${domain}`)) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function isAmazonUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return getAmazonMarketplace(url) !== null || SHORT_LINK_HOSTS.includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ASIN from any product URL shape; short links have to be resolved first
+export function extractAsin(url: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    const fromPath = urlObj.pathname.match(ASIN_PATH_PATTERN)?.[1];
+    const fromQuery = urlObj.searchParams.get('asin') || urlObj.searchParams.get('ASIN');
+    const asin = fromPath || fromQuery;
+    return asin && /^[A-Z0-9]{10}$/i.test(asin) ? asin.toUpperCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+function textOf(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  // Star icons carry their rating as hidden text, which should not leak into titles
+  const text = stripTags(findElements(html, 'class', 'a-icon-alt').reduce((rest, icon) => rest.replace(icon.outer, ''), html));
+  return text || undefined;
+}
+
+// "4.3 out of 5 stars", "4,3 von 5 Sternen", "5つ星のうち4.3"
+function parseStarRating(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const numbers = (text.match(/\d+(?:[.,]\d+)?/g) || []).map(toNumber);
+  const rating = text.includes('つ星のうち') ? numbers[1] : numbers[0];
+  return rating !== undefined && rating > 0 && rating <= 5 ? rating : undefined;
+}
+
+function parseCount(text: string | undefined): number | undefined {
+  const digits = text?.match(/\d[\d.,\s]*/)?.[0].replace(/[^\d]/g, '');
+  return digits ? parseInt(digits, 10) : undefined;
+}
+
+// "Reviewed in the United States on November 10, 2024"; dates in other languages are kept as written
+function parseReviewDate(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const datePart = text.match(/\s(?:on|vom|le|il|el|op|den|dnia|em)\s+(.+)$/)?.[1]?.trim() || text.trim();
+  const timestamp = Date.parse(`${datePart} UTC`);
+  return Number.isFinite(timestamp) ? new Date(timestamp).toISOString().slice(0, 10) : datePart;
+}
+
+function parseHelpfulVotes(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  // "One person found this helpful" has no digits
+  return parseCount(text) ?? 1;
+}
+
+// Parse the review blocks found on product and review pages
+export function parseAmazonReviews(html: string): { id?: string; review: ScrapedReviewData }[] {
+  const reviews: { id?: string; review: ScrapedReviewData }[] = [];
+
+  for (const element of findElements(html, 'data-hook', 'review')) {
+    const review = element.outer;
+    const stars = findElement(review, 'data-hook', 'review-star-rating')
+      || findElement(review, 'data-hook', 'cmps-review-star-rating');
+    const rating = parseStarRating(stars ? stripTags(stars.inner) : undefined)
+      ?? toNumber(stars?.attributes.class?.match(/a-star-(\d)/)?.[1]);
+    const content = textOf(findElement(review, 'data-hook', 'review-body')?.inner);
+    if (!content || rating === undefined) continue;
+
+    const title = findElement(review, 'data-hook', 'review-title');
+    const author = findElement(review, 'class', 'a-profile-name');
+    const date = findElement(review, 'data-hook', 'review-date');
+    const helpful = findElement(review, 'data-hook', 'helpful-vote-statement');
+
+    reviews.push({
+      id: element.attributes.id,
+      review: {
+        rating,
+        title: textOf(title?.inner),
+        content,
+        author: textOf(author?.inner),
+        date: parseReviewDate(textOf(date?.inner)),
+        verified: findElement(review, 'data-hook', 'avp-badge') !== null
+          || findElement(review, 'data-hook', 'avp-badge-linkless') !== null,
+        helpful_count: parseHelpfulVotes(textOf(helpful?.inner))
+      }
+    });
+  }
+
+  return reviews;
+}
+
+// Whether a review page links to a further page
+export function hasNextReviewPage(html: string): boolean {
+  const next = findElement(html, 'class', 'a-last');
+  return !!next && !/\ba-disabled\b/.test(next.attributes.class || '') && /<a\b/i.test(next.inner);
+}
+
+function productImages(html: string): string[] {
+  const images: string[] = [];
+  const landing = findElement(html, 'id', 'landingImage') || findElement(html, 'id', 'imgBlkFront');
+
+  // Gallery images embedded in the page script, largest rendition first
+  for (const match of html.matchAll(/"hiRes"\s*:\s*"(https:[^"]+)"/g)) {
+    images.push(match[1]);
+  }
+
+  if (landing) {
+    images.push(landing.attributes['data-old-hires']);
+    try {
+      const dynamic = JSON.parse(landing.attributes['data-a-dynamic-image'] || '{}') as Record<string, [number, number]>;
+      const largest = Object.entries(dynamic).sort(([, a], [, b]) => b[0] * b[1] - a[0] * a[1])[0]?.[0];
+      images.push(largest);
+    } catch {
+      // Attribute missing or malformed; the plain src below still works
+    }
+    images.push(landing.attributes.src);
+  }
+
+  return Array.from(new Set(images.filter(image => image && image.startsWith('http'))));
+}
+
+// Parse the product page (/dp/<ASIN>), including the handful of top reviews it shows
+export function parseAmazonProductPage(html: string): { product: ExtractedProduct; reviews: ScrapedReviewData[] } {
+  const priceBlock = findElement(html, 'id', 'corePrice_feature_div')
+    || findElement(html, 'id', 'corePriceDisplay_desktop_feature_div')
+    || findElement(html, 'id', 'apex_desktop');
+  const price = textOf(priceBlock ? findElement(priceBlock.outer, 'class', 'a-offscreen')?.inner : undefined)
+    || textOf(findElement(html, 'id', 'priceblock_ourprice')?.inner)
+    || textOf(findElement(html, 'id', 'priceblock_dealprice')?.inner);
+
+  const ratingPopover = findElement(html, 'id', 'acrPopover');
+  const bullets = findElements(findElement(html, 'id', 'feature-bullets')?.inner || '', 'class', 'a-list-item')
+    .map(item => textOf(item.inner))
+    .filter((bullet): bullet is string => !!bullet);
+  const description = [...bullets, textOf(findElement(html, 'id', 'productDescription')?.inner)]
+    .filter(Boolean)
+    .join('\n');
+
+  const product: ExtractedProduct = {
+    name: textOf(findElement(html, 'id', 'productTitle')?.inner),
+    description: description || undefined,
+    brand: textOf(findElement(html, 'id', 'bylineInfo')?.inner),
+    images: productImages(html),
+    price,
+    rating: parseStarRating(ratingPopover?.attributes.title || stripTags(ratingPopover?.inner || '')),
+    review_count: parseCount(textOf(findElement(html, 'id', 'acrCustomerReviewText')?.inner))
+  };
+
+  return { product, reviews: parseAmazonReviews(html).map(entry => entry.review) };
+}
+
+function isBlockedPage(html: string): boolean {
+  return html.includes('/errors/validateCaptcha') || html.includes('id="captchacharacters"');
+}
+
+// Amazon product pages across marketplaces, parsed from the HTML
+export class AmazonScraper implements ScrapingService {
+  private maxReviews: number;
+  private maxReviewPages: number;
+  private starFilters: AmazonStarFilter[];
+
+  constructor(private httpClient: HttpClient, options: AmazonScraperOptions = {}) {
+    this.maxReviews = options.maxReviews ?? 200;
+    this.maxReviewPages = options.maxReviewPages ?? 10;
+    this.starFilters = options.starFilters?.length ? options.starFilters : ['all_stars'];
+  }
+
+  canHandle(url: string): boolean {
+    return isAmazonUrl(url);
+  }
+
+  async scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    try {
+      let marketplace = getAmazonMarketplace(url);
+      let asin = extractAsin(url);
+
+      // Short links and unusual URL shapes are followed to the product page they point at
+      if (!marketplace || !asin) {
+        const resolved = await this.httpClient.get(url, { signal });
+        marketplace = getAmazonMarketplace(resolved.url);
+        asin = extractAsin(resolved.url);
+      }
+
+      if (!marketplace || !asin) {
+        return { success: false, error: 'Could not find an Amazon product (ASIN) in this URL' };
+      }
+
+      const page = await this.httpClient.get(`https://www.${marketplace}/dp/${asin}`, { signal });
+      if (isBlockedPage(page.body)) {
+        return { success: false, error: `Amazon (${marketplace}) blocked the request with a CAPTCHA page` };
+      }
+
+      const { product, reviews: topReviews } = parseAmazonProductPage(page.body);
+      if (!product.name) {
+        return { success: false, error: `Could not find product information for ${asin} on ${marketplace}` };
+      }
+
+      let reviews = topReviews;
+      let warning: string | undefined;
+      try {
+        const pagedReviews = await this.fetchReviews(marketplace, asin, signal);
+        if (pagedReviews.length > 0) reviews = pagedReviews;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Error fetching Amazon review pages:', error);
+        warning = `Could not load review pages from ${marketplace}; using the ${topReviews.length} reviews shown on the product page.`;
+      }
+
+      if (!warning && reviews.length === 0) {
+        warning = `No reviews found for ${asin} on ${marketplace}.`;
+      }
+
+      const productData: ScrapedProductData = {
+        name: product.name,
+        description: product.description || '',
+        images: product.images,
+        price: product.price,
+        rating: product.rating,
+        review_count: product.review_count,
+        platform: 'amazon',
+        marketplace,
+        original_url: url
+      };
+
+      return { success: true, product_data: productData, reviews, warning };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        success: false,
+        error: error instanceof HttpError && error.status === 404
+          ? 'Amazon product not found'
+          : error instanceof Error ? error.message : 'Failed to scrape Amazon product'
+      };
+    }
+  }
+
+  // Walk the review pages for each star filter, skipping reviews already seen under another filter
+  private async fetchReviews(marketplace: AmazonMarketplace, asin: string, signal?: AbortSignal): Promise<ScrapedReviewData[]> {
+    const reviews: ScrapedReviewData[] = [];
+    const seen = new Set<string>();
+
+    for (const filter of this.starFilters) {
+      for (let pageNumber = 1; pageNumber <= this.maxReviewPages && reviews.length < this.maxReviews; pageNumber++) {
+        const response = await this.httpClient.get(
+          `https://www.${marketplace}/product-reviews/${asin}/?reviewerType=all_reviews` +
+          `&filterByStar=${filter}&pageNumber=${pageNumber}`,
+          { signal }
+        );
+
+        if (response.url.includes('/ap/signin')) {
+          throw new Error(`${marketplace} requires sign-in to view review pages`);
+        }
+        if (isBlockedPage(response.body)) {
+          throw new Error(`${marketplace} blocked the review page with a CAPTCHA`);
+        }
+
+        for (const { id, review } of parseAmazonReviews(response.body)) {
+          const key = id || `${review.author}|${review.content}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          reviews.push(review);
+        }
+
+        if (!hasNextReviewPage(response.body)) break;
+      }
+    }
+
+    return reviews.slice(0, this.maxReviews);
+  }
+}
+
+// Registry entry
+export const amazonScraperDefinition: ScraperDefinition = {
+  platform: 'amazon',
+  priority: 100,
+  detect: isAmazonUrl,
+  productKey: url => {
+    const marketplace = getAmazonMarketplace(url);
+    const asin = extractAsin(url);
+    return marketplace && asin ? `${marketplace}:${asin}` : null;
+  },
+  canonicalUrl: url => {
+    const marketplace = getAmazonMarketplace(url);
+    const asin = extractAsin(url);
+    return marketplace && asin ? `https://www.${marketplace}/dp/${asin}` : null;
+  },
+  shortLinkHosts: SHORT_LINK_HOSTS,
+  trackingParams: [
+    'ref', 'ref_', 'referrer', 'tag', 'linkcode', 'linkid', 'camp', 'creative', 'creativeasin', 'ascsubtag',
+    'psc', 'th', 'smid', 'qid', 'sr', 'crid', 'sprefix', 'keywords', 'pd_rd_*', 'pf_rd_*'
+  ],
+  // Unknown star filters are dropped; with none left the scraper reads all stars
+  create: ({ httpClient, config }) => new AmazonScraper(httpClient, {
+    maxReviews: config.maxReviews,
+    starFilters: config.starFilters?.filter(isAmazonStarFilter)
+  })
+};
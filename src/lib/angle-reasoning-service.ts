@@ -2,6 +2,9 @@ import { createClient } from './supabase';
 import { aiService } from './ai-service';
 import { ViralityAnalysisInput, ViralityPackGeneration } from './ai-service';
 import { updateProductContainerStatus } from './product-service';
+import { ingestionEventService } from './ingestion-events';
+import { webhookService } from './webhook-service';
+import { redactionService } from './redaction-service';
 import { ViralityPack, ProductContainer, PainPoint, DelightFactor } from '@/types/product';
 
 export interface AngleReasoningResult {
@@ -10,16 +13,26 @@ export interface AngleReasoningResult {
   error?: string;
 }
 
+export interface AngleReasoningOptions {
+  signal?: AbortSignal;
+  job_id?: string; // Ingestion job that progress events are reported against
+  defer_status?: boolean; // Leave container status changes to the caller, which reports only the final outcome
+}
+
 export class AngleReasoningService {
   private supabase = createClient('service');
 
   // Start the angle reasoning process for a product container
-  async startAngleReasoning(productContainerId: string): Promise<boolean> {
+  async startAngleReasoning(productContainerId: string, options?: AngleReasoningOptions): Promise<boolean> {
+    const signal = options?.signal;
+
     try {
       console.log(`Starting angle reasoning for container ${productContainerId}`);
 
       // Update status to analyzing
-      await updateProductContainerStatus(productContainerId, 'analyzing');
+      if (!options?.defer_status) {
+        await updateProductContainerStatus(productContainerId, 'analyzing');
+      }
 
       // Get the product container and related data
       const { data: container, error: containerError } = await this.supabase
@@ -38,12 +51,14 @@ export class AngleReasoningService {
           .from('pain_points')
           .select('*')
           .eq('product_container_id', productContainerId)
+          .order('weighted_mentions', { ascending: false, nullsFirst: false })
           .order('mentions', { ascending: false }),
 
         this.supabase
           .from('delight_factors')
           .select('*')
           .eq('product_container_id', productContainerId)
+          .order('weighted_mentions', { ascending: false, nullsFirst: false })
           .order('mentions', { ascending: false })
       ]);
 
@@ -66,36 +81,58 @@ export class AngleReasoningService {
         pain_points: painPoints as PainPoint[],
         delight_factors: delightFactors as DelightFactor[],
         platform: container.platform,
-        target_audience: this.inferTargetAudience(container, painPoints, delightFactors)
+        target_audience: this.inferTargetAudience(container, painPoints, delightFactors),
+        competitor_brands: container.competitor_brands || []
       };
 
       // Generate virality packs using AI
-      const aiAnalysis = await aiService.generateViralityPacks(analysisInput);
+      const aiAnalysis = await aiService.generateViralityPacks(analysisInput, signal);
+      if (aiAnalysis.redactions) {
+        await redactionService.recordAudit(productContainerId, options?.job_id || null, 'prompt', aiAnalysis.redactions);
+      }
+
+      // Never store packs or complete a container whose ingestion was cancelled
+      signal?.throwIfAborted();
 
       // Store virality packs in database
       await this.storeViralityPacks(productContainerId, aiAnalysis.virality_packs);
-
-      // Update container status to completed
-      await updateProductContainerStatus(
+      await ingestionEventService.publish(
         productContainerId,
-        'completed',
-        undefined,
-        {
-          analysis_job_id: crypto.randomUUID()
-        }
+        { type: 'packs_generated', count: aiAnalysis.virality_packs.length },
+        options?.job_id
       );
 
+      // Update container status to completed
+      if (!options?.defer_status) {
+        await updateProductContainerStatus(
+          productContainerId,
+          'completed',
+          undefined,
+          {
+            analysis_job_id: crypto.randomUUID()
+          }
+        );
+      }
+
       console.log(`Completed angle reasoning for container ${productContainerId}, generated ${aiAnalysis.virality_packs.length} virality packs`);
 
       return true;
 
     } catch (error) {
+      // A cancelled run leaves the container status to whoever cancelled it
+      if (signal?.aborted) {
+        console.log(`Angle reasoning cancelled for container ${productContainerId}`);
+        return false;
+      }
+
       console.error(`Angle reasoning failed for container ${productContainerId}:`, error);
-      await updateProductContainerStatus(
-        productContainerId,
-        'failed',
-        error instanceof Error ? error.message : 'Angle reasoning failed'
-      );
+      if (!options?.defer_status) {
+        await updateProductContainerStatus(
+          productContainerId,
+          'failed',
+          error instanceof Error ? error.message : 'Angle reasoning failed'
+        );
+      }
       return false;
     }
   }
@@ -248,7 +285,8 @@ export class AngleReasoningService {
         pain_points: filteredPainPoints as PainPoint[],
         delight_factors: filteredDelightFactors as DelightFactor[],
         platform: container.platform,
-        target_audience: this.inferTargetAudience(container, painPoints, delightFactors)
+        target_audience: this.inferTargetAudience(container, painPoints, delightFactors),
+        competitor_brands: container.competitor_brands || []
       };
 
       // Add custom instructions to the prompt based on options
@@ -267,12 +305,21 @@ export class AngleReasoningService {
 
       // Generate new virality packs with custom instructions
       const aiAnalysis = await aiService.generateViralityPacks(analysisInput);
+      if (aiAnalysis.redactions) {
+        await redactionService.recordAudit(productContainerId, null, 'prompt', aiAnalysis.redactions);
+      }
 
       // Store the new virality packs
       await this.storeViralityPacks(productContainerId, aiAnalysis.virality_packs);
 
       console.log(`Regenerated ${aiAnalysis.virality_packs.length} virality packs for container ${productContainerId}`);
 
+      await webhookService.dispatch(container.user_id, 'virality_packs.regenerated', {
+        product_container_id: productContainerId,
+        pack_count: aiAnalysis.virality_packs.length,
+        options: options || {}
+      });
+
       return true;
 
     } catch (error) {
@@ -0,0 +1,179 @@
+import { aiService } from './ai-service';
+import { validateAIConfig } from './ai-config';
+import { AspectMention, NEGATORS, NEGATION_WINDOW } from './theme-taxonomy';
+
+// Scores how a review feels about each theme it mentions, from -1.0 to 1.0, in the order given
+export interface AspectSentimentModel {
+  name: string; // Stored with reviews; changing the model re-scores them on the next run
+  score(mentions: AspectMention[], signal?: AbortSignal): Promise<number[]>;
+}
+
+// Mentions scoring closer to zero than this express no opinion of their own
+export const NEUTRAL_SENTIMENT = 0.1;
+
+// Valence of review vocabulary on a -3 to 3 scale; multi-word entries use underscores
+const LEXICON: Record<string, number> = {
+  // Positive
+  love: 3, loved: 3, loves: 3, amazing: 3, awesome: 3, excellent: 3, fantastic: 3, perfect: 3, perfectly: 2.5,
+  outstanding: 3, incredible: 3, wonderful: 3, best: 3, superb: 3, flawless: 3, obsessed: 2.5, great: 3,
+  good: 1.9, nice: 1.8, liked: 1.5, enjoy: 2, enjoyed: 2, happy: 2.2, pleased: 2, glad: 1.8,
+  impressed: 2.3, impressive: 2.3, recommend: 2, recommended: 2, beautiful: 2.5, beautifully: 2.5, gorgeous: 2.7,
+  comfortable: 2, comfy: 2, soft: 1.2, smooth: 1.5, sturdy: 2, solid: 1.5, durable: 2, reliable: 2, fast: 1.2,
+  quick: 1.2, easy: 1.6, effective: 2, works: 0.8, worked: 0.8, helps: 1.5, helped: 1.5, fits: 1,
+  gentle: 1.5, fresh: 1.2, clean: 1.2, affordable: 1.8, cheaper: 0.8, bargain: 2, worth: 1.8, satisfied: 2,
+  favorite: 2.5, favourite: 2.5, ok: 0.3, okay: 0.3, fine: 0.6, decent: 1, well_made: 2.3, works_well: 2.2,
+  work_well: 2.2, worth_it: 2.5, highly_recommend: 3, five_stars: 2.5, game_changer: 3, holy_grail: 3,
+  quickly: 1.2, promptly: 1.5, right_on_time: 1.8, ahead_of_schedule: 2,
+  // Negative
+  hate: -3, hated: -3, terrible: -3, horrible: -3, awful: -3, worst: -3, useless: -2.8, garbage: -3, junk: -2.8,
+  disgusting: -3, bad: -2.5, poor: -2.3, poorly: -2.3, cheap: -1.2, flimsy: -2.2, fragile: -1.6, broke: -2.3,
+  broken: -2.5, breaks: -2, defective: -2.8, faulty: -2.5, leak: -2, leaks: -2, leaked: -2, leaking: -2,
+  disappointed: -2.3, disappointing: -2.3, disappointment: -2.5, annoying: -2, frustrating: -2.2, uncomfortable: -2,
+  itchy: -1.8, sticky: -1.3, greasy: -1.5, rash: -2, irritation: -2, irritated: -2, burn: -1.8, burned: -2,
+  burning: -2, breakout: -2, breakouts: -2, smelly: -2, stinks: -2.5, slow: -1.3, noisy: -1.5, loud: -1,
+  expensive: -1.3, overpriced: -2.2, pricey: -1, ripped: -2.1, tore: -2, torn: -2, cracked: -2.1, scratched: -1.8,
+  problem: -1.7, problems: -1.7, issue: -1.5, issues: -1.5, fake: -2.5, scam: -3, refund: -1.8, returned: -1.8,
+  returning: -1.8, waste: -2.5, wrong: -1.8, unfortunately: -1.5, mediocre: -1.3, meh: -1, failed: -2.3,
+  fails: -2.1, damaged: -2.2, dented: -1.8, missing: -1.8, late: -1.5, delayed: -1.5, lost: -1.8, difficult: -1.5, hard: -0.8, weak: -1.5, small: -0.3, tight: -0.8, sick: -2, nausea: -2.2,
+  waste_of_money: -3, fell_apart: -2.8, falls_apart: -2.8, stopped_working: -2.8, doesnt_work: -2.8,
+  didnt_work: -2.5, broke_out: -2.2, one_star: -2.5, not_worth_it: -2.5, money_back: -1.8,
+  // Waits, written as "took ..." so that "lasted a long time" stays positive
+  took_forever: -2.2, took_ages: -2, took_weeks: -1.8, took_a_long_time: -1.6, took_so_long: -1.8, took_too_long: -2
+};
+
+// Modifiers that scale the sentiment word right after them
+const INTENSIFIERS = new Set([
+  'very', 'really', 'extremely', 'so', 'super', 'incredibly', 'absolutely', 'totally', 'truly', 'completely',
+  'highly', 'seriously', 'insanely', 'ridiculously', 'too', 'way'
+]);
+const DAMPENERS = new Set(['slightly', 'somewhat', 'fairly', 'barely', 'mildly', 'a_bit', 'a_little', 'kind_of', 'sort_of']);
+const INTENSIFIER_SCALE = 1.5;
+const DAMPENER_SCALE = 0.6;
+const NEGATION_SCALE = -0.74; // "not good" is milder than "bad"
+
+// Contrast words separate opinions, so "smells great but the cap leaks" scores each part apart
+const CONTRAST_BOUNDARY = /[;:()]|\b(?:but|however|although|though|yet|except|whereas|otherwise)\b/g;
+// Commas usually do too, but not in "the battery, honestly, is terrible"
+const CLAUSE_BOUNDARY = /[,;:()]|\b(?:but|however|although|though|yet|except|whereas|otherwise)\b/g;
+
+// Multi-word entries are joined into single tokens before lookup
+const MULTI_WORD_PATTERN = new RegExp(
+  `\\b(?:${[...Object.keys(LEXICON), ...DAMPENERS]
+    .filter(entry => entry.includes('_'))
+    .sort((a, b) => b.length - a.length)
+    .map(entry => entry.replace(/_/g, '\\s+'))
+    .join('|')})\\b`,
+  'g'
+);
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/'/g, '')
+    .replace(MULTI_WORD_PATTERN, match => match.replace(/\s+/g, '_'))
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean);
+}
+
+// Sum the valence of a run of words, applying intensifiers, dampeners and negation
+function scoreWords(words: string[]): { total: number; hits: number } {
+  let total = 0;
+  let hits = 0;
+
+  words.forEach((word, index) => {
+    const valence = LEXICON[word];
+    if (valence === undefined) return;
+
+    let value = valence;
+    const previous = words[index - 1];
+    if (INTENSIFIERS.has(previous)) {
+      value *= INTENSIFIER_SCALE;
+    } else if (DAMPENERS.has(previous)) {
+      value *= DAMPENER_SCALE;
+    }
+    if (words.slice(Math.max(0, index - NEGATION_WINDOW), index).some(w => NEGATORS.has(w))) {
+      value *= NEGATION_SCALE;
+    }
+
+    total += value;
+    hits += 1;
+  });
+
+  return { total, hits };
+}
+
+// The part of a sentence between boundaries that holds the given position
+function getClause(sentence: string, position: number, boundaries: RegExp): string {
+  let from = 0;
+  let to = sentence.length;
+  for (const boundary of sentence.matchAll(boundaries)) {
+    if (boundary.index! + boundary[0].length <= position) {
+      from = boundary.index! + boundary[0].length;
+    } else if (boundary.index! >= position) {
+      to = boundary.index!;
+      break;
+    }
+  }
+  return sentence.slice(from, to);
+}
+
+// Offline model: a review-tuned valence lexicon scored over the clause around each mention
+export class LexiconSentimentModel implements AspectSentimentModel {
+  name = 'lexicon@2';
+
+  async score(mentions: AspectMention[]): Promise<number[]> {
+    return mentions.map(mention => this.scoreMention(mention));
+  }
+
+  private scoreMention(mention: AspectMention): number {
+    // Score the mention's own clause, widening up to the nearest contrast when the clause holds no opinion
+    let total = 0;
+    if (mention.start === undefined) {
+      ({ total } = scoreWords(tokenize(mention.sentence)));
+    } else {
+      const clause = scoreWords(tokenize(getClause(mention.sentence, mention.start, CLAUSE_BOUNDARY)));
+      ({ total } = clause.hits > 0 ? clause : scoreWords(tokenize(getClause(mention.sentence, mention.start, CONTRAST_BOUNDARY))));
+    }
+
+    // Squash the sum into -1..1 so a few strong words approach but never reach the ends
+    return Math.round((total / Math.sqrt(total * total + 15)) * 100) / 100;
+  }
+}
+
+// Scores mentions with the configured AI model, falling back to the lexicon for batches it cannot score
+export class LlmSentimentModel implements AspectSentimentModel {
+  name = 'llm@1';
+  private batchSize = 50;
+  private fallback = new LexiconSentimentModel();
+
+  async score(mentions: AspectMention[], signal?: AbortSignal): Promise<number[]> {
+    const scores: number[] = [];
+
+    for (let i = 0; i < mentions.length; i += this.batchSize) {
+      const batch = mentions.slice(i, i + this.batchSize);
+      try {
+        scores.push(...await aiService.scoreAspectSentiment(batch, signal));
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error('Error scoring aspect sentiment with AI, using the lexicon model:', error);
+        scores.push(...await this.fallback.score(batch));
+      }
+    }
+
+    return scores;
+  }
+}
+
+// SENTIMENT_MODEL picks the backend: "lexicon" (the default, works offline) or "llm"
+function createAspectSentimentModel(): AspectSentimentModel {
+  if (process.env.SENTIMENT_MODEL !== 'llm') {
+    return new LexiconSentimentModel();
+  }
+  if (!validateAIConfig().isValid) {
+    console.warn('SENTIMENT_MODEL is llm but no AI API key is configured, using the lexicon model');
+    return new LexiconSentimentModel();
+  }
+  return new LlmSentimentModel();
+}
+
+// Singleton instance
+export const aspectSentimentModel = createAspectSentimentModel();
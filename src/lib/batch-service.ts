@@ -0,0 +1,268 @@
+import { createClient } from './supabase';
+import { createProductContainer, updateProductContainerStatus, validateAndDetectPlatform } from './product-service';
+import { ingestionService } from './ingestion-service';
+import { CanonicalUrl, urlCanonicalizer } from './url-canonicalizer';
+import {
+  CreateProductBatchResponse,
+  ProductBatch,
+  ProductBatchRejectedUrl,
+  ProductBatchWithContainers,
+  ProductContainer
+} from '@/types/product';
+
+export const MAX_BATCH_SIZE = 200;
+
+// Short links resolved at once while a batch is validated; each can take a network round trip
+const CANONICALIZE_CONCURRENCY = 8;
+
+// Gap between queued ingestions so a large catalog does not hit every store at once
+const INGESTION_STAGGER_MS = Number(process.env.BATCH_INGESTION_STAGGER_MS) || 15000;
+
+// Header names recognised as the URL column of an uploaded CSV
+const URL_COLUMN_NAMES = ['url', 'product_url', 'product url', 'link'];
+
+export interface ParsedBatchInput {
+  urls: string[];
+  rejected: ProductBatchRejectedUrl[];
+}
+
+// Split a CSV line on commas, semicolons or tabs, keeping quoted cells intact
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (!quoted && (char === ',' || char === ';' || char === '\t')) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+// Extract product URLs from CSV contents or a newline-separated list
+export function parseBatchInput(input: string): ParsedBatchInput {
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const urls: string[] = [];
+  const rejected: ProductBatchRejectedUrl[] = [];
+  const seen = new Set<string>();
+
+  // Use a named URL column when the first row is a header
+  let urlColumn = -1;
+  if (lines.length > 0) {
+    const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+    urlColumn = header.findIndex(cell => URL_COLUMN_NAMES.includes(cell));
+    if (urlColumn >= 0 || !/https?:\/\//i.test(lines[0])) {
+      lines.shift();
+    }
+  }
+
+  for (const line of lines) {
+    const cells = splitCsvLine(line);
+    const url = urlColumn >= 0
+      ? cells[urlColumn]
+      : cells.find(cell => /^https?:\/\//i.test(cell));
+
+    if (!url) {
+      rejected.push({ url: line, error: 'No product URL found on this line' });
+      continue;
+    }
+
+    if (seen.has(url)) {
+      continue;
+    }
+
+    seen.add(url);
+    urls.push(url);
+  }
+
+  return { urls, rejected };
+}
+
+export class BatchService {
+  private supabase = createClient('service');
+
+  // Create product containers for every URL in the batch and queue their ingestion
+  async createBatch(
+    userId: string,
+    input: ParsedBatchInput,
+    source: ProductBatch['source']
+  ): Promise<CreateProductBatchResponse> {
+    try {
+      // Reject oversized batches before any short link is resolved
+      if (input.urls.length > MAX_BATCH_SIZE) {
+        return { success: false, error: `A batch can contain at most ${MAX_BATCH_SIZE} product URLs` };
+      }
+
+      const rejected = [...input.rejected];
+      const validUrls: CanonicalUrl[] = [];
+      let externalCount = 0;
+
+      const enteredUrls: string[] = [];
+      for (const url of input.urls) {
+        const entered = validateAndDetectPlatform(url);
+        if (entered.valid) {
+          enteredUrls.push(url);
+        } else {
+          rejected.push({ url, error: entered.error || 'Invalid URL' });
+        }
+      }
+
+      const canonicalUrls: CanonicalUrl[] = [];
+      for (let i = 0; i < enteredUrls.length; i += CANONICALIZE_CONCURRENCY) {
+        canonicalUrls.push(...await Promise.all(
+          enteredUrls.slice(i, i + CANONICALIZE_CONCURRENCY).map(url => urlCanonicalizer.canonicalize(url))
+        ));
+      }
+
+      // Credits are counted on the canonical URL, the same one createProductContainer charges for
+      for (const canonical of canonicalUrls) {
+        const url = canonical.original_url;
+        const { valid, platform, error } = validateAndDetectPlatform(canonical.canonical_url);
+        if (!valid) {
+          rejected.push({ url, error: error || 'Invalid URL' });
+          continue;
+        }
+
+        validUrls.push(canonical);
+        if (platform === 'external') {
+          externalCount++;
+        }
+      }
+
+      if (validUrls.length === 0) {
+        return { success: false, error: 'No valid product URLs found' };
+      }
+
+      // Check credits for the whole batch up front so it never stops halfway
+      if (externalCount > 0) {
+        const { data: hasCredits } = await this.supabase.rpc('has_sufficient_credits', {
+          p_user_id: userId,
+          p_required: externalCount
+        });
+
+        if (!hasCredits) {
+          return {
+            success: false,
+            error: `Insufficient angle credits. This batch needs ${externalCount} credits for external products.`
+          };
+        }
+      }
+
+      // Create the batch record
+      const { data: batch, error: batchError } = await this.supabase
+        .from('product_batches')
+        .insert({
+          user_id: userId,
+          source,
+          total_urls: validUrls.length + rejected.length
+        })
+        .select()
+        .single();
+
+      if (batchError || !batch) {
+        console.error('Error creating product batch:', batchError);
+        return { success: false, error: 'Failed to create product batch' };
+      }
+
+      const containers: ProductContainer[] = [];
+      const startAt = Date.now();
+
+      // One URL failing must not lose the batch record for the containers already created
+      for (const canonical of validUrls) {
+        const url = canonical.original_url;
+        let containerId: string | undefined;
+
+        try {
+          const result = await createProductContainer(userId, { product_url: url, batch_id: batch.id }, canonical);
+
+          if (!result.success || !result.product_container) {
+            rejected.push({ url, error: result.error || 'Failed to create product container' });
+            continue;
+          }
+          containerId = result.product_container.id;
+
+          // Stagger ingestion so the worker picks the batch up gradually
+          await ingestionService.startIngestion(containerId, result.product_container.product_url, {
+            run_at: new Date(startAt + containers.length * INGESTION_STAGGER_MS)
+          });
+
+          containers.push(result.product_container);
+        } catch (error) {
+          console.error(`Error adding ${url} to batch ${batch.id}:`, error);
+
+          // A container left behind would otherwise wait for an ingestion that was never queued
+          if (containerId) {
+            await updateProductContainerStatus(containerId, 'failed', 'Failed to queue analysis');
+          }
+          rejected.push({ url, error: containerId ? 'Failed to queue analysis' : 'Failed to create product container' });
+        }
+      }
+
+      if (rejected.length > 0) {
+        await this.supabase
+          .from('product_batches')
+          .update({ rejected_urls: rejected })
+          .eq('id', batch.id);
+      }
+
+      return {
+        success: true,
+        batch: { ...batch, rejected_urls: rejected } as ProductBatch,
+        product_containers: containers
+      };
+
+    } catch (error) {
+      console.error('Unexpected error in createBatch:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  // Get a batch with the current status of each of its product containers
+  async getBatch(userId: string, batchId: string): Promise<ProductBatchWithContainers | null> {
+    try {
+      const { data: batch, error } = await this.supabase
+        .from('product_batches')
+        .select('*')
+        .eq('id', batchId)
+        .eq('user_id', userId)
+        .single();
+
+      if (error || !batch) {
+        return null;
+      }
+
+      const { data: containers } = await this.supabase
+        .from('product_containers')
+        .select('id, product_url, product_name, platform, status, error_message')
+        .eq('batch_id', batchId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      return {
+        ...batch,
+        product_containers: containers || []
+      } as ProductBatchWithContainers;
+
+    } catch (error) {
+      console.error('Error fetching product batch:', error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const batchService = new BatchService();
@@ -0,0 +1,72 @@
+import { HttpClient } from './http-client';
+import type { ScrapedProductData, ScrapingResult, ScrapingService } from './scraping-service';
+import type { ScraperDefinition } from './scraper-registry';
+import { extractStructuredData } from './structured-data';
+
+// Generic external scraper for other platforms, reading the page's structured data
+export class GenericExternalScraper implements ScrapingService {
+  constructor(private httpClient: HttpClient) {}
+
+  canHandle(): boolean {
+    // This scraper can handle any URL
+    return true;
+  }
+
+  async scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    try {
+      const response = await this.httpClient.get(url, { signal });
+      const { product, reviews, sources } = extractStructuredData(response.body, response.url);
+
+      if (!product.name) {
+        return {
+          success: false,
+          error: 'Could not find product information on this page'
+        };
+      }
+
+      const productData: ScrapedProductData = {
+        name: product.name,
+        description: product.description || '',
+        images: product.images,
+        price: product.price,
+        rating: product.rating,
+        review_count: product.review_count,
+        platform: 'external',
+        original_url: url
+      };
+
+      // Pages without JSON-LD or microdata only expose basic details
+      const domain = new URL(response.url).hostname;
+      const warning = !sources.includes('json-ld') && !sources.includes('microdata')
+        ? `No structured product data found on ${domain}. Results may be incomplete.`
+        : reviews.length === 0
+          ? `No reviews found in the structured data on ${domain}.`
+          : undefined;
+
+      return { success: true, product_data: productData, reviews, warning };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to scrape external product'
+      };
+    }
+  }
+}
+
+// Registry entry; matches every URL, so it is the fallback for everything else
+export const genericScraperDefinition: ScraperDefinition = {
+  platform: 'external',
+  priority: 0,
+  detect: () => true,
+  // Host and path, keeping query parameters other than utm_* since some stores identify products by them
+  productKey: url => {
+    const urlObj = new URL(url);
+    const params = Array.from(urlObj.searchParams.entries())
+      .filter(([name]) => !name.toLowerCase().startsWith('utm_'))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+    return `${urlObj.hostname.toLowerCase().replace(/^www\./, '')}${urlObj.pathname.replace(/\/+$/, '')}${query}`;
+  },
+  create: ({ httpClient }) => new GenericExternalScraper(httpClient)
+};
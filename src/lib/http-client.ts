@@ -0,0 +1,68 @@
+// Minimal HTTP client used by the scrapers; swap it out to replay saved pages or route through a proxy
+
+export interface HttpRequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  redirect?: 'follow' | 'manual'; // 'manual' returns 3xx responses as they are, with their Location header
+}
+
+export interface HttpResponse {
+  status: number;
+  url: string; // Final URL after redirects
+  headers: Headers;
+  body: string;
+}
+
+export interface HttpClient {
+  get(url: string, options?: HttpRequestOptions): Promise<HttpResponse>;
+}
+
+// Raised for non-2xx responses so callers can react to the status code
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly url: string,
+    public readonly headers?: Headers
+  ) {
+    super(`Request to ${url} failed with HTTP ${status}`);
+    this.name = 'HttpError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; CreatorsCookBot/1.0; +https://creatorscook.com)',
+  'Accept': 'text/html,application/xhtml+xml,application/json;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.8'
+};
+
+// Default client backed by the global fetch
+export class FetchHttpClient implements HttpClient {
+  async get(url: string, options?: HttpRequestOptions): Promise<HttpResponse> {
+    const timeout = AbortSignal.timeout(options?.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const signal = options?.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    const response = await fetch(url, {
+      headers: { ...DEFAULT_HEADERS, ...options?.headers },
+      redirect: options?.redirect ?? 'follow',
+      signal
+    });
+
+    const isRedirect = options?.redirect === 'manual' && response.status >= 300 && response.status < 400;
+    if (!response.ok && !isRedirect) {
+      throw new HttpError(response.status, url, response.headers);
+    }
+
+    return {
+      status: response.status,
+      url: response.url || url,
+      headers: response.headers,
+      body: await response.text()
+    };
+  }
+}
+
+// Singleton instance
+export const defaultHttpClient = new FetchHttpClient();
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from './supabase';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// How long a key can be replayed before it may be reused for a new request
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+interface StoredIdempotencyKey {
+  id: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response_status?: number;
+  response_body?: unknown;
+  expires_at: string;
+}
+
+// What reserve found: the key is now ours, another request holds it, or it changed hands before it could be read
+type Reservation = 'reserved' | StoredIdempotencyKey | 'unavailable';
+
+export class IdempotencyService {
+  private supabase = createClient('service');
+
+  // Run a mutating handler at most once per Idempotency-Key, replaying the stored response afterwards
+  async run(
+    request: NextRequest,
+    userId: string,
+    handler: () => Promise<NextResponse>
+  ): Promise<NextResponse> {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (!key) {
+      return handler();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return NextResponse.json(
+        { error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { pathname } = new URL(request.url);
+    const body = await request.clone().text();
+    const requestHash = createHash('sha256').update(`${request.method}\n${pathname}\n${body}`).digest('hex');
+
+    const existing = await this.reserve(userId, key, request.method, pathname, requestHash);
+
+    if (existing === 'unavailable') {
+      return NextResponse.json(
+        { error: 'Another request is using this Idempotency-Key; retry shortly' },
+        { status: 409 }
+      );
+    }
+
+    if (existing !== 'reserved') {
+      if (existing.request_hash !== requestHash) {
+        return NextResponse.json(
+          { error: 'Idempotency-Key was already used for a different request' },
+          { status: 422 }
+        );
+      }
+
+      if (existing.status === 'in_progress') {
+        return NextResponse.json(
+          { error: 'A request with this Idempotency-Key is still being processed' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(existing.response_body, {
+        status: existing.response_status,
+        headers: { 'Idempotent-Replayed': 'true' }
+      });
+    }
+
+    let response: NextResponse;
+    try {
+      response = await handler();
+    } catch (error) {
+      await this.release(userId, key);
+      throw error;
+    }
+
+    // Server errors are not remembered so the client can retry with the same key
+    if (response.status >= 500) {
+      await this.release(userId, key);
+      return response;
+    }
+
+    const responseBody = await response.clone().json().catch(() => null);
+    await this.supabase
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: response.status,
+        response_body: responseBody
+      })
+      .eq('user_id', userId)
+      .eq('idempotency_key', key);
+
+    return response;
+  }
+
+  // Claim the key for this request; returns the stored key when another request already holds it
+  private async reserve(
+    userId: string,
+    key: string,
+    method: string,
+    path: string,
+    requestHash: string
+  ): Promise<Reservation> {
+    const insertKey = async () => {
+      const { error } = await this.supabase
+        .from('idempotency_keys')
+        .insert({
+          user_id: userId,
+          idempotency_key: key,
+          request_method: method,
+          request_path: path,
+          request_hash: requestHash,
+          expires_at: new Date(Date.now() + KEY_TTL_MS).toISOString()
+        });
+
+      if (error && error.code !== UNIQUE_VIOLATION) {
+        throw new Error(`Failed to store idempotency key: ${error.message}`);
+      }
+      return !error;
+    };
+
+    const readKey = async () => {
+      const { data } = await this.supabase
+        .from('idempotency_keys')
+        .select('id, request_hash, status, response_status, response_body, expires_at')
+        .eq('user_id', userId)
+        .eq('idempotency_key', key)
+        .maybeSingle();
+      return data as StoredIdempotencyKey | null;
+    };
+
+    const isExpired = (stored: StoredIdempotencyKey) => new Date(stored.expires_at).getTime() < Date.now();
+
+    if (await insertKey()) {
+      return 'reserved';
+    }
+
+    // The row can vanish between the insert and the read when its holder releases it; running the handler then
+    // would leave the request unprotected, so the client is asked to retry instead
+    const existing = await readKey();
+    if (!existing) {
+      return 'unavailable';
+    }
+    if (!isExpired(existing)) {
+      return existing;
+    }
+
+    // An expired key is treated as unused, unless another request claims it first
+    await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('id', existing.id);
+
+    if (await insertKey()) {
+      return 'reserved';
+    }
+
+    const claimed = await readKey();
+    return claimed && !isExpired(claimed) ? claimed : 'unavailable';
+  }
+
+  // Forget a key whose request did not complete
+  private async release(userId: string, key: string): Promise<void> {
+    await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('user_id', userId)
+      .eq('idempotency_key', key)
+      .eq('status', 'in_progress');
+  }
+}
+
+// Singleton instance
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,93 @@
+import { createClient } from './supabase';
+import type { IngestionStep } from './ingestion-service';
+
+// Typed progress events emitted by the ingestion and angle reasoning services
+export type IngestionEvent =
+  | { type: 'step_started'; step: IngestionStep }
+  | { type: 'reviews_scraped'; count: number }
+  | { type: 'insights_stored'; pain_points: number; delight_factors: number }
+  | { type: 'packs_generated'; count: number }
+  | { type: 'completed' }
+  | { type: 'failed'; error: string; step?: IngestionStep }
+  | { type: 'cancelled' };
+
+export type IngestionEventType = IngestionEvent['type'];
+
+export interface IngestionEventRecord {
+  id: number;
+  product_container_id: string;
+  job_id?: string;
+  event: IngestionEvent;
+  created_at: string;
+}
+
+// Events after which no more progress will be reported for a job
+export const TERMINAL_INGESTION_EVENTS: IngestionEventType[] = ['completed', 'failed', 'cancelled'];
+
+export class IngestionEventService {
+  private supabase = createClient('service');
+
+  // Append an event to the container's progress log
+  async publish(productContainerId: string, event: IngestionEvent, jobId?: string): Promise<void> {
+    try {
+      const { type, ...data } = event;
+
+      const { error } = await this.supabase
+        .from('ingestion_events')
+        .insert({
+          product_container_id: productContainerId,
+          job_id: jobId,
+          type,
+          data
+        });
+
+      if (error) {
+        console.error('Error publishing ingestion event:', error);
+      }
+    } catch (error) {
+      // Progress reporting must never break the pipeline that emits it
+      console.error('Error publishing ingestion event:', error);
+    }
+  }
+
+  // Get events for a container newer than the given event ID, optionally for one job only
+  async getEventsSince(
+    productContainerId: string,
+    afterId: number,
+    jobId?: string
+  ): Promise<IngestionEventRecord[]> {
+    try {
+      let query = this.supabase
+        .from('ingestion_events')
+        .select('*')
+        .eq('product_container_id', productContainerId)
+        .gt('id', afterId)
+        .order('id', { ascending: true })
+        .limit(100);
+
+      if (jobId) {
+        query = query.eq('job_id', jobId);
+      }
+
+      const { data, error } = await query;
+
+      if (error || !data) {
+        return [];
+      }
+
+      return data.map((row: { id: number; product_container_id: string; job_id?: string; type: IngestionEventType; data: object; created_at: string }) => ({
+        id: row.id,
+        product_container_id: row.product_container_id,
+        job_id: row.job_id,
+        event: { type: row.type, ...row.data } as IngestionEvent,
+        created_at: row.created_at
+      }));
+    } catch (error) {
+      console.error('Error fetching ingestion events:', error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const ingestionEventService = new IngestionEventService();
@@ -1,286 +1,1045 @@
 import { createClient } from './supabase';
-import { scrapingManager, ScrapingResult, ScrapedReviewData } from './scraping-service';
+import { ScrapingResult, ScrapedProductData, ScrapedReviewData } from './scraping-service';
+import { scrapeCacheService } from './scrape-cache-service';
 import { updateProductContainerStatus } from './product-service';
 import { angleReasoningService } from './angle-reasoning-service';
+import { ingestionEventService, IngestionEvent } from './ingestion-events';
+import { jobQueue } from './job-queue';
+import { insightSnapshotService } from './snapshot-service';
+import { reviewService, fingerprintReview, NewReview } from './review-service';
+import { assessReviewQuality, ReviewQualityReport } from './review-quality';
+import { taxonomyService } from './taxonomy-service';
+import { ThemeMatcher, detectCategory, getTaxonomyVersion, normalizeText } from './theme-taxonomy';
+import { aspectSentimentModel, NEUTRAL_SENTIMENT } from './aspect-sentiment';
+import { themeDiscovery, splitSentences } from './theme-discovery';
+import { quoteParaphraseService } from './quote-paraphraser';
+import { redactionService } from './redaction-service';
+import { Redactor } from './redaction';
+import { detectLanguage, UNDETERMINED_LANGUAGE } from './language-detection';
+import { translator } from './translation';
+import { LanguageMix, ProductCategory, ProductContainer, Review, ReviewQualitySummary, ThemeSource } from '@/types/product';
 
 // Types for ingestion jobs
+export type IngestionJobStatus = 'pending' | 'scraping' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestionJobStatusChange {
+  status: IngestionJobStatus;
+  at: string;
+}
+
+export interface IngestionJobScrapeSummary {
+  product_name?: string;
+  review_count: number;
+  average_rating?: number;
+  warning?: string;
+  cached_at?: string; // Set when the scrape was served from the scrape cache
+}
+
+// Pipeline steps in execution order; each one saves a checkpoint when it succeeds
+export const INGESTION_STEPS = [
+  'scrape',
+  'update_product',
+  'process_reviews',
+  'store_insights',
+  'angle_reasoning'
+] as const;
+
+export type IngestionStep = typeof INGESTION_STEPS[number];
+
+export interface IngestionCheckpoint<T = undefined> {
+  completed_at: string;
+  output?: T;
+}
+
+export interface IngestionCheckpoints {
+  scrape?: IngestionCheckpoint<ScrapingResult>;
+  update_product?: IngestionCheckpoint;
+  process_reviews?: IngestionCheckpoint<ProcessedInsights>;
+  store_insights?: IngestionCheckpoint;
+  angle_reasoning?: IngestionCheckpoint;
+}
+
 export interface IngestionJob {
   id: string;
   product_container_id: string;
   product_url: string;
-  status: 'pending' | 'scraping' | 'processing' | 'completed' | 'failed';
+  status: IngestionJobStatus;
+  status_history: IngestionJobStatusChange[];
+  checkpoints: IngestionCheckpoints;
+  current_step?: IngestionStep;
+  failed_step?: IngestionStep;
+  resume_count: number;
   started_at?: string;
   completed_at?: string;
   error_message?: string;
-  scraped_data?: ScrapingResult;
+  scraped_summary?: IngestionJobScrapeSummary;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns that may be set alongside a status change; null clears a column
+type IngestionJobUpdate = {
+  [K in 'current_step' | 'failed_step' | 'started_at' | 'completed_at' | 'error_message']?: IngestionJob[K] | null;
+} & Partial<Pick<IngestionJob, 'resume_count' | 'scraped_summary'>>;
+
+// Payload of an 'ingestion' job on the background queue
+export interface IngestionQueuePayload {
+  ingestion_job_id: string;
+  product_container_id: string;
+  force_fresh?: boolean; // Bypass the scrape cache
+}
+
+export interface IngestionRunResult {
+  status: 'completed' | 'failed' | 'cancelled' | 'skipped';
+  error?: string;
 }
 
+// How often a running job checks whether it was cancelled from another process
+const CANCELLATION_POLL_INTERVAL_MS = 5000;
+
+export interface ResumeIngestionResult {
+  job_id: string;
+  resumed_from: IngestionStep;
+}
+
+// Themes a review contributes to and how it feels about each
+type ThemeAssignment = Pick<NewReview, 'pain_point_themes' | 'delight_factor_themes' | 'theme_sentiments' | 'sentiment_model'>;
+
+// A scraped review in English, with its original text when it was translated
+type LocalizedReview = ScrapedReviewData & Pick<NewReview, 'language' | 'original_title' | 'original_content'>;
+
+// Running totals for one theme while reviews are rolled up; the highest-ranked review excerpts become its quotes
+type ThemeTotals = { sentiment: number; mentions: number; weight: number; quotes: Array<{ quote: string; rank: number }> };
+
 // Process scraped reviews to extract pain points and delight factors
 export interface ProcessedInsights {
   pain_points: Array<{
     theme: string;
     sentiment: number;
     mentions: number;
+    weighted_mentions?: number;
     example_quotes: string[];
+    label?: string;
+    source?: ThemeSource;
   }>;
   delight_factors: Array<{
     theme: string;
     sentiment: number;
     mentions: number;
+    weighted_mentions?: number;
     example_quotes: string[];
+    label?: string;
+    source?: ThemeSource;
   }>;
+  review_quality?: ReviewQualitySummary;
+  language_mix?: LanguageMix;
+  taxonomy_version?: string; // Taxonomy and theme pack the themes were extracted with
 }
 
 export class IngestionService {
   private supabase = createClient('service');
 
+  // Abort controllers for jobs running in this process, keyed by product container ID
+  private activeJobs = new Map<string, AbortController>();
+
   // Start the ingestion process for a product container
-  async startIngestion(productContainerId: string, productUrl: string): Promise<string> {
+  async startIngestion(
+    productContainerId: string,
+    productUrl: string,
+    options?: { run_at?: Date; force_fresh?: boolean }
+  ): Promise<string> {
     const jobId = crypto.randomUUID();
 
-    // Update container status to scraping
+    // Record the job before any work happens so failures are always traceable
+    await this.createJob(jobId, productContainerId, productUrl);
+
+    // Update container status to scraping and clear any error left by a previous run
     await updateProductContainerStatus(productContainerId, 'scraping', undefined, {
-      scraping_job_id: jobId
+      scraping_job_id: jobId,
+      error_message: null
+    });
+
+    // Hand the work to the background worker
+    await this.enqueueJob(jobId, productContainerId, options?.run_at, options?.force_fresh);
+
+    return jobId;
+  }
+
+  // Start an ingestion for reviews imported by hand; the scrape step is recorded as done with the imported reviews
+  async startImport(
+    productContainerId: string,
+    productUrl: string,
+    productData: ScrapedProductData,
+    reviews: ScrapedReviewData[]
+  ): Promise<string> {
+    const jobId = crypto.randomUUID();
+    const scrapingResult: ScrapingResult = { success: true, product_data: productData, reviews };
+
+    await this.createJob(jobId, productContainerId, productUrl, {
+      scrape: { completed_at: new Date().toISOString(), output: scrapingResult }
+    }, this.summarizeScrapingResult(scrapingResult));
+
+    await updateProductContainerStatus(productContainerId, 'analyzing', undefined, {
+      scraping_job_id: jobId,
+      error_message: null
     });
 
-    // Start the ingestion process in the background
-    this.processIngestionAsync(jobId, productContainerId, productUrl).catch(console.error);
+    await this.enqueueJob(jobId, productContainerId);
 
     return jobId;
   }
 
-  // Main ingestion process
+  // Resume the latest failed or cancelled job for a container from its first unfinished step
+  async resumeIngestion(productContainerId: string): Promise<ResumeIngestionResult | null> {
+    const job = await this.getLatestJob(productContainerId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+      return null;
+    }
+
+    const checkpoints = job.checkpoints || {};
+    const resumeFrom = INGESTION_STEPS.find(step => !checkpoints[step]);
+    if (!resumeFrom) {
+      return null;
+    }
+
+    await this.updateJobStatus(job.id, 'pending', {
+      completed_at: null,
+      error_message: null,
+      failed_step: null,
+      resume_count: (job.resume_count || 0) + 1
+    });
+
+    await updateProductContainerStatus(
+      productContainerId,
+      resumeFrom === 'scrape' ? 'scraping' : 'analyzing',
+      undefined,
+      { error_message: null }
+    );
+
+    console.log(`Resuming ingestion job ${job.id} for container ${productContainerId} from step ${resumeFrom}`);
+    await this.enqueueJob(job.id, productContainerId);
+
+    return { job_id: job.id, resumed_from: resumeFrom };
+  }
+
+  // Run a queued ingestion job; called by the background worker
+  async runQueuedIngestion(
+    payload: IngestionQueuePayload,
+    options: { willRetry: boolean }
+  ): Promise<IngestionRunResult> {
+    const job = await this.getJobStatus(payload.ingestion_job_id);
+    if (!job) {
+      return { status: 'skipped', error: `Ingestion job ${payload.ingestion_job_id} not found` };
+    }
+
+    // Cancelled or finished jobs may still be sitting in the queue
+    if (job.status === 'cancelled' || job.status === 'completed') {
+      return { status: 'skipped' };
+    }
+
+    // The container may have been cancelled while this run waited in retry backoff
+    if (await this.getContainerStatus(job.product_container_id) === 'cancelled') {
+      return { status: 'skipped' };
+    }
+
+    return this.processIngestionAsync(
+      job.id,
+      job.product_container_id,
+      job.product_url,
+      job.checkpoints || {},
+      options.willRetry,
+      payload.force_fresh
+    );
+  }
+
+  // Put an ingestion job on the background queue
+  private async enqueueJob(jobId: string, productContainerId: string, runAt?: Date, forceFresh?: boolean): Promise<void> {
+    const payload: IngestionQueuePayload = {
+      ingestion_job_id: jobId,
+      product_container_id: productContainerId,
+      ...(forceFresh && { force_fresh: true })
+    };
+
+    await jobQueue.enqueue('ingestion', payload, { run_at: runAt });
+  }
+
+  // Main ingestion process, skipping any step that already has a checkpoint
   private async processIngestionAsync(
     jobId: string,
     productContainerId: string,
-    productUrl: string
-  ): Promise<void> {
+    productUrl: string,
+    checkpoints: IngestionCheckpoints,
+    willRetry: boolean,
+    forceFresh = false
+  ): Promise<IngestionRunResult> {
+    let currentStep: IngestionStep = INGESTION_STEPS[0];
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.activeJobs.set(productContainerId, controller);
+
+    // Abort in-flight scraping and AI calls as soon as a cancellation is recorded
+    const cancellationWatch = setInterval(() => {
+      this.throwIfCancelled(jobId, controller).catch(() => undefined);
+    }, CANCELLATION_POLL_INTERVAL_MS);
+
     try {
       console.log(`Starting ingestion job ${jobId} for container ${productContainerId}`);
 
       // Step 1: Scrape the product
-      await updateProductContainerStatus(productContainerId, 'scraping');
-      const scrapingResult = await scrapingManager.scrapeProduct(productUrl);
+      currentStep = 'scrape';
+      await this.throwIfCancelled(jobId, controller);
+      let scrapingResult = checkpoints.scrape?.output;
+      if (!scrapingResult) {
+        await updateProductContainerStatus(productContainerId, 'scraping');
+        await this.updateJobStatus(jobId, 'scraping', {
+          current_step: currentStep,
+          started_at: new Date().toISOString()
+        });
+        await this.emit(productContainerId, jobId, { type: 'step_started', step: currentStep });
+        scrapingResult = await scrapeCacheService.scrapeProduct(productUrl, signal, { forceFresh });
 
-      if (!scrapingResult.success) {
-        await updateProductContainerStatus(
-          productContainerId,
-          'failed',
-          scrapingResult.error
-        );
-        return;
+        if (!scrapingResult.success) {
+          throw new Error(scrapingResult.error || 'Scraping failed');
+        }
+
+        await this.emit(productContainerId, jobId, {
+          type: 'reviews_scraped',
+          count: scrapingResult.reviews?.length || 0
+        });
+
+        await this.saveCheckpoint(jobId, checkpoints, currentStep, scrapingResult);
+        await this.updateJobStatus(jobId, 'processing', {
+          scraped_summary: this.summarizeScrapingResult(scrapingResult)
+        });
+      } else {
+        await this.updateJobStatus(jobId, 'processing');
       }
 
       // Step 2: Update product information
-      await updateProductContainerStatus(productContainerId, 'analyzing', undefined, {
-        product_name: scrapingResult.product_data?.name,
-        product_description: scrapingResult.product_data?.description,
-        product_image_url: scrapingResult.product_data?.images?.[0]
-      });
+      currentStep = 'update_product';
+      await this.throwIfCancelled(jobId, controller);
+      if (!checkpoints.update_product) {
+        await this.updateJobStatus(jobId, 'processing', { current_step: currentStep });
+        await this.emit(productContainerId, jobId, { type: 'step_started', step: currentStep });
+        await updateProductContainerStatus(productContainerId, 'analyzing', undefined, {
+          product_name: scrapingResult.product_data?.name,
+          product_description: scrapingResult.product_data?.description,
+          product_image_url: scrapingResult.product_data?.images?.[0],
+          // Storefronts on their own domain are only identified once scraped (e.g. Shopify)
+          platform: scrapingResult.product_data?.platform as ProductContainer['platform'] | undefined,
+          marketplace: scrapingResult.product_data?.marketplace
+        });
+        await this.saveCheckpoint(jobId, checkpoints, currentStep);
+      }
 
       // Step 3: Process reviews and extract insights
-      const insights = await this.processReviews(scrapingResult.reviews || []);
+      currentStep = 'process_reviews';
+      await this.throwIfCancelled(jobId, controller);
+      let insights = checkpoints.process_reviews?.output;
+      if (!insights) {
+        await this.updateJobStatus(jobId, 'processing', { current_step: currentStep });
+        await this.emit(productContainerId, jobId, { type: 'step_started', step: currentStep });
+        insights = await this.processReviews(
+          productContainerId,
+          jobId,
+          scrapingResult.product_data?.platform || 'external',
+          scrapingResult.reviews || [],
+          signal
+        );
+        await this.saveCheckpoint(jobId, checkpoints, currentStep, insights);
+      }
 
       // Step 4: Store insights in database
-      await this.storeInsights(productContainerId, insights);
+      currentStep = 'store_insights';
+      await this.throwIfCancelled(jobId, controller);
+      if (!checkpoints.store_insights) {
+        await this.updateJobStatus(jobId, 'processing', { current_step: currentStep });
+        await this.emit(productContainerId, jobId, { type: 'step_started', step: currentStep });
+        await this.storeInsights(productContainerId, insights);
+        await insightSnapshotService.createSnapshot(
+          productContainerId,
+          jobId,
+          insights,
+          scrapingResult.reviews?.length || 0
+        );
+        await this.emit(productContainerId, jobId, {
+          type: 'insights_stored',
+          pain_points: insights.pain_points.length,
+          delight_factors: insights.delight_factors.length
+        });
+        await this.saveCheckpoint(jobId, checkpoints, currentStep);
+      }
 
       // Step 5: Generate virality packs using Angle Reasoning Engine
-      console.log(`Starting AI analysis for container ${productContainerId}`);
-      const aiSuccess = await angleReasoningService.startAngleReasoning(productContainerId);
+      currentStep = 'angle_reasoning';
+      await this.throwIfCancelled(jobId, controller);
+      if (!checkpoints.angle_reasoning) {
+        await this.updateJobStatus(jobId, 'processing', { current_step: currentStep });
+        await this.emit(productContainerId, jobId, { type: 'step_started', step: currentStep });
+        console.log(`Starting AI analysis for container ${productContainerId}`);
+        // The pipeline owns the container status, so webhooks fire once on the final outcome
+        const aiSuccess = await angleReasoningService.startAngleReasoning(productContainerId, {
+          signal,
+          job_id: jobId,
+          defer_status: true
+        });
 
-      if (!aiSuccess) {
-        throw new Error('AI analysis failed during angle reasoning');
+        signal.throwIfAborted();
+        if (!aiSuccess) {
+          throw new Error('AI analysis failed during angle reasoning');
+        }
+        await this.saveCheckpoint(jobId, checkpoints, currentStep);
       }
 
       // Step 6: Mark as completed
+      await this.throwIfCancelled(jobId, controller);
       await updateProductContainerStatus(
         productContainerId,
         'completed',
-        scrapingResult.warning
+        scrapingResult.warning,
+        { analysis_job_id: crypto.randomUUID() }
       );
+      await this.updateJobStatus(jobId, 'completed', {
+        current_step: null,
+        failed_step: null,
+        error_message: null,
+        completed_at: new Date().toISOString()
+      });
+      await this.emit(productContainerId, jobId, { type: 'completed' });
 
       console.log(`Completed ingestion job ${jobId} for container ${productContainerId}`);
+      return { status: 'completed' };
 
     } catch (error) {
-      console.error(`Ingestion job ${jobId} failed:`, error);
-      await updateProductContainerStatus(
-        productContainerId,
-        'failed',
-        error instanceof Error ? error.message : 'Unknown error occurred'
-      );
+      // Re-assert the cancelled status in case a step overwrote it after cancelIngestion ran
+      if (signal.aborted) {
+        console.log(`Ingestion job ${jobId} cancelled at step ${currentStep}`);
+        await updateProductContainerStatus(productContainerId, 'cancelled', 'Ingestion cancelled by user');
+        return { status: 'cancelled' };
+      }
+
+      console.error(`Ingestion job ${jobId} failed at step ${currentStep}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      await this.updateJobStatus(jobId, 'failed', {
+        failed_step: currentStep,
+        completed_at: new Date().toISOString(),
+        error_message: errorMessage
+      });
+
+      // The container only fails for good once the queue has no retries left
+      if (willRetry) {
+        await updateProductContainerStatus(productContainerId, currentStep === 'scrape' ? 'scraping' : 'analyzing', `Retrying after error: ${errorMessage}`);
+      } else {
+        await updateProductContainerStatus(productContainerId, 'failed', errorMessage);
+        await this.emit(productContainerId, jobId, { type: 'failed', error: errorMessage, step: currentStep });
+      }
+
+      return { status: 'failed', error: errorMessage };
+    } finally {
+      clearInterval(cancellationWatch);
+      if (this.activeJobs.get(productContainerId) === controller) {
+        this.activeJobs.delete(productContainerId);
+      }
     }
   }
 
-  // Process reviews to extract pain points and delight factors
-  private async processReviews(reviews: ScrapedReviewData[]): Promise<ProcessedInsights> {
-    const painPoints: Map<string, { sentiment: number; mentions: number; quotes: string[] }> = new Map();
-    const delightFactors: Map<string, { sentiment: number; mentions: number; quotes: string[] }> = new Map();
+  // Report progress for the job to anyone streaming the container's events
+  private async emit(productContainerId: string, jobId: string, event: IngestionEvent): Promise<void> {
+    await ingestionEventService.publish(productContainerId, event, jobId);
+  }
 
-    for (const review of reviews) {
-      const rating = review.rating;
-      const content = review.content.toLowerCase();
-      const sentiment = this.calculateSentiment(rating);
+  // Stop at a step boundary when the job was cancelled, including from another process
+  private async throwIfCancelled(jobId: string, controller: AbortController): Promise<void> {
+    controller.signal.throwIfAborted();
 
-      // Extract themes using keyword-based approach (simplified version)
-      const themes = this.extractThemes(content);
+    const { data: job } = await this.supabase
+      .from('ingestion_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single();
 
-      for (const theme of themes) {
-        const quote = this.transformQuote(review.content, review.title);
+    if (job?.status === 'cancelled') {
+      controller.abort(new Error('Ingestion cancelled by user'));
+      controller.signal.throwIfAborted();
+    }
+  }
 
-        if (sentiment < 0) {
-          // Pain point
-          if (!painPoints.has(theme)) {
-            painPoints.set(theme, { sentiment: 0, mentions: 0, quotes: [] });
-          }
-          const point = painPoints.get(theme)!;
-          point.sentiment += sentiment;
-          point.mentions += 1;
-          point.quotes.push(quote);
-        } else if (sentiment > 0.3) {
-          // Delight factor
-          if (!delightFactors.has(theme)) {
-            delightFactors.set(theme, { sentiment: 0, mentions: 0, quotes: [] });
-          }
-          const factor = delightFactors.get(theme)!;
-          factor.sentiment += sentiment;
-          factor.mentions += 1;
-          factor.quotes.push(quote);
-        }
-      }
+  // Persist a step's output so a resumed job can pick up after it
+  private async saveCheckpoint<K extends IngestionStep>(
+    jobId: string,
+    checkpoints: IngestionCheckpoints,
+    step: K,
+    output?: NonNullable<IngestionCheckpoints[K]>['output']
+  ): Promise<void> {
+    checkpoints[step] = { completed_at: new Date().toISOString(), output } as IngestionCheckpoints[K];
+
+    const { error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ checkpoints })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to save checkpoint for step ${step}: ${error.message}`);
     }
+  }
 
-    // Convert to final format with average sentiment
-    const processedPainPoints = Array.from(painPoints.entries())
-      .map(([theme, data]) => ({
-        theme,
-        sentiment: data.sentiment / data.mentions,
-        mentions: data.mentions,
-        example_quotes: data.quotes.slice(0, 3) // Limit to 3 quotes
-      }))
-      .filter(p => p.mentions >= 1) // Only include themes with at least 1 mention
-      .sort((a, b) => b.mentions - a.mentions);
+  // Get the most recent job for a container
+  private async getLatestJob(productContainerId: string): Promise<IngestionJob | null> {
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('product_container_id', productContainerId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    const processedDelightFactors = Array.from(delightFactors.entries())
-      .map(([theme, data]) => ({
-        theme,
-        sentiment: data.sentiment / data.mentions,
-        mentions: data.mentions,
-        example_quotes: data.quotes.slice(0, 3) // Limit to 3 quotes
-      }))
-      .filter(d => d.mentions >= 1) // Only include themes with at least 1 mention
-      .sort((a, b) => b.mentions - a.mentions);
+    if (error || !data) {
+      return null;
+    }
 
-    return {
-      pain_points: processedPainPoints,
-      delight_factors: processedDelightFactors
-    };
+    return data as IngestionJob;
   }
 
-  // Calculate sentiment based on rating (1-5 scale)
-  private calculateSentiment(rating: number): number {
-    // Convert 1-5 rating to -1 to 1 scale
-    return (rating - 3) / 2;
+  private async getContainerStatus(productContainerId: string): Promise<ProductContainer['status'] | null> {
+    const { data, error } = await this.supabase
+      .from('product_containers')
+      .select('status')
+      .eq('id', productContainerId)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data.status as ProductContainer['status'];
   }
 
-  // Extract themes from review content (simplified keyword-based approach)
-  private extractThemes(content: string): string[] {
-    const themes: string[] = [];
+  // Insert the job row in its initial pending state
+  private async createJob(
+    jobId: string,
+    productContainerId: string,
+    productUrl: string,
+    checkpoints: IngestionCheckpoints = {},
+    scrapedSummary?: IngestionJobScrapeSummary
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('ingestion_jobs')
+      .insert({
+        id: jobId,
+        product_container_id: productContainerId,
+        product_url: productUrl,
+        status: 'pending',
+        status_history: [{ status: 'pending', at: new Date().toISOString() }],
+        checkpoints,
+        scraped_summary: scrapedSummary
+      });
 
-    // Taste/Flavor related
-    if (content.match(/taste|flavor|gross|delicious|yummy|awful|good|bad/i)) {
-      themes.push('taste_quality');
+    if (error) {
+      throw new Error(`Failed to create ingestion job: ${error.message}`);
     }
+  }
+
+  // Move a job to a new status, appending the transition to its history
+  private async updateJobStatus(
+    jobId: string,
+    status: IngestionJobStatus,
+    additionalData?: IngestionJobUpdate
+  ): Promise<void> {
+    try {
+      const { data: job } = await this.supabase
+        .from('ingestion_jobs')
+        .select('status, status_history')
+        .eq('id', jobId)
+        .single();
+
+      // A cancelled job only leaves that state when it is explicitly resumed
+      if (job?.status === 'cancelled' && status !== 'pending') {
+        return;
+      }
 
-    // Price/Value related
-    if (content.match(/price|cost|expensive|cheap|worth|value|money/i)) {
-      themes.push('price_value');
+      const statusHistory: IngestionJobStatusChange[] = job?.status_history || [];
+      statusHistory.push({ status, at: new Date().toISOString() });
+
+      const { error } = await this.supabase
+        .from('ingestion_jobs')
+        .update({
+          status,
+          status_history: statusHistory,
+          ...additionalData
+        })
+        .eq('id', jobId);
+
+      if (error) {
+        console.error(`Error updating ingestion job ${jobId}:`, error);
+      }
+    } catch (error) {
+      // Job bookkeeping must never break the ingestion itself
+      console.error(`Error updating ingestion job ${jobId}:`, error);
     }
+  }
 
-    // Effectiveness/Results related
-    if (content.match(/work|result|effect|effective|useless|help|improve|better|worse/i)) {
-      themes.push('effectiveness');
+  // Keep only what is useful for debugging, not the full review payload
+  private summarizeScrapingResult(result: ScrapingResult): IngestionJobScrapeSummary {
+    const reviews = result.reviews || [];
+    const averageRating = reviews.length > 0
+      ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+      : undefined;
+
+    return {
+      product_name: result.product_data?.name,
+      review_count: reviews.length,
+      average_rating: averageRating,
+      warning: result.warning,
+      cached_at: result.cached_at
+    };
+  }
+
+  // Process reviews to extract pain points and delight factors
+  private async processReviews(
+    productContainerId: string,
+    jobId: string,
+    platform: string,
+    reviews: ScrapedReviewData[],
+    signal?: AbortSignal
+  ): Promise<ProcessedInsights> {
+    // Themes come from the user's taxonomy, using the pack for the product's category
+    const { matcher, taxonomyVersion } = await this.getThemeMatcher(productContainerId, reviews);
+
+    // Personal details and competitor brands are removed before review text reaches an AI model or a stored quote
+    const redactor = await redactionService.createRedactor(productContainerId);
+
+    // Only analyze reviews that earlier runs have not stored yet
+    const knownFingerprints = await reviewService.getFingerprints(productContainerId);
+    const unseenReviews: Array<{ fingerprint: string; review: ScrapedReviewData }> = [];
+
+    for (const review of reviews) {
+      signal?.throwIfAborted();
+
+      const fingerprint = fingerprintReview(platform, review);
+      if (knownFingerprints.has(fingerprint)) {
+        continue;
+      }
+      knownFingerprints.add(fingerprint);
+
+      unseenReviews.push({ fingerprint, review });
     }
 
-    // Quality/Build related
-    if (content.match(/quality|build|durable|cheaply|sturdy|fragile|well-made|poorly-made/i)) {
-      themes.push('build_quality');
+    // Reviews in other languages are analyzed in English, keeping what the reviewer wrote
+    const localizedReviews = await this.translateReviews(unseenReviews.map(({ review }) => review), redactor, signal);
+
+    const newThemes = await this.assignThemes(
+      localizedReviews.map(review => ({ ...review, sentiment: this.calculateSentiment(review.rating) })),
+      matcher,
+      redactor,
+      signal
+    );
+    const newReviews = unseenReviews.map(({ fingerprint }, index) =>
+      this.analyzeReview(platform, fingerprint, localizedReviews[index], newThemes[index], taxonomyVersion)
+    );
+
+    console.log(`Processing ${newReviews.length} new of ${reviews.length} scraped reviews for container ${productContainerId}`);
+    await reviewService.storeReviews(productContainerId, jobId, newReviews);
+
+    // Aggregate over every stored review so insights cover all runs; duplicates can only be found across all of them
+    const storedReviews = await reviewService.getReviews(productContainerId);
+
+    // Reviews themed with another taxonomy version, pack or sentiment model are themed again so every theme comes from one version
+    const staleReviews = storedReviews.filter(review =>
+      review.taxonomy_version !== taxonomyVersion || review.sentiment_model !== aspectSentimentModel.name
+    );
+    const staleThemes = await this.assignThemes(
+      staleReviews.map(review => ({ ...review, sentiment: Number(review.sentiment) })),
+      matcher,
+      redactor,
+      signal
+    );
+    staleReviews.forEach((review, index) => Object.assign(review, staleThemes[index], { taxonomy_version: taxonomyVersion }));
+    await reviewService.updateThemes(staleReviews);
+
+    const quality = assessReviewQuality(storedReviews);
+    await reviewService.updateQualityFlags(storedReviews, quality.assessments);
+
+    const { excluded } = quality.summary;
+    console.log(`Excluded ${excluded.duplicate} duplicate, ${excluded.near_duplicate} near-duplicate and ${excluded.incentivized} incentivized reviews for container ${productContainerId}`);
+
+    const insights = this.aggregateInsights(storedReviews, quality, signal);
+
+    // Optionally add themes the taxonomy misses, found by clustering review sentences
+    if (themeDiscovery.isEnabled()) {
+      const discovered = await this.discoverThemes(storedReviews, quality, matcher, redactor, signal);
+      console.log(`Discovered ${discovered.pain_points.length} pain points and ${discovered.delight_factors.length} delight factors for container ${productContainerId}`);
+
+      insights.pain_points = [...insights.pain_points, ...discovered.pain_points]
+        .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions));
+      insights.delight_factors = [...insights.delight_factors, ...discovered.delight_factors]
+        .sort((a, b) => (b.weighted_mentions ?? b.mentions) - (a.weighted_mentions ?? a.mentions));
     }
 
-    // Customer Service related
-    if (content.match(/service|support|customer|help|response|reply|company|seller/i)) {
-      themes.push('customer_service');
+    await this.paraphraseQuotes(insights, storedReviews, matcher, redactor, signal);
+    await redactionService.recordAudit(productContainerId, jobId, 'insights', redactor.getReport());
+
+    return { ...insights, language_mix: this.getLanguageMix(storedReviews), taxonomy_version: taxonomyVersion };
+  }
+
+  // Detect each review's language and translate those not in English, keeping the original title and content
+  private async translateReviews(
+    reviews: ScrapedReviewData[],
+    redactor: Redactor,
+    signal?: AbortSignal
+  ): Promise<LocalizedReview[]> {
+    const localized: LocalizedReview[] = reviews.map(review => ({
+      ...review,
+      language: review.language || detectLanguage(review.title ? `${review.title}. ${review.content}` : review.content)
+    }));
+
+    const byLanguage = new Map<string, LocalizedReview[]>();
+    for (const review of localized) {
+      if (!review.language || review.language === 'en' || review.language === UNDETERMINED_LANGUAGE) continue;
+      byLanguage.set(review.language, [...(byLanguage.get(review.language) || []), review]);
     }
 
-    // Shipping/Delivery related
-    if (content.match(/shipping|delivery|arrive|package|box|damaged|fast|slow/i)) {
-      themes.push('shipping_delivery');
+    for (const [language, group] of byLanguage) {
+      // Titles and content are translated separately so both can be kept
+      const texts = group.flatMap(review => (review.title ? [review.title, review.content] : [review.content]))
+        .map(text => redactor.redact(text));
+      const translations = await translator.translate(texts, language, signal);
+
+      let next = 0;
+      let translated = 0;
+      for (const review of group) {
+        const titleIndex = review.title ? next++ : -1;
+        const contentIndex = next++;
+        if (translations[contentIndex] === texts[contentIndex]) continue;
+
+        Object.assign(review, {
+          original_title: review.title ?? null,
+          original_content: review.content,
+          title: titleIndex === -1 ? review.title : translations[titleIndex],
+          content: translations[contentIndex]
+        });
+        translated += 1;
+      }
+
+      console.log(`Translated ${translated} of ${group.length} reviews from ${language} with the ${translator.name} translator`);
     }
 
-    // Ease of Use related
-    if (content.match(/easy|difficult|hard|simple|complicated|use|operate|setup/i)) {
-      themes.push('ease_of_use');
+    return localized;
+  }
+
+  // Count stored reviews by language; reviews stored before languages were recorded are detected now
+  private getLanguageMix(reviews: Review[]): LanguageMix {
+    const mix: LanguageMix = {};
+    for (const review of reviews) {
+      const language = review.language || detectLanguage(review.original_content || review.content);
+      mix[language] = (mix[language] || 0) + 1;
     }
+    return mix;
+  }
 
-    // Size/Fit related
-    if (content.match(/size|fit|large|small|big|tight|loose|comfortable|uncomfortable/i)) {
-      themes.push('size_fit');
+  // Replace each theme's review excerpts with paraphrased quotes, dropping any that stay too close to the whole review
+  private async paraphraseQuotes(
+    insights: ProcessedInsights,
+    reviews: Review[],
+    matcher: ThemeMatcher,
+    redactor: Redactor,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const labels = new Map(matcher.listThemes().map(theme => [theme.id, theme.label.toLowerCase()]));
+    const themes = [...insights.pain_points, ...insights.delight_factors];
+    const reviewTexts = reviews.map(review => (review.title ? `${review.title}. ${review.content}` : review.content));
+    const quotes = await quoteParaphraseService.paraphrase(
+      themes.flatMap(theme => theme.example_quotes.map(text => ({
+        text: redactor.redact(text),
+        theme: theme.label || labels.get(theme.theme) || theme.theme.replace(/_/g, ' '),
+        sentiment: theme.sentiment,
+        review: redactor.redact(reviewTexts.find(review => review.includes(text)) ?? text)
+      }))),
+      signal
+    );
+
+    let next = 0;
+    for (const theme of themes) {
+      const paraphrased = theme.example_quotes.map(() => quotes[next++]);
+      theme.example_quotes = Array.from(new Set(paraphrased
+        .filter((quote): quote is string => !!quote)
+        .map(quote => redactor.redact(quote))));
     }
+  }
+
+  // Load the user's taxonomy and pick the pack for the container's category, detecting and saving the category if unset
+  private async getThemeMatcher(
+    productContainerId: string,
+    reviews: ScrapedReviewData[]
+  ): Promise<{ matcher: ThemeMatcher; taxonomyVersion: string }> {
+    const { data: container, error } = await this.supabase
+      .from('product_containers')
+      .select('user_id, category, product_name, product_description')
+      .eq('id', productContainerId)
+      .single();
 
-    // Battery Life related (for electronics)
-    if (content.match(/battery|charge|last|long|short|power|dead/i)) {
-      themes.push('battery_life');
+    if (error || !container) {
+      throw new Error(`Failed to load product container ${productContainerId}`);
     }
 
-    // Appearance/Looks related
-    if (content.match(/look|appearance|color|design|beautiful|ugly|attractive|stylish/i)) {
-      themes.push('appearance');
+    const taxonomy = await taxonomyService.getTaxonomy(container.user_id);
+    let category: ProductCategory | null = container.category || null;
+
+    if (!category) {
+      category = detectCategory(
+        taxonomy,
+        { name: container.product_name, description: container.product_description },
+        reviews.slice(0, 200).map(review => review.content)
+      );
+      if (category) {
+        await this.supabase
+          .from('product_containers')
+          .update({ category })
+          .eq('id', productContainerId);
+      }
     }
 
-    // Smell/Arroma related
-    if (content.match(/smell|odor|scent|aroma|fragrance|stink|fresh|bad smell/i)) {
-      themes.push('smell_aroma');
+    return { matcher: new ThemeMatcher(taxonomy, category), taxonomyVersion: getTaxonomyVersion(taxonomy, category) };
+  }
+
+  // Score each theme a review mentions from the sentences that mention it. A review can feed a pain point and a
+  // delight factor at once; a mention with no opinion of its own takes the review's rating sentiment instead.
+  private async assignThemes(
+    reviews: Array<{ title?: string; content: string; sentiment: number }>,
+    matcher: ThemeMatcher,
+    redactor: Redactor,
+    signal?: AbortSignal
+  ): Promise<ThemeAssignment[]> {
+    const mentions = reviews.map(review =>
+      matcher.mentions(redactor.redact(review.title ? `${review.title}. ${review.content}` : review.content))
+    );
+    const scores = await aspectSentimentModel.score(mentions.flat(), signal);
+    let next = 0;
+
+    return reviews.map((review, index) => {
+      const themeScores = new Map<string, number[]>();
+      for (const mention of mentions[index]) {
+        themeScores.set(mention.theme, [...(themeScores.get(mention.theme) || []), scores[next++]]);
+      }
+
+      const painPointThemes: string[] = [];
+      const delightFactorThemes: string[] = [];
+      const themeSentiments: Record<string, number> = {};
+
+      for (const [theme, values] of themeScores) {
+        const { sentiment, kind } = this.classifyAspect(values, review.sentiment);
+        themeSentiments[theme] = sentiment;
+        if (kind === 'pain_point') painPointThemes.push(theme);
+        if (kind === 'delight_factor') delightFactorThemes.push(theme);
+      }
+
+      return {
+        pain_point_themes: painPointThemes,
+        delight_factor_themes: delightFactorThemes,
+        theme_sentiments: themeSentiments,
+        sentiment_model: aspectSentimentModel.name
+      };
+    });
+  }
+
+  // Whether a review's mentions of one theme make it a pain point or a delight factor, and with what sentiment
+  private classifyAspect(
+    scores: number[],
+    ratingSentiment: number
+  ): { sentiment: number; kind: 'pain_point' | 'delight_factor' | null } {
+    const aspect = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+
+    if (Math.abs(aspect) >= NEUTRAL_SENTIMENT) {
+      return { sentiment: Math.round(aspect * 100) / 100, kind: aspect < 0 ? 'pain_point' : 'delight_factor' };
     }
 
-    return themes.length > 0 ? themes : ['general_experience'];
+    // Same thresholds as rating-only analysis: any negative rating, or a clearly positive one
+    return {
+      sentiment: ratingSentiment,
+      kind: ratingSentiment < 0 ? 'pain_point' : ratingSentiment > 0.3 ? 'delight_factor' : null
+    };
   }
 
-  // Transform quotes to avoid copyright issues (legal compliance)
-  private transformQuote(content: string, title?: string): string {
-    // This is a simplified version - in production, this would use AI to transform
-    // the content while preserving the sentiment and key information
-    let transformed = content;
-
-    // Remove brand names and specific identifiers
-    transformed = transformed.replace(/\b[A-Z][a-z]+\s+[A-Z][a-z]+\b/g, 'this product');
-    transformed = transformed.replace(/\b[A-Z]{2,}\b/g, 'this brand');
-
-    // Simplify language while keeping sentiment
-    const replacements: [RegExp, string][] = [
-      [/absolutely wonderful/gi, 'really good'],
-      [/terrible awful/gi, 'very bad'],
-      [/completely useless/gi, 'did not work'],
-      [/exceeded expectations/gi, 'better than expected'],
-      [/highly recommend/gi, 'would recommend'],
-      [/waste of money/gi, 'not worth the price'],
-      [/love this product/gi, 'really like this'],
-      [/hate this product/gi, 'dislike this']
-    ];
-
-    for (const [pattern, replacement] of replacements) {
-      transformed = transformed.replace(pattern, replacement);
+  // Cluster the sentences of analyzed reviews into themes the taxonomy misses; discovery failing never fails the run
+  private async discoverThemes(
+    reviews: Review[],
+    quality: ReviewQualityReport,
+    matcher: ThemeMatcher,
+    redactor: Redactor,
+    signal?: AbortSignal
+  ): Promise<Pick<ProcessedInsights, 'pain_points' | 'delight_factors'>> {
+    const painPoints: Map<string, ThemeTotals> = new Map();
+    const delightFactors: Map<string, ThemeTotals> = new Map();
+    const labels = new Map<string, string>();
+
+    try {
+      const analyzed = new Map(reviews
+        .filter(review => quality.assessments.get(review.id)?.flag === null)
+        .map(review => [review.id, review]));
+      const sentences = Array.from(analyzed.values())
+        .flatMap(review => splitSentences(redactor.redact(review.content)).map(text => ({ review_id: review.id, text })));
+
+      const themes = await themeDiscovery.discover(sentences, matcher.listThemes(), signal);
+      const scores = await aspectSentimentModel.score(
+        themes.flatMap(theme => theme.sentences.map(sentence => ({ theme: theme.id, sentence: normalizeText(sentence.text) }))),
+        signal
+      );
+
+      let next = 0;
+      for (const theme of themes) {
+        labels.set(theme.id, theme.label);
+
+        // Group the theme's sentences by review, keeping each review's most typical sentence as its quote
+        const byReview = new Map<string, { scores: number[]; quote: string; rank: number }>();
+        theme.sentences.forEach((sentence, position) => {
+          const entry = byReview.get(sentence.review_id);
+          if (entry) {
+            entry.scores.push(scores[next++]);
+          } else {
+            byReview.set(sentence.review_id, { scores: [scores[next++]], quote: sentence.text, rank: -position });
+          }
+        });
+
+        for (const [reviewId, entry] of byReview) {
+          const review = analyzed.get(reviewId)!;
+          const weight = quality.assessments.get(reviewId)!.weight;
+          const { sentiment, kind } = this.classifyAspect(entry.scores, Number(review.sentiment));
+          if (!kind) continue;
+
+          const totals = kind === 'pain_point' ? painPoints : delightFactors;
+          if (!totals.has(theme.id)) {
+            totals.set(theme.id, { sentiment: 0, mentions: 0, weight: 0, quotes: [] });
+          }
+          const total = totals.get(theme.id)!;
+          total.sentiment += sentiment * weight;
+          total.mentions += 1;
+          total.weight += weight;
+          total.quotes.push({ quote: entry.quote, rank: entry.rank });
+        }
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error('Error discovering themes:', error);
+      return { pain_points: [], delight_factors: [] };
     }
 
-    // Add title if available
-    if (title) {
-      transformed = `${title}: ${transformed}`;
+    // A discovered theme needs at least two reviews on the same side to count
+    return {
+      pain_points: this.toThemeList(painPoints, labels).filter(theme => theme.mentions >= 2),
+      delight_factors: this.toThemeList(delightFactors, labels).filter(theme => theme.mentions >= 2)
+    };
+  }
+
+  // Build the stored record for a single review with the themes it contributes to
+  private analyzeReview(
+    platform: string,
+    fingerprint: string,
+    review: LocalizedReview,
+    themes: ThemeAssignment,
+    taxonomyVersion: string
+  ): NewReview {
+    return {
+      fingerprint,
+      platform,
+      author: review.author,
+      review_date: review.date,
+      rating: review.rating,
+      title: review.title,
+      content: review.content,
+      verified: review.verified,
+      helpful_count: review.helpful_count,
+      language: review.language,
+      original_title: review.original_title,
+      original_content: review.original_content,
+      sentiment: this.calculateSentiment(review.rating),
+      ...themes,
+      taxonomy_version: taxonomyVersion
+    };
+  }
+
+  // Roll stored reviews up into pain points and delight factors, leaving out excluded reviews and weighting the rest
+  private aggregateInsights(reviews: Review[], quality: ReviewQualityReport, signal?: AbortSignal): ProcessedInsights {
+    const painPoints: Map<string, ThemeTotals> = new Map();
+    const delightFactors: Map<string, ThemeTotals> = new Map();
+
+    for (const review of reviews) {
+      signal?.throwIfAborted();
+
+      const assessment = quality.assessments.get(review.id);
+      if (!assessment || assessment.flag) {
+        continue;
+      }
+
+      const quote = review.title ? `${review.title}. ${review.content}` : review.content;
+      const weight = assessment.weight;
+
+      for (const theme of review.pain_point_themes) {
+        if (!painPoints.has(theme)) {
+          painPoints.set(theme, { sentiment: 0, mentions: 0, weight: 0, quotes: [] });
+        }
+        const point = painPoints.get(theme)!;
+        point.sentiment += (review.theme_sentiments?.[theme] ?? Number(review.sentiment)) * weight;
+        point.mentions += 1;
+        point.weight += weight;
+        point.quotes.push({ quote, rank: weight });
+      }
+
+      for (const theme of review.delight_factor_themes) {
+        if (!delightFactors.has(theme)) {
+          delightFactors.set(theme, { sentiment: 0, mentions: 0, weight: 0, quotes: [] });
+        }
+        const factor = delightFactors.get(theme)!;
+        factor.sentiment += (review.theme_sentiments?.[theme] ?? Number(review.sentiment)) * weight;
+        factor.mentions += 1;
+        factor.weight += weight;
+        factor.quotes.push({ quote, rank: weight });
+      }
     }
 
-    return transformed;
+    return {
+      pain_points: this.toThemeList(painPoints),
+      delight_factors: this.toThemeList(delightFactors),
+      review_quality: quality.summary
+    };
+  }
+
+  // Convert to final format with weighted average sentiment, quoting the highest-ranked reviews; labelled themes are discovered ones
+  private toThemeList(themes: Map<string, ThemeTotals>, labels?: Map<string, string>): ProcessedInsights['pain_points'] {
+    return Array.from(themes.entries())
+      .map(([theme, data]) => ({
+        theme,
+        sentiment: data.sentiment / data.weight,
+        mentions: data.mentions,
+        weighted_mentions: Math.round(data.weight * 100) / 100,
+        example_quotes: [...data.quotes]
+          .sort((a, b) => b.rank - a.rank)
+          .slice(0, 3) // Limit to 3 quotes
+          .map(({ quote }) => quote),
+        ...(labels ? { label: labels.get(theme), source: 'discovered' as const } : {})
+      }))
+      .filter(t => t.mentions >= 1) // Only include themes with at least 1 mention
+      .sort((a, b) => b.weighted_mentions - a.weighted_mentions);
+  }
+
+  // Calculate sentiment based on rating (1-5 scale)
+  private calculateSentiment(rating: number): number {
+    // Convert 1-5 rating to -1 to 1 scale
+    return (rating - 3) / 2;
   }
 
   // Store insights in the database
   private async storeInsights(productContainerId: string, insights: ProcessedInsights): Promise<void> {
     try {
+      // Replace insights left by an earlier run so retries never duplicate themes
+      await this.supabase
+        .from('pain_points')
+        .delete()
+        .eq('product_container_id', productContainerId);
+
+      await this.supabase
+        .from('delight_factors')
+        .delete()
+        .eq('product_container_id', productContainerId);
+
       // Store pain points
       for (const painPoint of insights.pain_points) {
         await this.supabase
@@ -290,7 +1049,11 @@ export class IngestionService {
             theme: painPoint.theme,
             sentiment: painPoint.sentiment,
             mentions: painPoint.mentions,
-            example_quotes: painPoint.example_quotes
+            weighted_mentions: painPoint.weighted_mentions ?? painPoint.mentions,
+            example_quotes: painPoint.example_quotes,
+            taxonomy_version: insights.taxonomy_version,
+            label: painPoint.label ?? null,
+            source: painPoint.source ?? 'taxonomy'
           });
       }
 
@@ -303,10 +1066,22 @@ export class IngestionService {
             theme: delightFactor.theme,
             sentiment: delightFactor.sentiment,
             mentions: delightFactor.mentions,
-            example_quotes: delightFactor.example_quotes
+            weighted_mentions: delightFactor.weighted_mentions ?? delightFactor.mentions,
+            example_quotes: delightFactor.example_quotes,
+            taxonomy_version: insights.taxonomy_version,
+            label: delightFactor.label ?? null,
+            source: delightFactor.source ?? 'taxonomy'
           });
       }
 
+      // Record what the analysis left out and the languages it read so they can be shown next to the insights
+      if (insights.review_quality || insights.language_mix) {
+        await this.supabase
+          .from('product_containers')
+          .update({ review_quality: insights.review_quality, language_mix: insights.language_mix })
+          .eq('id', productContainerId);
+      }
+
       console.log(`Stored ${insights.pain_points.length} pain points and ${insights.delight_factors.length} delight factors for container ${productContainerId}`);
 
     } catch (error) {
@@ -315,21 +1090,50 @@ export class IngestionService {
     }
   }
 
-  // Get ingestion job status (for future use with real-time updates)
+  // Get ingestion job status
   async getJobStatus(jobId: string): Promise<IngestionJob | null> {
-    // This would typically query a jobs table
-    // For now, we'll return a basic implementation
-    return null;
+    try {
+      const { data, error } = await this.supabase
+        .from('ingestion_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data as IngestionJob;
+    } catch (error) {
+      console.error('Error fetching ingestion job:', error);
+      return null;
+    }
   }
 
-  // Cancel an ingestion job
+  // Cancel an ingestion job, stopping any in-flight scraping and AI calls
   async cancelIngestion(productContainerId: string): Promise<boolean> {
     try {
-      await updateProductContainerStatus(
-        productContainerId,
-        'failed',
-        'Ingestion cancelled by user'
-      );
+      const reason = 'Ingestion cancelled by user';
+
+      // Record the cancellation first so other processes stop at their next step
+      const job = await this.getLatestJob(productContainerId);
+
+      // A failed job waiting out its retry backoff still has a queued run; drop it
+      const queuedRetries = job
+        ? await jobQueue.deadLetterQueued('ingestion', 'ingestion_job_id', job.id, reason)
+        : 0;
+
+      if (job && (['pending', 'scraping', 'processing'].includes(job.status) || (job.status === 'failed' && queuedRetries > 0))) {
+        await this.updateJobStatus(job.id, 'cancelled', {
+          completed_at: new Date().toISOString(),
+          error_message: reason
+        });
+        await this.emit(productContainerId, job.id, { type: 'cancelled' });
+      }
+
+      this.activeJobs.get(productContainerId)?.abort(new Error(reason));
+
+      await updateProductContainerStatus(productContainerId, 'cancelled', reason);
       return true;
     } catch (error) {
       console.error('Error cancelling ingestion:', error);
@@ -0,0 +1,170 @@
+import { createClient } from './supabase';
+
+// Types for the background job queue
+export type QueueJobType = 'ingestion' | 'webhook_delivery';
+
+export type QueueJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface QueueJob<P = Record<string, unknown>> {
+  id: string;
+  job_type: QueueJobType;
+  payload: P;
+  status: QueueJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by?: string;
+  locked_at?: string;
+  last_error?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueOptions {
+  run_at?: Date;
+  max_attempts?: number;
+}
+
+// Retry backoff: 30s, 1m, 2m, ... capped at one hour, with jitter to spread retries out
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export function getRetryDelayMs(attempt: number): number {
+  const exponential = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  const jitter = exponential * 0.2 * Math.random();
+  return Math.round(exponential + jitter);
+}
+
+export class JobQueue {
+  private supabase = createClient('service');
+
+  // Add a job to the queue
+  async enqueue<P extends object>(
+    jobType: QueueJobType,
+    payload: P,
+    options?: EnqueueOptions
+  ): Promise<QueueJob<P>> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .insert({
+        job_type: jobType,
+        payload,
+        max_attempts: options?.max_attempts ?? 3,
+        run_at: (options?.run_at ?? new Date()).toISOString()
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to enqueue ${jobType} job: ${error?.message}`);
+    }
+
+    return data as QueueJob<P>;
+  }
+
+  // Claim due jobs for a worker; rows locked by other workers are skipped, not waited on
+  async claim(workerId: string, jobTypes: QueueJobType[], limit: number): Promise<QueueJob[]> {
+    if (limit <= 0) return [];
+
+    const { data, error } = await this.supabase.rpc('claim_queue_jobs', {
+      p_worker_id: workerId,
+      p_job_types: jobTypes,
+      p_limit: limit
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim jobs: ${error.message}`);
+    }
+
+    return (data || []) as QueueJob[];
+  }
+
+  // Refresh the lock on a running job so it is not treated as stale
+  async heartbeat(jobId: string, workerId: string): Promise<void> {
+    await this.supabase
+      .from('job_queue')
+      .update({ locked_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('locked_by', workerId);
+  }
+
+  // Mark a job as done
+  async complete(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_at: null
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      console.error(`Error completing queue job ${jobId}:`, error);
+    }
+  }
+
+  // Schedule a retry with backoff, or move the job to the dead-letter state when out of attempts
+  async fail(job: QueueJob, errorMessage: string): Promise<QueueJobStatus> {
+    const exhausted = job.attempts >= job.max_attempts;
+    const status: QueueJobStatus = exhausted ? 'dead' : 'queued';
+
+    const { error } = await this.supabase
+      .from('job_queue')
+      .update({
+        status,
+        last_error: errorMessage,
+        run_at: exhausted ? job.run_at : new Date(Date.now() + getRetryDelayMs(job.attempts)).toISOString(),
+        locked_by: null,
+        locked_at: null
+      })
+      .eq('id', job.id);
+
+    if (error) {
+      console.error(`Error failing queue job ${job.id}:`, error);
+    }
+
+    return status;
+  }
+
+  // Move queued jobs whose payload field matches to the dead-letter state so they never run; returns how many were moved
+  async deadLetterQueued(
+    jobType: QueueJobType,
+    payloadField: string,
+    value: string,
+    reason: string
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('job_queue')
+      .update({ status: 'dead', last_error: reason })
+      .eq('job_type', jobType)
+      .eq('status', 'queued')
+      .eq(`payload->>${payloadField}`, value)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to dead-letter ${jobType} jobs: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  // Release jobs whose worker stopped heartbeating
+  async requeueStale(staleAfterSeconds: number): Promise<number> {
+    const { data, error } = await this.supabase.rpc('requeue_stale_queue_jobs', {
+      p_stale_after_seconds: staleAfterSeconds
+    });
+
+    if (error) {
+      console.error('Error requeueing stale jobs:', error);
+      return 0;
+    }
+
+    return data || 0;
+  }
+}
+
+// Singleton instance
+export const jobQueue = new JobQueue();
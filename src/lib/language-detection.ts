@@ -0,0 +1,49 @@
+// ISO 639-1 code for text whose language could not be told
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Frequent words of each Latin-script language that reviews are written in; words shared by several languages are left out
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'it', 'this', 'that', 'was', 'for', 'with', 'not', 'very', 'but', 'my', 'have', 'are', 'you', 'of', 'to', 'they', 'great', 'good', 'works', 'would', 'love', 'product', 'after', 'just', 'really'],
+  es: ['el', 'los', 'las', 'y', 'es', 'muy', 'por', 'para', 'con', 'una', 'lo', 'pero', 'mi', 'producto', 'bueno', 'buena', 'está', 'llegó', 'calidad', 'gracias', 'todo', 'como', 'más', 'recomiendo', 'hace'],
+  pt: ['o', 'os', 'e', 'é', 'muito', 'não', 'com', 'um', 'uma', 'mas', 'meu', 'minha', 'produto', 'bom', 'boa', 'chegou', 'você', 'qualidade', 'obrigado', 'tudo', 'bem', 'recomendo', 'ótimo', 'também', 'veio'],
+  de: ['der', 'das', 'und', 'ist', 'nicht', 'sehr', 'ich', 'mit', 'für', 'auf', 'ein', 'eine', 'aber', 'gut', 'zu', 'hat', 'auch', 'wie', 'kann', 'nur', 'noch', 'qualität'],
+  fr: ['le', 'les', 'et', 'est', 'très', 'pas', 'je', 'pour', 'avec', 'une', 'mais', 'bon', 'du', 'des', 'ce', 'produit', 'qualité', 'merci', 'tout', 'sont', 'au', 'conforme'],
+  it: ['è', 'molto', 'non', 'per', 'ma', 'che', 'di', 'prodotto', 'buono', 'sono', 'bene', 'qualità', 'grazie', 'tutto', 'anche', 'ottimo', 'arrivato', 'consiglio']
+};
+
+// Letters that only some languages use, each worth a stopword hit
+const SIGNATURE_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõ]/g,
+  de: /[ßäöü]/g,
+  fr: /[èêëœ]/g
+};
+
+const MIN_HITS = 2;
+
+// Best guess at a review's language as an ISO 639-1 code. Non-Latin scripts are told apart by script and
+// Latin-script text by stopwords; a single clue is enough when no other language has one, as in "Good!".
+export function detectLanguage(text: string): string {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (!letters) return UNDETERMINED_LANGUAGE;
+
+  const share = (pattern: RegExp) => (letters.match(pattern) || []).length / letters.length;
+  if (share(/\p{Script=Cyrillic}/gu) > 0.5) return 'ru';
+  if (share(/\p{Script=Hangul}/gu) > 0.3) return 'ko';
+  if (share(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) > 0.1) return 'ja';
+  if (share(/\p{Script=Han}/gu) > 0.3) return 'zh';
+  if (share(/\p{Script=Arabic}/gu) > 0.5) return 'ar';
+  if (share(/\p{Script=Latin}/gu) < 0.5) return UNDETERMINED_LANGUAGE;
+
+  const lower = text.toLowerCase();
+  const words = lower.split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = Object.entries(STOPWORDS).map(([language, stopwords]) => {
+    const hits = words.filter(word => stopwords.includes(word)).length;
+    const signature = SIGNATURE_LETTERS[language];
+    return { language, score: hits + (signature ? (lower.match(signature) || []).length : 0) };
+  });
+
+  const [best, runnerUp] = scores.sort((a, b) => b.score - a.score);
+  if (best.score > runnerUp.score && (best.score >= MIN_HITS || runnerUp.score === 0)) return best.language;
+  return UNDETERMINED_LANGUAGE;
+}
@@ -10,8 +10,13 @@ import {
   DelightFactor,
   BrandRule,
   Script,
-  ProductAnalytics
+  ProductAnalytics,
+  ProductCategory,
+  WebhookEventType
 } from '@/types/product';
+import { webhookService } from './webhook-service';
+import { scraperRegistry } from './scraper-registry';
+import { CanonicalUrl, urlCanonicalizer } from './url-canonicalizer';
 
 // Get a Supabase client with server-side auth
 function getServerClient() {
@@ -19,7 +24,7 @@ function getServerClient() {
 }
 
 // URL validation and platform detection
-function validateAndDetectPlatform(url: string): { valid: boolean; platform: string; error?: string } {
+export function validateAndDetectPlatform(url: string): { valid: boolean; platform: string; error?: string } {
   try {
     const urlObj = new URL(url);
 
@@ -29,31 +34,62 @@ function validateAndDetectPlatform(url: string): { valid: boolean; platform: str
     }
 
     // Detect platform
-    if (urlObj.hostname.includes('tiktok.com') && urlObj.pathname.includes('/shop/')) {
-      return { valid: true, platform: 'tiktok_shop' };
-    } else if (urlObj.hostname.includes('amazon.com') || urlObj.hostname.includes('amzn.to')) {
-      return { valid: true, platform: 'amazon' };
-    } else if (urlObj.hostname.includes('aliexpress.com') || urlObj.hostname.includes('s.click.aliexpress.com')) {
-      return { valid: true, platform: 'aliexpress' };
-    } else {
-      return { valid: true, platform: 'external' };
+    const detected = scraperRegistry.detectPlatform(url);
+    if (!detected) {
+      return { valid: false, platform: '', error: 'This URL is not supported' };
     }
+    if (!detected.enabled) {
+      return { valid: false, platform: detected.platform, error: `${detected.platform} links are currently not supported` };
+    }
+
+    return { valid: true, platform: detected.platform };
   } catch (error) {
     return { valid: false, platform: '', error: 'Invalid URL format' };
   }
 }
 
-// Create a new product container
+// Find the user's containers for the same product, by product identity when known
+async function findContainersForProduct(userId: string, productKey: string | null, canonicalUrl: string): Promise<string[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('product_containers')
+    .select('id')
+    .eq('user_id', userId)
+    .eq(productKey ? 'product_key' : 'canonical_url', productKey || canonicalUrl);
+
+  if (error) {
+    console.error('Error checking for duplicate product containers:', error);
+    return [];
+  }
+
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
+// Create a new product container; callers that already canonicalized the URL pass the result to skip resolving it again
 export async function createProductContainer(
   userId: string,
-  request: CreateProductRequest
+  request: CreateProductRequest,
+  canonicalUrl?: CanonicalUrl
 ): Promise<CreateProductResponse> {
   try {
-    // Validate URL and detect platform
-    const { valid, platform, error } = validateAndDetectPlatform(request.product_url);
-    if (!valid) {
-      return { success: false, error: error || 'Invalid URL' };
+    // Manual containers are never scraped, so a disabled scraper does not stop them
+    const manual = request.platform === 'manual';
+
+    // Validate the URL as entered, then follow short links and strip tracking before detecting the platform
+    const entered = validateAndDetectPlatform(request.product_url);
+    if (!entered.valid && !(manual && entered.platform)) {
+      return { success: false, error: entered.error || 'Invalid URL' };
+    }
+
+    const canonical = canonicalUrl || await urlCanonicalizer.canonicalize(request.product_url);
+    const detected = validateAndDetectPlatform(canonical.canonical_url);
+    if (!detected.valid && !(manual && detected.platform)) {
+      return { success: false, error: detected.error || 'Invalid URL' };
     }
+    const platform = manual ? 'manual' : detected.platform;
+
+    // Duplicates are allowed, but the user is told about them
+    const duplicateIds = await findContainersForProduct(userId, canonical.product_key, canonical.canonical_url);
 
     // Check if user has sufficient credits for external links
     if (platform === 'external') {
@@ -80,9 +116,14 @@ export async function createProductContainer(
       .from('product_containers')
       .insert({
         user_id: userId,
-        product_url: request.product_url,
+        product_url: canonical.canonical_url,
+        original_url: canonical.original_url,
+        canonical_url: canonical.canonical_url,
+        product_key: canonical.product_key,
         platform: platform,
-        status: 'pending'
+        category: request.category,
+        status: 'pending',
+        batch_id: request.batch_id
       })
       .select()
       .single();
@@ -104,7 +145,13 @@ export async function createProductContainer(
 
     return {
       success: true,
-      product_container: data as ProductContainer
+      product_container: data as ProductContainer,
+      ...(duplicateIds.length > 0 && {
+        warning: duplicateIds.length === 1
+          ? 'You already have a product container for this product.'
+          : `You already have ${duplicateIds.length} product containers for this product.`,
+        duplicate_container_ids: duplicateIds
+      })
     };
 
   } catch (error) {
@@ -113,6 +160,20 @@ export async function createProductContainer(
   }
 }
 
+// Use one angle credit for an analysis that is not charged when its container is created, e.g. imported reviews;
+// false when the user has none left
+export async function consumeAngleCredit(userId: string): Promise<boolean> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc('consume_angle_credit', { p_user_id: userId });
+
+  if (error) {
+    console.error('Error consuming angle credit:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
 // Get all product containers for a user
 export async function getUserProductContainers(userId: string): Promise<ProductContainer[]> {
   try {
@@ -210,6 +271,13 @@ export async function getProductContainerWithAnalysis(
   }
 }
 
+// Container statuses that notify webhook subscribers
+const CONTAINER_WEBHOOK_EVENTS: Partial<Record<ProductContainer['status'], WebhookEventType>> = {
+  completed: 'container.completed',
+  failed: 'container.failed',
+  cancelled: 'container.cancelled'
+};
+
 // Update product container status
 export async function updateProductContainerStatus(
   containerId: string,
@@ -229,12 +297,35 @@ export async function updateProductContainerStatus(
       updateData.error_message = errorMessage;
     }
 
+    // Read the previous status so webhooks only fire on an actual transition
+    const { data: previous } = await supabase
+      .from('product_containers')
+      .select('user_id, status')
+      .eq('id', containerId)
+      .single();
+
     const { error } = await supabase
       .from('product_containers')
       .update(updateData)
       .eq('id', containerId);
 
-    return !error;
+    if (error) {
+      return false;
+    }
+
+    if (previous && previous.status !== status) {
+      const eventType = CONTAINER_WEBHOOK_EVENTS[status];
+      if (eventType) {
+        await webhookService.dispatch(previous.user_id, eventType, {
+          product_container_id: containerId,
+          status,
+          previous_status: previous.status,
+          error_message: errorMessage || null
+        });
+      }
+    }
+
+    return true;
   } catch (error) {
     console.error('Error updating product container status:', error);
     return false;
@@ -308,7 +399,7 @@ export async function getUserAnalytics(userId: string): Promise<ProductAnalytics
     // Get product containers summary
     const { data: products } = await supabase
       .from('product_containers')
-      .select('status')
+      .select('id, status')
       .eq('user_id', userId);
 
     // Get virality packs for scores
@@ -360,4 +451,60 @@ export async function getUserAnalytics(userId: string): Promise<ProductAnalytics
       credits_used: 0
     };
   }
-}
\ No newline at end of file
+}
+
+// Set the category whose theme pack is used for a container; null lets the next analysis detect it
+export async function setProductCategory(
+  userId: string,
+  containerId: string,
+  category: ProductCategory | null
+): Promise<ProductContainer | null> {
+  try {
+    const supabase = getServerClient();
+
+    const { data, error } = await supabase
+      .from('product_containers')
+      .update({ category })
+      .eq('id', containerId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as ProductContainer;
+  } catch (error) {
+    console.error('Error setting product category:', error);
+    return null;
+  }
+}
+
+// Set the competitor brands redacted from a container's quotes and AI prompts
+export async function setCompetitorBrands(
+  userId: string,
+  containerId: string,
+  brands: string[]
+): Promise<ProductContainer | null> {
+  try {
+    const supabase = getServerClient();
+
+    const { data, error } = await supabase
+      .from('product_containers')
+      .update({ competitor_brands: brands })
+      .eq('id', containerId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as ProductContainer;
+  } catch (error) {
+    console.error('Error setting competitor brands:', error);
+    return null;
+  }
+}
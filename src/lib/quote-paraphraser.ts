@@ -0,0 +1,203 @@
+import { aiService } from './ai-service';
+import { validateAIConfig } from './ai-config';
+
+// A review excerpt to be rewritten as an example quote for a theme
+export interface QuoteSource {
+  text: string;
+  theme: string; // Readable theme name, e.g. "battery life"
+  sentiment: number; // -1.0 to 1.0
+  review?: string; // Whole review the excerpt came from, which quotes are checked against; defaults to the excerpt
+}
+
+// Rewrites review excerpts in new words, keeping what the reviewer thought of the theme; null when one cannot be
+export interface QuoteParaphraser {
+  name: string;
+  paraphrase(sources: QuoteSource[], signal?: AbortSignal): Promise<Array<string | null>>;
+}
+
+// Share of a quote's word trigrams that may also appear in its source review
+export const MAX_QUOTE_SIMILARITY = 0.35;
+const NGRAM_SIZE = 3;
+
+// Longest excerpt sent for paraphrasing; the rest of a long review rarely adds to one theme
+const MAX_SOURCE_LENGTH = 600;
+
+// Words that carry no detail of their own; negations are kept so "doesn't fit" keeps its meaning
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'as', 'if',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'it', 'its', 'this', 'that', 'these', 'those', 'there',
+  'i', 'me', 'my', 'mine', 'we', 'our', 'us', 'you', 'your', 'he', 'she', 'they', 'them', 'their', 'his', 'her',
+  'im', 'ive', 'id', 'ill', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would', 'could', 'should', 'can',
+  'just', 'really', 'very', 'too', 'also', 'then', 'than', 'here', 'what', 'which', 'who', 'when', 'while', 'after',
+  'before', 'because', 'about', 'into', 'out', 'up', 'down', 'over', 'again', 'any', 'some', 'more', 'most',
+  'much', 'many', 'such', 'only', 'even', 'still', 'honestly', 'literally', 'actually', 'basically', 'totally',
+  'super', 'lol', 'product', 'item', 'one', 'thing', 'get', 'got'
+]);
+
+// Opinion words say nothing the opening of the quote does not already say
+const OPINION_WORDS = new Set([
+  'love', 'loved', 'loves', 'like', 'liked', 'great', 'good', 'amazing', 'awesome', 'excellent', 'perfect', 'nice',
+  'best', 'happy', 'recommend', 'bad', 'terrible', 'awful', 'horrible', 'hate', 'hated', 'worst', 'disappointed',
+  'disappointing', 'ok', 'okay', 'fine'
+]);
+
+// Most details kept from an excerpt, and most words in each
+const MAX_DETAILS = 3;
+const MAX_DETAIL_WORDS = 3;
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, '').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+function ngrams(words: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + NGRAM_SIZE <= words.length; i++) {
+    grams.add(words.slice(i, i + NGRAM_SIZE).join(' '));
+  }
+  return grams;
+}
+
+// Share of the quote's word trigrams found in the source; quotes too short for trigrams compare whole words
+export function quoteSimilarity(source: string, quote: string): number {
+  const quoteWords = toWords(quote);
+  const sourceWords = toWords(source);
+  if (quoteWords.length === 0) return 0;
+
+  if (quoteWords.length < NGRAM_SIZE) {
+    const sourceSet = new Set(sourceWords);
+    return quoteWords.filter(word => sourceSet.has(word)).length / quoteWords.length;
+  }
+
+  const sourceGrams = ngrams(sourceWords);
+  const quoteGrams = Array.from(ngrams(quoteWords));
+  return quoteGrams.filter(gram => sourceGrams.has(gram)).length / quoteGrams.length;
+}
+
+// Whether a word is one of the theme's words or a form of one, e.g. "fits" for "fit" or "ship" for "shipping"
+function isThemeWord(word: string, themeWords: string[]): boolean {
+  return themeWords.some(theme =>
+    Math.min(word.length, theme.length) >= 3 && (word.startsWith(theme) || theme.startsWith(word))
+  );
+}
+
+// Runs of detail words from a sentence, in order, leaving out the theme's own words and bare opinions
+function extractDetails(sentence: string, themeWords: string[]): string[] {
+  const details: string[] = [];
+  let run: string[] = [];
+  const endRun = () => {
+    const detail = run.slice(0, MAX_DETAIL_WORDS).join(' ');
+    if (detail && !details.includes(detail)) details.push(detail);
+    run = [];
+  };
+
+  for (const token of sentence.toLowerCase().split(/[^\p{L}\p{N}'’]+/u)) {
+    const word = token.replace(/^['’]+|['’]+$/g, '');
+    const key = word.replace(/['’]/g, '');
+    if (!key || STOPWORDS.has(key) || OPINION_WORDS.has(key) || isThemeWord(key, themeWords)) {
+      endRun();
+    } else {
+      run.push(word.replace(/’/g, "'"));
+    }
+  }
+  endRun();
+
+  return details.slice(0, MAX_DETAILS);
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+// Offline paraphraser: what the reviewer thought of the theme, followed by the details they gave from the sentence
+// most about it. The reviewer's sentence is never kept, only its detail words, so quotes share no runs with the review.
+export class RuleBasedParaphraser implements QuoteParaphraser {
+  name = 'rules@2';
+
+  async paraphrase(sources: QuoteSource[]): Promise<Array<string | null>> {
+    return sources.map(source => this.rewrite(source));
+  }
+
+  private rewrite(source: QuoteSource): string | null {
+    const themeWords = toWords(source.theme).filter(word => !STOPWORDS.has(word));
+    const sentences = source.text.split(/(?<=[.!?])\s+|\n+/).filter(sentence => toWords(sentence).length > 0);
+    const themeMentions = (sentence: string) => toWords(sentence).filter(word => isThemeWord(word, themeWords)).length;
+    const [sentence] = [...sentences].sort((a, b) => themeMentions(b) - themeMentions(a));
+
+    // Without details the quote would be the same sentence for every review of the theme
+    const details = extractDetails(sentence || source.text, themeWords);
+    if (details.length === 0) return null;
+
+    return `${describeSentiment(source).replace(/\.$/, '')}, mentioning ${joinList(details)}.`;
+  }
+}
+
+// What the reviewer thought of the theme, without any of their wording
+export function describeSentiment(source: QuoteSource): string {
+  const strong = Math.abs(source.sentiment) >= 0.6;
+  if (source.sentiment < 0) {
+    return strong ? `A reviewer was very unhappy with the ${source.theme}.` : `A reviewer had some complaints about the ${source.theme}.`;
+  }
+  return strong ? `A reviewer was delighted with the ${source.theme}.` : `A reviewer was satisfied with the ${source.theme}.`;
+}
+
+// Paraphrases with the configured AI model, falling back to the rule-based paraphraser for batches it cannot rewrite
+export class AiQuoteParaphraser implements QuoteParaphraser {
+  name = 'ai@1';
+  private batchSize = 20;
+  private fallback = new RuleBasedParaphraser();
+
+  async paraphrase(sources: QuoteSource[], signal?: AbortSignal): Promise<Array<string | null>> {
+    const quotes: Array<string | null> = [];
+
+    for (let i = 0; i < sources.length; i += this.batchSize) {
+      const batch = sources.slice(i, i + this.batchSize);
+      try {
+        quotes.push(...await aiService.paraphraseQuotes(batch, signal));
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error('Error paraphrasing quotes with AI, using the rule-based paraphraser:', error);
+        quotes.push(...await this.fallback.paraphrase(batch));
+      }
+    }
+
+    return quotes;
+  }
+}
+
+export class QuoteParaphraseService {
+  private fallback = new RuleBasedParaphraser();
+
+  constructor(
+    private paraphraser: QuoteParaphraser = validateAIConfig().isValid ? new AiQuoteParaphraser() : new RuleBasedParaphraser()
+  ) {}
+
+  // Paraphrase review excerpts into quotes. Each candidate is checked against its whole review, falling back from the
+  // AI to the rule-based rewrite; null means no candidate was far enough from the review, and the quote is dropped.
+  async paraphrase(sources: QuoteSource[], signal?: AbortSignal): Promise<Array<string | null>> {
+    const trimmed = sources.map(source => ({ ...source, text: source.text.slice(0, MAX_SOURCE_LENGTH) }));
+    const quotes: Array<string | null> = await this.paraphraser.paraphrase(trimmed, signal);
+    const isSafe = (index: number, quote: string | null) =>
+      !!quote && quoteSimilarity(sources[index].review ?? sources[index].text, quote) <= MAX_QUOTE_SIMILARITY;
+
+    const retry = quotes.map((_, index) => index).filter(index => !isSafe(index, quotes[index]));
+    if (retry.length > 0 && !(this.paraphraser instanceof RuleBasedParaphraser)) {
+      const rewritten = await this.fallback.paraphrase(retry.map(index => trimmed[index]));
+      retry.forEach((index, position) => { quotes[index] = rewritten[position]; });
+    }
+
+    let dropped = 0;
+    quotes.forEach((quote, index) => {
+      if (isSafe(index, quote)) return;
+      quotes[index] = null;
+      dropped += 1;
+    });
+
+    if (dropped > 0) {
+      console.warn(`Dropped ${dropped} of ${sources.length} quotes that could not be rewritten far enough from their reviews`);
+    }
+    return quotes;
+  }
+}
+
+// Singleton instance
+export const quoteParaphraseService = new QuoteParaphraseService();
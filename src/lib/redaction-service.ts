@@ -0,0 +1,75 @@
+import { createClient } from './supabase';
+import { Redactor } from './redaction';
+import { RedactionAudit, RedactionReport } from '@/types/product';
+
+export class RedactionService {
+  private supabase = createClient('service');
+
+  // Get the competitor brands to redact for a container
+  async getCompetitorBrands(productContainerId: string): Promise<string[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('product_containers')
+        .select('competitor_brands')
+        .eq('id', productContainerId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to fetch competitor brands: ${error.message}`);
+      }
+
+      return data?.competitor_brands || [];
+    } catch (error) {
+      // Personal details are still redacted without the dictionary
+      console.error('Error fetching competitor brands:', error);
+      return [];
+    }
+  }
+
+  // Create a redactor with the container's competitor dictionary
+  async createRedactor(productContainerId: string): Promise<Redactor> {
+    return new Redactor(await this.getCompetitorBrands(productContainerId));
+  }
+
+  // Record what was redacted; the redacted values themselves are never stored
+  async recordAudit(
+    productContainerId: string,
+    ingestionJobId: string | null,
+    stage: RedactionAudit['stage'],
+    { counts, competitor_brands }: RedactionReport
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('redaction_audits')
+      .insert({
+        product_container_id: productContainerId,
+        ingestion_job_id: ingestionJobId,
+        stage,
+        counts,
+        competitor_brands
+      });
+
+    if (error) {
+      console.error('Error recording redaction audit:', error);
+    }
+  }
+
+  // Get a container's redaction audits, newest first
+  async getAudits(productContainerId: string, limit = 50): Promise<RedactionAudit[]> {
+    const { data, error } = await this.supabase
+      .from('redaction_audits')
+      .select('*')
+      .eq('product_container_id', productContainerId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching redaction audits:', error);
+      return [];
+    }
+
+    return data as RedactionAudit[];
+  }
+}
+
+// Singleton instance
+export const redactionService = new RedactionService();
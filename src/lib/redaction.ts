@@ -0,0 +1,126 @@
+import { RedactionCounts, RedactionReport, RedactionType } from '@/types/product';
+
+const MAX_COMPETITOR_BRANDS = 50;
+const MAX_BRAND_LENGTH = 60;
+
+const PLACEHOLDERS: Record<RedactionType, string> = {
+  email: '[email]',
+  phone: '[phone]',
+  order_number: '[order number]',
+  name: '[name]',
+  competitor: '[another brand]'
+};
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+
+// Amazon-style order IDs, and IDs that follow a word like "order" or "tracking"
+const ORDER_ID_PATTERN = /\b\d{3}-\d{7}-\d{7}\b/g;
+const LABELLED_ORDER_PATTERN = /\b((?:order|invoice|tracking|confirmation|ticket|case|rma)(?:\s+(?:no\.?|number|num|id|#))?(?:\s+is)?\s*[#:]?\s*)([A-Z0-9][A-Z0-9-]{4,})/gi;
+
+// Numbers shaped like phone numbers: a "+" country code ("+44 20 7946 0958"), 3-3-4 groups ("(555) 123-4567",
+// "555.123.4567") or a leading trunk zero ("020 7946 0958", "07700 900123"); 9 to 15 digits in total
+const PHONE_PATTERN = /(?<![\p{L}\p{N}+-])(?:\+\d{1,3}(?:[\s.-]?(?:\(\d{1,4}\)|\d{1,4})){2,5}|(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}|0\d{2,4}[\s.-]?\d{3,4}[\s.-]?\d{3,4})(?![\p{L}\p{N}-])/gu;
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/;
+
+// Years written side by side ("2024 2025 2026") can take a phone number's shape
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  const years = match.split(/\D+/).filter(group => YEAR_PATTERN.test(group)).length;
+  return digits.length >= 9 && digits.length <= 15 && years < 2;
+}
+
+// Names are only recognised where reviews commonly give them: relatives and carers, introductions, sign-offs, and
+// titled names followed by what the person said. A title alone is not enough, as brands use them ("Dr. Bronner soap").
+const NAME = "[A-Z][\\p{Ll}'-]+";
+const TITLE = '(?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.?';
+const NAME_PATTERNS: Array<{ pattern: RegExp; keepPrefix: boolean }> = [
+  {
+    pattern: new RegExp(`\\b${TITLE}\\s+${NAME}(?:\\s+${NAME})?(?=,?\\s+(?:said|says|told|tells|recommended|recommends|suggested|suggests|prescribed|advised|explained|mentioned)\\b)`, 'gu'),
+    keepPrefix: false
+  },
+  {
+    pattern: new RegExp(`(\\b(?:[Mm]y|[Oo]ur)\\s+(?:husband|wife|son|daughter|mom|mum|mother|dad|father|sister|brother|friend|boyfriend|girlfriend|partner|grandma|grandpa|grandson|granddaughter|niece|nephew|aunt|uncle|coworker|boss|doctor|dermatologist|dentist|vet|pediatrician|therapist|nurse),?\\s+)(?:${TITLE}\\s+)?${NAME}`, 'gu'),
+    keepPrefix: true
+  },
+  { pattern: new RegExp(`(\\b(?:[Mm]y name is|[Mm]y name's|[Cc]all me)\\s+)${NAME}(?:\\s+${NAME})?`, 'gu'), keepPrefix: true },
+  { pattern: new RegExp(`((?:^|[.!?\\n])\\s*[-–—~]\\s*)${NAME}(?:\\s+[A-Z]\\.?)?\\s*$`, 'gu'), keepPrefix: true }
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Check a competitor brand list before it is saved; returns an error message or null
+export function validateCompetitorBrands(brands: unknown): string | null {
+  if (!Array.isArray(brands)) return 'Competitor brands must be a list of names';
+  if (brands.length > MAX_COMPETITOR_BRANDS) return `No more than ${MAX_COMPETITOR_BRANDS} competitor brands are allowed`;
+  if (brands.some(brand => typeof brand !== 'string' || !brand.trim() || brand.trim().length > MAX_BRAND_LENGTH)) {
+    return `Each competitor brand must be 1 to ${MAX_BRAND_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Replaces personal details and competitor brand names with placeholders, counting what it removes. The same text
+// is redacted again at several pipeline stages, so each distinct value is only counted the first time.
+export class Redactor {
+  private counts: RedactionCounts = { email: 0, phone: 0, order_number: 0, name: 0, competitor: 0 };
+  private seen = new Set<string>();
+  private matchedBrands = new Set<string>();
+  private brands = new Map<string, string>();
+  private brandPattern?: RegExp;
+
+  constructor(competitorBrands: string[] = []) {
+    const names = competitorBrands.map(brand => brand.trim()).filter(Boolean);
+    names.forEach(brand => this.brands.set(brand.toLowerCase().replace(/\s+/g, ' '), brand));
+
+    if (names.length > 0) {
+      const alternatives = [...names]
+        .sort((a, b) => b.length - a.length)
+        .map(brand => escapeRegExp(brand).replace(/\s+/g, '\\s+'));
+      this.brandPattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    }
+  }
+
+  redact(text: string): string {
+    let redacted = text.replace(EMAIL_PATTERN, match => this.placeholder('email', match));
+    redacted = redacted
+      .replace(ORDER_ID_PATTERN, match => this.placeholder('order_number', match))
+      .replace(LABELLED_ORDER_PATTERN, (match, label: string, id: string) =>
+        /\d/.test(id) ? label + this.placeholder('order_number', id) : match
+      );
+    redacted = redacted.replace(PHONE_PATTERN, match =>
+      isPhoneNumber(match) ? this.placeholder('phone', match.replace(/\D/g, '')) : match
+    );
+
+    for (const { pattern, keepPrefix } of NAME_PATTERNS) {
+      redacted = redacted.replace(pattern, (match, prefix?: string) => {
+        const kept = keepPrefix && typeof prefix === 'string' ? prefix : '';
+        return kept + this.placeholder('name', match.slice(kept.length));
+      });
+    }
+
+    if (this.brandPattern) {
+      redacted = redacted.replace(this.brandPattern, match => {
+        const brand = this.brands.get(match.toLowerCase().replace(/\s+/g, ' ')) || match;
+        this.matchedBrands.add(brand);
+        return this.placeholder('competitor', brand);
+      });
+    }
+
+    return redacted;
+  }
+
+  // What has been redacted so far; competitor brands are listed by their dictionary entry
+  getReport(): RedactionReport {
+    return { counts: { ...this.counts }, competitor_brands: Array.from(this.matchedBrands) };
+  }
+
+  private placeholder(type: RedactionType, value: string): string {
+    const key = `${type}:${value.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+    if (!this.seen.has(key)) {
+      this.seen.add(key);
+      this.counts[type] += 1;
+    }
+    return PLACEHOLDERS[type];
+  }
+}
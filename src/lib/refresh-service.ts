@@ -0,0 +1,80 @@
+import { createClient } from './supabase';
+import { ingestionService } from './ingestion-service';
+import { ProductContainer, RefreshSchedule } from '@/types/product';
+
+export const REFRESH_SCHEDULES: RefreshSchedule[] = ['daily', 'weekly', 'monthly'];
+
+// Work out when a schedule next fires, counting from the given time
+export function getNextRefreshAt(schedule: RefreshSchedule, from: Date = new Date()): Date {
+  const next = new Date(from);
+  switch (schedule) {
+    case 'daily':
+      next.setDate(next.getDate() + 1);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+  }
+  return next;
+}
+
+export class RefreshService {
+  private supabase = createClient('service');
+
+  // Set or clear the refresh schedule for a container
+  async setSchedule(
+    userId: string,
+    productContainerId: string,
+    schedule: RefreshSchedule | null
+  ): Promise<ProductContainer | null> {
+    const { data, error } = await this.supabase
+      .from('product_containers')
+      .update({
+        refresh_schedule: schedule,
+        next_refresh_at: schedule ? getNextRefreshAt(schedule).toISOString() : null
+      })
+      .eq('id', productContainerId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as ProductContainer;
+  }
+
+  // Start a fresh ingestion for every container whose refresh is due
+  async runDueRefreshes(limit = 10): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('claim_due_refreshes', { p_limit: limit });
+
+      if (error) {
+        throw new Error(`Failed to claim due refreshes: ${error.message}`);
+      }
+
+      const containers = (data || []) as ProductContainer[];
+      for (const container of containers) {
+        // Manual containers only change when reviews are imported
+        if (container.platform === 'manual') {
+          continue;
+        }
+
+        console.log(`Starting scheduled ${container.refresh_schedule} refresh for container ${container.id}`);
+        await ingestionService.startIngestion(container.id, container.product_url, { force_fresh: true });
+      }
+
+      return containers.length;
+    } catch (error) {
+      console.error('Error running scheduled refreshes:', error);
+      return 0;
+    }
+  }
+}
+
+// Singleton instance
+export const refreshService = new RefreshService();
@@ -0,0 +1,196 @@
+import { HttpClient, HttpError, HttpRequestOptions, HttpResponse } from './http-client';
+import { delay } from './utils';
+
+export interface ResilienceOptions {
+  ratePerSecond: number; // Sustained requests per second to one host
+  burst: number; // Requests allowed back to back before the rate applies
+  maxRetries: number;
+  baseDelayMs: number; // Doubled on every retry, with jitter
+  maxDelayMs: number;
+  failureThreshold: number; // Consecutive transient failures that open a host's circuit
+  cooldownMs: number; // How long an open circuit rejects requests before letting one through
+}
+
+// Raised without making a request while a host's circuit is open
+export class CircuitOpenError extends Error {
+  constructor(public readonly host: string, public readonly retryAt: Date) {
+    super(`${host} is failing repeatedly; requests are paused until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Raised once a transient failure has outlasted every retry; the message carries the retry count and final cause
+export class RetriesExhaustedError extends Error {
+  constructor(public readonly url: string, public readonly retries: number, public readonly cause: unknown) {
+    super(`Gave up on ${new URL(url).hostname} after ${retries} ${retries === 1 ? 'retry' : 'retries'}: ${describeError(cause)}`);
+    this.name = 'RetriesExhaustedError';
+  }
+}
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getDefaultOptions(): ResilienceOptions {
+  return {
+    ratePerSecond: getNumberEnv('SCRAPER_RATE_LIMIT_PER_SECOND', 1),
+    burst: getNumberEnv('SCRAPER_RATE_LIMIT_BURST', 3),
+    maxRetries: getNumberEnv('SCRAPER_MAX_RETRIES', 3),
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    failureThreshold: getNumberEnv('SCRAPER_CIRCUIT_FAILURE_THRESHOLD', 5),
+    cooldownMs: getNumberEnv('SCRAPER_CIRCUIT_COOLDOWN_MS', 60000)
+  };
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof HttpError) return `HTTP ${error.status}`;
+  if (error instanceof Error && error.name === 'TimeoutError') return 'request timed out';
+  return error instanceof Error ? error.message : String(error);
+}
+
+// 429, 5xx, timeouts and network errors are worth retrying; anything else is final
+function isTransient(error: unknown): boolean {
+  if (error instanceof HttpError) return error.status === 408 || error.status === 429 || error.status >= 500;
+  if (error instanceof Error) return error.name === 'TimeoutError' || error instanceof TypeError;
+  return false;
+}
+
+// Delay requested by a Retry-After header, in seconds or as an HTTP date
+function getRetryAfterMs(error: unknown): number | undefined {
+  const header = error instanceof HttpError ? error.headers?.get('retry-after') : null;
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+// Token bucket that hands out reservations, so concurrent callers queue up in order
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private ratePerSecond: number, private burst: number) {
+    this.tokens = burst;
+  }
+
+  // Take a token and return how long to wait before it may be used
+  reserve(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : (-this.tokens / this.ratePerSecond) * 1000;
+  }
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+  probing: boolean; // A single request is testing a host whose cooldown has passed
+}
+
+// Wraps another client with per-host rate limiting, retries with exponential backoff and a circuit breaker.
+// State lives in this process; each worker limits itself independently.
+export class ResilientHttpClient implements HttpClient {
+  private options: ResilienceOptions;
+  private buckets = new Map<string, TokenBucket>();
+  private circuits = new Map<string, CircuitState>();
+
+  constructor(private inner: HttpClient, options?: Partial<ResilienceOptions>) {
+    this.options = { ...getDefaultOptions(), ...options };
+  }
+
+  async get(url: string, options?: HttpRequestOptions): Promise<HttpResponse> {
+    const host = new URL(url).hostname;
+
+    let lastError: unknown;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.checkCircuit(host);
+      } catch (error) {
+        // The circuit opened while this request was retrying
+        throw attempt > 0 ? new RetriesExhaustedError(url, attempt, lastError) : error;
+      }
+      await delay(this.getBucket(host).reserve(), options?.signal);
+
+      try {
+        const response = await this.inner.get(url, options);
+        this.recordSuccess(host);
+        return response;
+      } catch (error) {
+        // Cancellation and permanent errors (404 and the like) are passed straight through
+        if (options?.signal?.aborted || !isTransient(error)) {
+          if (error instanceof HttpError) {
+            this.recordSuccess(host); // The host answered, so it is up
+          } else {
+            this.releaseProbe(host);
+          }
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(host);
+        if (attempt >= this.options.maxRetries) {
+          throw new RetriesExhaustedError(url, attempt, error);
+        }
+
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        const wait = getRetryAfterMs(error) ?? backoff / 2 + Math.random() * (backoff / 2);
+        console.warn(`Retrying ${host} in ${Math.round(wait)}ms (${describeError(error)})`);
+        await delay(Math.min(wait, this.options.maxDelayMs * 2), options?.signal);
+      }
+    }
+  }
+
+  private getBucket(host: string): TokenBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.options.ratePerSecond, this.options.burst);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  private getCircuit(host: string): CircuitState {
+    let circuit = this.circuits.get(host);
+    if (!circuit) {
+      circuit = { failures: 0, openUntil: 0, probing: false };
+      this.circuits.set(host, circuit);
+    }
+    return circuit;
+  }
+
+  // Reject while the circuit is open; once the cooldown passes, let one probe request through
+  private checkCircuit(host: string): void {
+    const circuit = this.getCircuit(host);
+    if (circuit.failures < this.options.failureThreshold) return;
+
+    if (Date.now() < circuit.openUntil || circuit.probing) {
+      throw new CircuitOpenError(host, new Date(Math.max(circuit.openUntil, Date.now() + 1000)));
+    }
+    circuit.probing = true;
+  }
+
+  private recordSuccess(host: string): void {
+    this.circuits.set(host, { failures: 0, openUntil: 0, probing: false });
+  }
+
+  private recordFailure(host: string): void {
+    const circuit = this.getCircuit(host);
+    circuit.failures += 1;
+    circuit.probing = false;
+    if (circuit.failures >= this.options.failureThreshold) {
+      circuit.openUntil = Date.now() + this.options.cooldownMs;
+    }
+  }
+
+  private releaseProbe(host: string): void {
+    this.getCircuit(host).probing = false;
+  }
+}
@@ -0,0 +1,350 @@
+import { ScrapedReviewData } from './scraping-service';
+
+export const REVIEW_IMPORT_FORMATS = ['csv', 'json', 'text'] as const;
+
+export type ReviewImportFormat = typeof REVIEW_IMPORT_FORMATS[number];
+
+export type ReviewField = keyof ScrapedReviewData;
+
+// Which CSV column or JSON key holds each review field
+export type ReviewFieldMapping = Partial<Record<ReviewField, string>>;
+
+export interface ReviewImportOptions {
+  mapping?: ReviewFieldMapping;
+  default_rating?: number; // Used for reviews without a rating of their own
+}
+
+export interface ReviewImportResult {
+  reviews: ScrapedReviewData[];
+  skipped: Array<{ row: number; reason: string }>; // 1-based rows (CSV lines after the header, JSON items, text blocks)
+}
+
+// Raised when the input as a whole cannot be read; individual bad rows are skipped instead
+export class ReviewImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewImportError';
+  }
+}
+
+export const MAX_IMPORTED_REVIEWS = 5000;
+
+// Column names recognised when no mapping is given, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ReviewField, string[]> = {
+  content: ['content', 'review', 'reviewtext', 'reviewbody', 'body', 'text', 'comment', 'comments', 'message', 'description'],
+  rating: ['rating', 'stars', 'star', 'score', 'reviewrating', 'starrating', 'rate'],
+  title: ['title', 'reviewtitle', 'headline', 'subject', 'summary'],
+  author: ['author', 'name', 'reviewer', 'reviewername', 'customer', 'customername', 'user', 'username'],
+  date: ['date', 'reviewdate', 'createdat', 'created', 'publishedat', 'submittedat', 'time', 'timestamp'],
+  verified: ['verified', 'verifiedpurchase', 'verifiedbuyer', 'isverified'],
+  helpful_count: ['helpful', 'helpfulcount', 'helpfulvotes', 'votes', 'likes', 'upvotes'],
+  language: ['language', 'lang', 'locale', 'languagecode']
+};
+
+const REVIEW_FIELDS = Object.keys(FIELD_ALIASES) as ReviewField[];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Ratings as 4, "4.5", "4/5", "8/10", "4 stars" or "★★★★☆", scaled to 1-5
+export function parseRating(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? Math.min(5, Math.max(1, value)) : undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const stars = value.match(/★/g);
+  if (stars) return Math.max(1, stars.length);
+
+  const fraction = value.match(/(\d+(?:[.,]\d+)?)\s*(?:\/|out of)\s*(\d+)/i);
+  if (fraction) {
+    const scale = Number(fraction[2]);
+    return scale > 0 ? parseRating((Number(fraction[1].replace(',', '.')) / scale) * 5) : undefined;
+  }
+
+  const number = value.match(/\d+(?:[.,]\d+)?/);
+  return number ? parseRating(Number(number[0].replace(',', '.'))) : undefined;
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  return typeof value === 'string' && /^(true|yes|y|1|verified|verified purchase|verified buyer)$/i.test(value.trim());
+}
+
+function parseCount(value: unknown): number | undefined {
+  const count = typeof value === 'number' ? value : parseInt(String(value ?? '').replace(/[^\d]/g, ''), 10);
+  return Number.isFinite(count) && count >= 0 ? count : undefined;
+}
+
+function parseDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = typeof value === 'number' ? value : /^\d{9,13}$/.test(String(value).trim()) ? Number(value) : undefined;
+  const time = numeric !== undefined
+    ? numeric * (numeric < 1e12 ? 1000 : 1) // Unix seconds or milliseconds
+    : Date.parse(String(value));
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+// Language codes like "es" or locales like "pt-BR", reduced to the ISO 639 code
+function parseLanguage(value: unknown): string | undefined {
+  const code = getString(value)?.toLowerCase().split(/[-_]/)[0];
+  return code && /^[a-z]{2,3}$/.test(code) ? code : undefined;
+}
+
+function getString(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+// Turn one mapped record into a review, or the reason it cannot be used
+function toReview(
+  record: Partial<Record<ReviewField, unknown>>,
+  options: ReviewImportOptions
+): ScrapedReviewData | string {
+  const content = getString(record.content);
+  if (!content) return 'missing review text';
+
+  const rating = parseRating(record.rating) ?? (options.default_rating !== undefined ? parseRating(options.default_rating) : undefined);
+  if (rating === undefined) return 'missing or unreadable rating';
+
+  return {
+    rating,
+    title: getString(record.title),
+    content,
+    author: getString(record.author),
+    date: parseDate(record.date),
+    verified: parseBoolean(record.verified),
+    helpful_count: parseCount(record.helpful_count),
+    language: parseLanguage(record.language)
+  };
+}
+
+// Match each review field to a column, from the explicit mapping or the known aliases
+function resolveFields(columns: string[], mapping?: ReviewFieldMapping): Partial<Record<ReviewField, string>> {
+  const byKey = new Map(columns.map(column => [normalizeKey(column), column]));
+  const fields: Partial<Record<ReviewField, string>> = {};
+
+  for (const field of REVIEW_FIELDS) {
+    const mapped = mapping?.[field];
+    if (mapped) {
+      const column = columns.includes(mapped) ? mapped : byKey.get(normalizeKey(mapped));
+      if (!column) {
+        throw new ReviewImportError(`Column "${mapped}" mapped to ${field} was not found`);
+      }
+      fields[field] = column;
+    } else {
+      const alias = FIELD_ALIASES[field].find(name => byKey.has(name));
+      if (alias) fields[field] = byKey.get(alias);
+    }
+  }
+
+  if (!fields.content) {
+    throw new ReviewImportError('No review text column found; map one with mapping.content');
+  }
+
+  return fields;
+}
+
+// Map every record to a review; fields are resolved once for CSV, per record for JSON whose items differ in shape
+function collect(
+  records: Array<Record<string, unknown>>,
+  getFields: (record: Record<string, unknown>) => Partial<Record<ReviewField, string>>,
+  options: ReviewImportOptions
+): ReviewImportResult {
+  if (records.length > MAX_IMPORTED_REVIEWS) {
+    throw new ReviewImportError(`At most ${MAX_IMPORTED_REVIEWS} reviews can be imported at once`);
+  }
+
+  const result: ReviewImportResult = { reviews: [], skipped: [] };
+
+  records.forEach((record, index) => {
+    let fields: Partial<Record<ReviewField, string>>;
+    try {
+      fields = getFields(record);
+    } catch (error) {
+      if (!(error instanceof ReviewImportError)) throw error;
+      result.skipped.push({ row: index + 1, reason: error.message });
+      return;
+    }
+
+    const mapped: Partial<Record<ReviewField, unknown>> = {};
+    for (const field of REVIEW_FIELDS) {
+      const column = fields[field];
+      if (column) mapped[field] = record[column];
+    }
+
+    const review = toReview(mapped, options);
+    if (typeof review === 'string') {
+      result.skipped.push({ row: index + 1, reason: review });
+    } else {
+      result.reviews.push(review);
+    }
+  });
+
+  return result;
+}
+
+// Pick the delimiter that splits the header line into the most columns
+function detectDelimiter(headerLine: string): string {
+  return [',', ';', '\t', '|']
+    .map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+// RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks
+export function parseCsvRows(csv: string, delimiter?: string): string[][] {
+  const text = csv.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(text.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ReviewImportError('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Import a CSV export whose first row names the columns
+export function parseCsvReviews(csv: string, options: ReviewImportOptions = {}): ReviewImportResult {
+  const rows = parseCsvRows(csv);
+  if (rows.length < 2) {
+    throw new ReviewImportError('CSV needs a header row and at least one review');
+  }
+
+  const [header, ...body] = rows;
+  const columns = header.map(column => column.trim());
+  const records = body.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i]])));
+
+  const fields = resolveFields(columns, options.mapping);
+  return collect(records, () => fields, options);
+}
+
+// Import a JSON array of review objects, or an object with a "reviews" array
+export function parseJsonReviews(payload: unknown, options: ReviewImportOptions = {}): ReviewImportResult {
+  let data = payload;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      throw new ReviewImportError('Reviews are not valid JSON');
+    }
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : (data as { reviews?: unknown })?.reviews;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ReviewImportError('JSON must be a non-empty array of reviews or an object with a "reviews" array');
+  }
+
+  const records = items.map(item => (item && typeof item === 'object' ? item as Record<string, unknown> : {}));
+
+  return collect(records, record => resolveFields(Object.keys(record), options.mapping), options);
+}
+
+// A rating written on its own line or at the start of a block, e.g. "5/5", "★★★★☆" or "Rating: 4"
+const TEXT_RATING_PATTERN = /^\s*(?:rating:?\s*)?(★+☆*|\d(?:[.,]\d)?\s*(?:\/\s*\d+|out of \d+|stars?))\s*[-:–]?\s*/i;
+
+// Import pasted reviews, one per paragraph; a leading rating line or prefix is picked up when present
+export function parseTextReviews(text: string, options: ReviewImportOptions = {}): ReviewImportResult {
+  const blocks = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  if (blocks.length === 0) {
+    throw new ReviewImportError('No reviews found in the pasted text');
+  }
+
+  const records = blocks.map(block => {
+    const match = block.match(TEXT_RATING_PATTERN);
+    return {
+      rating: match?.[1],
+      content: (match ? block.slice(match[0].length) : block).replace(/\s*\n\s*/g, ' ')
+    };
+  });
+
+  return collect(records, () => ({ content: 'content', rating: 'rating' }), options);
+}
+
+// Check an import request body before it is parsed; returns an error message or null
+export function validateReviewImportRequest(body: unknown): string | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Request body must be a JSON object';
+
+  const { format, data, mapping, default_rating, product_name } = body as Record<string, unknown>;
+  if (typeof format !== 'string' || !(REVIEW_IMPORT_FORMATS as readonly string[]).includes(format)) {
+    return `Format must be one of: ${REVIEW_IMPORT_FORMATS.join(', ')}`;
+  }
+  if (data === undefined || data === null || (typeof data === 'string' && !data.trim())) return 'No reviews were sent in data';
+  if (format !== 'json' && typeof data !== 'string') {
+    return format === 'csv' ? 'CSV reviews must be sent as a string' : 'Pasted reviews must be sent as a string';
+  }
+  if (format === 'json' && typeof data !== 'string' && typeof data !== 'object') {
+    return 'JSON reviews must be an array, an object with "reviews", or a string';
+  }
+  if (mapping !== undefined && (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)
+    || Object.values(mapping).some(column => typeof column !== 'string'))) {
+    return 'Mapping must be an object of review fields to column names';
+  }
+  if (default_rating !== undefined && parseRating(default_rating) === undefined) {
+    return 'Default rating must be a rating such as 4 or "4/5"';
+  }
+  if (product_name !== undefined && typeof product_name !== 'string') return 'Product name must be a string';
+  return null;
+}
+
+// Parse an import in any supported format
+export function parseReviewImport(format: ReviewImportFormat, data: unknown, options: ReviewImportOptions = {}): ReviewImportResult {
+  switch (format) {
+    case 'csv':
+      if (typeof data !== 'string') throw new ReviewImportError('CSV reviews must be sent as a string');
+      return parseCsvReviews(data, options);
+    case 'json':
+      return parseJsonReviews(data, options);
+    case 'text':
+      if (typeof data !== 'string') throw new ReviewImportError('Pasted reviews must be sent as a string');
+      return parseTextReviews(data, options);
+    default:
+      throw new ReviewImportError('Format must be one of: csv, json, text');
+  }
+}
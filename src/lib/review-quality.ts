@@ -0,0 +1,155 @@
+import { Review, ReviewQualityFlag, ReviewQualitySummary } from '@/types/product';
+
+export type AssessableReview = Pick<Review, 'id' | 'title' | 'content' | 'verified' | 'helpful_count'>;
+
+export interface ReviewAssessment {
+  flag: ReviewQualityFlag | null; // Excluded from insights when set
+  duplicate_of?: string; // The earlier review a duplicate repeats
+  weight: number; // How much an analyzed review counts towards mentions and sentiment
+}
+
+export interface ReviewQualityReport {
+  assessments: Map<string, ReviewAssessment>;
+  summary: ReviewQualitySummary;
+}
+
+// Unverified reviews count half as much as verified ones
+export const UNVERIFIED_WEIGHT = 0.5;
+
+// Estimated Jaccard similarity of word shingles above which two reviews are near duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Short reviews like "Great product!" are legitimately repeated by different people
+const MIN_DUPLICATE_WORDS = 6;
+
+const SHINGLE_SIZE = 3;
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4; // Per band; bands × rows hash functions in total
+const MINHASH_SIZE = MINHASH_BANDS * MINHASH_ROWS;
+
+// Disclosures of free, discounted or sponsored products
+const INCENTIVIZED_PATTERNS: RegExp[] = [
+  /\b(received|got|was given|was sent)\b[^.!?]{0,40}\b(for free|free of charge|at no cost|complimentary|at a discount|discounted)\b/i,
+  /\bin exchange for (my |an? )?(honest |unbiased |fair )*(review|feedback|opinion)\b/i,
+  /\b(honest|unbiased) review in (exchange|return)\b/i,
+  /\b(free|discounted|complimentary|gifted) (product|sample|item|unit)\b[^.!?]{0,40}\breview\b/i,
+  /\b(provided|sent|supplied) (to me )?(by the (seller|brand|company|manufacturer))\b/i,
+  /\bvine (voice|customer review|program)\b/i,
+  /#(ad|sponsored|gifted|partner)\b/i
+];
+
+export function isIncentivized(text: string): boolean {
+  return INCENTIVIZED_PATTERNS.some(pattern => pattern.test(text));
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+// 32-bit FNV-1a
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer, seeded to give a family of independent hash functions
+function mixHash(value: number, seed: number): number {
+  let hash = (value ^ Math.imul(seed + 1, 0x9e3779b9)) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+// MinHash signature of a text's word shingles
+export function minHashSignature(words: string[]): number[] {
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= Math.max(words.length, SHINGLE_SIZE); i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const hash = mixHash(shingle, i);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+// Helpful votes raise a review's weight logarithmically: 9 votes double it, 99 triple it
+export function getReviewWeight(review: Pick<Review, 'verified' | 'helpful_count'>): number {
+  const helpfulness = 1 + Math.log10(1 + Math.max(0, review.helpful_count || 0));
+  return (review.verified ? 1 : UNVERIFIED_WEIGHT) * helpfulness;
+}
+
+// Flag duplicates, near duplicates and incentivized reviews and weight the rest.
+// Reviews must be oldest first: the earliest copy of a duplicated text is the one kept.
+export function assessReviewQuality(reviews: AssessableReview[]): ReviewQualityReport {
+  const assessments = new Map<string, ReviewAssessment>();
+  const summary: ReviewQualitySummary = {
+    total_reviews: reviews.length,
+    analyzed_reviews: 0,
+    excluded: { duplicate: 0, near_duplicate: 0, incentivized: 0 },
+    unverified_reviews: 0
+  };
+
+  const exactTexts = new Map<string, string>();
+  const signatures = new Map<string, number[]>();
+  const bands = new Map<string, string[]>();
+
+  for (const review of reviews) {
+    const words = toWords(review.content);
+    let assessment: ReviewAssessment = { flag: null, weight: getReviewWeight(review) };
+
+    if (words.length >= MIN_DUPLICATE_WORDS) {
+      const text = words.join(' ');
+      const signature = minHashSignature(words);
+      const bandKeys = Array.from({ length: MINHASH_BANDS }, (_, band) =>
+        `${band}:${signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(',')}`
+      );
+
+      const exactMatch = exactTexts.get(text);
+      const nearMatch = exactMatch ? undefined : Array.from(new Set(bandKeys.flatMap(key => bands.get(key) || [])))
+        .find(candidate => estimateSimilarity(signature, signatures.get(candidate)!) >= NEAR_DUPLICATE_THRESHOLD);
+
+      if (exactMatch) {
+        assessment = { flag: 'duplicate', duplicate_of: exactMatch, weight: 0 };
+      } else if (nearMatch) {
+        assessment = { flag: 'near_duplicate', duplicate_of: nearMatch, weight: 0 };
+      } else {
+        // Only reviews that are kept can be matched against later ones
+        exactTexts.set(text, review.id);
+        signatures.set(review.id, signature);
+        bandKeys.forEach(key => bands.set(key, [...(bands.get(key) || []), review.id]));
+      }
+    }
+
+    if (!assessment.flag && isIncentivized(`${review.title || ''} ${review.content}`)) {
+      assessment = { flag: 'incentivized', weight: 0 };
+    }
+
+    if (assessment.flag) {
+      summary.excluded[assessment.flag] += 1;
+    } else {
+      summary.analyzed_reviews += 1;
+      if (!review.verified) summary.unverified_reviews += 1;
+    }
+
+    assessments.set(review.id, assessment);
+  }
+
+  return { assessments, summary };
+}
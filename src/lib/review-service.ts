@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { createClient } from './supabase';
+import { ScrapedReviewData } from './scraping-service';
+import { ReviewAssessment } from './review-quality';
+import { Review, ReviewQualityFlag } from '@/types/product';
+
+// A review analyzed during ingestion, ready to be stored
+export type NewReview = Omit<Review, 'id' | 'product_container_id' | 'ingestion_job_id' | 'created_at'>;
+
+export type ReviewThemeKind = 'pain_point' | 'delight_factor';
+
+// Supabase caps a single select, so large containers are read in pages
+const PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+const UPDATE_CHUNK_SIZE = 100; // IDs go in the query string, so updates use smaller chunks
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Stable identity for a review across re-scrapes: platform, author, date and a hash of the content
+export function fingerprintReview(platform: string, review: ScrapedReviewData): string {
+  const contentHash = sha256(review.content.trim().toLowerCase().replace(/\s+/g, ' '));
+  const author = (review.author || '').trim().toLowerCase();
+  return sha256([platform, author, review.date || '', contentHash].join('|'));
+}
+
+export class ReviewService {
+  private supabase = createClient('service');
+
+  // Get the fingerprints of every review already stored for a container
+  async getFingerprints(productContainerId: string): Promise<Set<string>> {
+    const fingerprints = new Set<string>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('reviews')
+        .select('fingerprint')
+        .eq('product_container_id', productContainerId)
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch review fingerprints: ${error.message}`);
+      }
+
+      data.forEach((row: { fingerprint: string }) => fingerprints.add(row.fingerprint));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return fingerprints;
+  }
+
+  // Store newly seen reviews; reviews already stored are left untouched
+  async storeReviews(productContainerId: string, ingestionJobId: string, reviews: NewReview[]): Promise<void> {
+    for (let i = 0; i < reviews.length; i += INSERT_CHUNK_SIZE) {
+      const rows = reviews.slice(i, i + INSERT_CHUNK_SIZE).map(review => ({
+        ...review,
+        product_container_id: productContainerId,
+        ingestion_job_id: ingestionJobId
+      }));
+
+      const { error } = await this.supabase
+        .from('reviews')
+        .upsert(rows, { onConflict: 'product_container_id,fingerprint', ignoreDuplicates: true });
+
+      if (error) {
+        throw new Error(`Failed to store reviews: ${error.message}`);
+      }
+    }
+  }
+
+  // Save the quality flags that changed since the reviews were last assessed
+  async updateQualityFlags(reviews: Review[], assessments: Map<string, ReviewAssessment>): Promise<void> {
+    const changes = new Map<ReviewQualityFlag | null, string[]>();
+    for (const review of reviews) {
+      const flag = assessments.get(review.id)?.flag ?? null;
+      if (flag !== (review.quality_flag ?? null)) {
+        changes.set(flag, [...(changes.get(flag) || []), review.id]);
+        review.quality_flag = flag;
+      }
+    }
+
+    for (const [flag, ids] of changes) {
+      for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+        const { error } = await this.supabase
+          .from('reviews')
+          .update({ quality_flag: flag })
+          .in('id', ids.slice(i, i + UPDATE_CHUNK_SIZE));
+
+        if (error) {
+          throw new Error(`Failed to update review quality flags: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  // Save re-extracted themes for reviews that were themed with another taxonomy version
+  async updateThemes(reviews: Review[]): Promise<void> {
+    for (let i = 0; i < reviews.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await this.supabase
+        .from('reviews')
+        .upsert(reviews.slice(i, i + INSERT_CHUNK_SIZE), { onConflict: 'id' });
+
+      if (error) {
+        throw new Error(`Failed to update review themes: ${error.message}`);
+      }
+    }
+  }
+
+  // Get every stored review for a container, oldest first. Reviews stored in one chunk share created_at, so ties are
+  // broken by ID to keep pages stable and the same copy of a duplicate as the original on every run.
+  async getReviews(productContainerId: string): Promise<Review[]> {
+    const reviews: Review[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('reviews')
+        .select('*')
+        .eq('product_container_id', productContainerId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch reviews: ${error.message}`);
+      }
+
+      reviews.push(...(data as Review[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return reviews;
+  }
+
+  // Get the reviews that contributed to a pain point or delight factor
+  async getReviewsForTheme(
+    productContainerId: string,
+    kind: ReviewThemeKind,
+    theme: string,
+    options?: { limit?: number; offset?: number }
+  ): Promise<{ reviews: Review[]; total: number }> {
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+
+    try {
+      const { data, error, count } = await this.supabase
+        .from('reviews')
+        .select('*', { count: 'exact' })
+        .eq('product_container_id', productContainerId)
+        .contains(kind === 'pain_point' ? 'pain_point_themes' : 'delight_factor_themes', [theme])
+        .is('quality_flag', null) // Excluded reviews did not count towards the theme
+        .order('helpful_count', { ascending: false, nullsFirst: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch reviews for theme: ${error.message}`);
+      }
+
+      return { reviews: data as Review[], total: count || 0 };
+    } catch (error) {
+      console.error('Error fetching reviews for theme:', error);
+      return { reviews: [], total: 0 };
+    }
+  }
+}
+
+// Singleton instance
+export const reviewService = new ReviewService();
@@ -0,0 +1,160 @@
+import { createClient } from './supabase';
+import { scrapingManager, ScrapingResult } from './scraping-service';
+import { scraperRegistry } from './scraper-registry';
+
+export type ScrapeCacheEvent = 'hit' | 'miss' | 'bypass';
+
+export interface ScrapeCacheStats {
+  platform: string;
+  hits: number;
+  misses: number;
+  bypasses: number;
+  hit_rate: number; // Hits over hits + misses; forced fresh scrapes are left out
+}
+
+function getTtlMs(): number {
+  const hours = Number(process.env.SCRAPE_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+function toStats(platform: string, hits: number, misses: number, bypasses: number): ScrapeCacheStats {
+  return {
+    platform,
+    hits,
+    misses,
+    bypasses,
+    hit_rate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0
+  };
+}
+
+export class ScrapeCacheService {
+  private supabase = createClient('service');
+
+  // Scrape through the cache; a forced fresh scrape skips the lookup but still refreshes the entry
+  async scrapeProduct(url: string, signal?: AbortSignal, options?: { forceFresh?: boolean }): Promise<ScrapingResult> {
+    const identity = scraperRegistry.getProductKey(url);
+    const ttlMs = getTtlMs();
+
+    // Short links and pages without a product identity are always scraped
+    if (!identity || ttlMs === 0) {
+      return scrapingManager.scrapeProduct(url, signal);
+    }
+
+    if (options?.forceFresh) {
+      await this.recordEvent(identity.platform, 'bypass');
+    } else {
+      const cached = await this.get(identity.key);
+      if (cached) {
+        await this.recordEvent(identity.platform, 'hit', identity.key);
+        return cached;
+      }
+      await this.recordEvent(identity.platform, 'miss');
+    }
+
+    const result = await scrapingManager.scrapeProduct(url, signal);
+
+    // Failures are never cached so the next attempt scrapes again
+    if (result.success) {
+      await this.set(identity.key, identity.platform, url, result, ttlMs);
+    }
+
+    return result;
+  }
+
+  // Get per-platform hit and miss counts for the last few days
+  async getStats(days = 30): Promise<{ platforms: ScrapeCacheStats[]; total: ScrapeCacheStats }> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    try {
+      const { data, error } = await this.supabase
+        .from('scrape_cache_stats')
+        .select('platform, hits, misses, bypasses')
+        .gte('day', since);
+
+      if (error) {
+        throw new Error(`Failed to fetch scrape cache stats: ${error.message}`);
+      }
+
+      const totals = new Map<string, { hits: number; misses: number; bypasses: number }>();
+      for (const row of data as { platform: string; hits: number; misses: number; bypasses: number }[]) {
+        const total = totals.get(row.platform) || { hits: 0, misses: 0, bypasses: 0 };
+        total.hits += row.hits;
+        total.misses += row.misses;
+        total.bypasses += row.bypasses;
+        totals.set(row.platform, total);
+      }
+
+      const platforms = Array.from(totals.entries())
+        .map(([platform, total]) => toStats(platform, total.hits, total.misses, total.bypasses))
+        .sort((a, b) => b.hits + b.misses - (a.hits + a.misses));
+
+      return {
+        platforms,
+        total: toStats(
+          'all',
+          platforms.reduce((sum, stats) => sum + stats.hits, 0),
+          platforms.reduce((sum, stats) => sum + stats.misses, 0),
+          platforms.reduce((sum, stats) => sum + stats.bypasses, 0)
+        )
+      };
+    } catch (error) {
+      console.error('Error fetching scrape cache stats:', error);
+      return { platforms: [], total: toStats('all', 0, 0, 0) };
+    }
+  }
+
+  // Get an unexpired cached result, marked with when it was scraped
+  private async get(cacheKey: string): Promise<ScrapingResult | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('scrape_cache')
+        .select('result, scraped_at')
+        .eq('cache_key', cacheKey)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to read scrape cache: ${error.message}`);
+      }
+
+      return data ? { ...(data.result as ScrapingResult), cached_at: data.scraped_at } : null;
+    } catch (error) {
+      // A broken cache should never stop a scrape
+      console.error('Error reading scrape cache:', error);
+      return null;
+    }
+  }
+
+  private async set(cacheKey: string, platform: string, url: string, result: ScrapingResult, ttlMs: number): Promise<void> {
+    const now = new Date();
+    const { error } = await this.supabase
+      .from('scrape_cache')
+      .upsert({
+        cache_key: cacheKey,
+        platform,
+        product_url: url,
+        result,
+        scraped_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + ttlMs).toISOString()
+      }, { onConflict: 'cache_key' });
+
+    if (error) {
+      console.error('Error writing scrape cache:', error);
+    }
+  }
+
+  private async recordEvent(platform: string, event: ScrapeCacheEvent, cacheKey?: string): Promise<void> {
+    const { error } = await this.supabase.rpc('record_scrape_cache_event', {
+      p_platform: platform,
+      p_event: event,
+      p_cache_key: cacheKey ?? null
+    });
+
+    if (error) {
+      console.error('Error recording scrape cache event:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const scrapeCacheService = new ScrapeCacheService();
@@ -0,0 +1,140 @@
+import { HttpClient } from './http-client';
+import type { ScrapingService } from './scraping-service';
+import { tikTokShopScraperDefinition } from './tiktok-shop-scraper';
+import { amazonScraperDefinition } from './amazon-scraper';
+import { aliExpressScraperDefinition } from './aliexpress-scraper';
+import { shopifyScraperDefinition } from './shopify-scraper';
+import { genericScraperDefinition } from './generic-scraper';
+
+// Per-scraper settings, overridable with SCRAPER_<PLATFORM>_ENABLED / _API_KEY / _MAX_REVIEWS / _TIMEOUT_MS / _STAR_FILTERS
+export interface ScraperConfig {
+  enabled: boolean;
+  apiKey?: string;
+  maxReviews: number;
+  timeoutMs: number; // For a whole scrape, including review pages
+  starFilters?: string[]; // Review filters to page through, for scrapers that support them, e.g. ["critical", "positive"]
+}
+
+export interface ScraperFactoryOptions {
+  httpClient: HttpClient;
+  config: ScraperConfig;
+  next: ScrapingService; // The lower-priority scrapers, for URLs that turn out not to belong to this one
+}
+
+export interface ScraperDefinition {
+  platform: string; // Stored as ProductContainer.platform
+  priority: number; // Higher priorities are tried first
+  detect(url: string): boolean; // Whether the URL certainly belongs to this platform, without fetching it
+  productKey?(url: string): string | null; // Stable product identity (ASIN, item ID, ...); null when the URL has none
+  canonicalUrl?(url: string): string | null; // Shortest URL for the same product, e.g. https://www.amazon.de/dp/<ASIN>
+  shortLinkHosts?: string[]; // Share-link hosts that redirect to this platform's product pages
+  trackingParams?: string[]; // Lower-case query parameters this platform uses only for tracking; "pd_rd_*" matches a prefix
+  create(options: ScraperFactoryOptions): ScrapingService;
+  defaults?: Partial<ScraperConfig>;
+}
+
+export interface RegisteredScraper {
+  definition: ScraperDefinition;
+  config: ScraperConfig;
+}
+
+const DEFAULT_MAX_REVIEWS = 200;
+const DEFAULT_TIMEOUT_MS = 120000;
+
+function getPositiveNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function getList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+// Resolve a scraper's config from code overrides, then the environment, then its defaults
+function resolveConfig(definition: ScraperDefinition, override?: Partial<ScraperConfig>): ScraperConfig {
+  const prefix = `SCRAPER_${definition.platform.toUpperCase()}_`;
+  const env = (name: string) => process.env[prefix + name];
+  const enabled = env('ENABLED');
+
+  return {
+    enabled: override?.enabled
+      ?? (enabled !== undefined ? !['false', '0', 'off'].includes(enabled.toLowerCase()) : definition.defaults?.enabled ?? true),
+    apiKey: override?.apiKey ?? env('API_KEY') ?? definition.defaults?.apiKey,
+    maxReviews: override?.maxReviews
+      ?? getPositiveNumber(env('MAX_REVIEWS')) ?? definition.defaults?.maxReviews ?? DEFAULT_MAX_REVIEWS,
+    timeoutMs: override?.timeoutMs
+      ?? getPositiveNumber(env('TIMEOUT_MS')) ?? definition.defaults?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    starFilters: override?.starFilters ?? getList(env('STAR_FILTERS')) ?? definition.defaults?.starFilters
+  };
+}
+
+// The single list of scrapers used for both platform detection and scraping
+export class ScraperRegistry {
+  private scrapers: RegisteredScraper[] = [];
+
+  constructor(definitions: ScraperDefinition[] = [], private overrides: Record<string, Partial<ScraperConfig>> = {}) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  // Add a scraper, replacing any existing one for the same platform
+  register(definition: ScraperDefinition): void {
+    this.scrapers = this.scrapers
+      .filter(scraper => scraper.definition.platform !== definition.platform)
+      .concat({ definition, config: resolveConfig(definition, this.overrides[definition.platform]) })
+      .sort((a, b) => b.definition.priority - a.definition.priority);
+  }
+
+  // Every registered scraper, highest priority first
+  getScrapers(): RegisteredScraper[] {
+    return this.scrapers;
+  }
+
+  getEnabledScrapers(): RegisteredScraper[] {
+    return this.scrapers.filter(scraper => scraper.config.enabled);
+  }
+
+  getConfig(platform: string): ScraperConfig | null {
+    return this.scrapers.find(scraper => scraper.definition.platform === platform)?.config || null;
+  }
+
+  // Canonical identity of the product behind a URL, e.g. "amazon:amazon.de:B07XJ8C8F5"
+  getProductKey(url: string): { platform: string; key: string } | null {
+    const match = this.scrapers.find(scraper => scraper.definition.detect(url));
+    const key = match?.definition.productKey?.(url);
+    return match && key ? { platform: match.definition.platform, key: `${match.definition.platform}:${key}` } : null;
+  }
+
+  // Platform-specific canonical form of a URL, if the platform has one
+  getCanonicalUrl(url: string): string | null {
+    const match = this.scrapers.find(scraper => scraper.definition.detect(url));
+    return match?.definition.canonicalUrl?.(url) || null;
+  }
+
+  // Query parameters to strip from a URL besides the universal utm_* and click IDs
+  getTrackingParams(url: string): string[] {
+    const match = this.scrapers.find(scraper => scraper.definition.detect(url));
+    return match?.definition.trackingParams || [];
+  }
+
+  // Whether a URL is a share link that has to be followed to find the product
+  isShortLink(url: string): boolean {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return this.scrapers.some(scraper => scraper.definition.shortLinkHosts?.includes(hostname));
+  }
+
+  // Platform for a URL, from the highest-priority scraper that recognises it; disabled scrapers still claim their URLs
+  detectPlatform(url: string): { platform: string; enabled: boolean } | null {
+    const match = this.scrapers.find(scraper => scraper.definition.detect(url));
+    return match ? { platform: match.definition.platform, enabled: match.config.enabled } : null;
+  }
+}
+
+// Singleton instance
+export const scraperRegistry = new ScraperRegistry([
+  tikTokShopScraperDefinition,
+  amazonScraperDefinition,
+  aliExpressScraperDefinition,
+  shopifyScraperDefinition,
+  genericScraperDefinition
+]);
@@ -1,4 +1,7 @@
 import { ProductContainer } from '@/types/product';
+import { HttpClient, defaultHttpClient } from './http-client';
+import { ResilientHttpClient } from './resilient-http-client';
+import { ScraperConfig, ScraperRegistry, scraperRegistry } from './scraper-registry';
 
 // Types for scraped data
 export interface ScrapedProductData {
@@ -9,6 +12,7 @@ export interface ScrapedProductData {
   rating?: number;
   review_count?: number;
   platform: string;
+  marketplace?: string; // Regional storefront, e.g. "amazon.co.uk"
   original_url: string;
 }
 
@@ -20,6 +24,7 @@ export interface ScrapedReviewData {
   date?: string;
   verified: boolean;
   helpful_count?: number;
+  language?: string; // ISO 639-1 code when the platform reports it; detected otherwise
 }
 
 export interface ScrapingResult {
@@ -28,373 +33,68 @@ export interface ScrapingResult {
   reviews?: ScrapedReviewData[];
   error?: string;
   warning?: string;
+  cached_at?: string; // When the result came from the scrape cache, the time it was originally scraped
 }
 
 // Generic scraping service interface
 export interface ScrapingService {
-  scrapeProduct(url: string): Promise<ScrapingResult>;
+  scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult>;
   canHandle(url: string): boolean;
 }
 
-// Amazon scraper
-class AmazonScraper implements ScrapingService {
-  canHandle(url: string): boolean {
-    try {
-      const hostname = new URL(url).hostname;
-      return hostname.includes('amazon.com') || hostname.includes('amzn.to');
-    } catch {
-      return false;
-    }
-  }
-
-  async scrapeProduct(url: string): Promise<ScrapingResult> {
-    try {
-      // For now, return mock data - in production, this would use Apify or RapidAPI
-      const mockData = await this.mockAmazonScrape(url);
-      return { success: true, ...mockData };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to scrape Amazon product'
-      };
-    }
-  }
-
-  private async mockAmazonScrape(url: string): Promise<{ product_data: ScrapedProductData; reviews: ScrapedReviewData[] }> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Mock scraped data
-    const productData: ScrapedProductData = {
-      name: "Premium Greens Superfood Powder",
-      description: "Organic superfood blend with 25+ greens, probiotics, and digestive enzymes. Supports energy, immunity, and digestion.",
-      images: [
-        "https://example.com/product1.jpg",
-        "https://example.com/product2.jpg"
-      ],
-      price: "$39.99",
-      rating: 4.3,
-      review_count: 2847,
-      platform: 'amazon',
-      original_url: url
-    };
-
-    const reviews: ScrapedReviewData[] = [
-      {
-        rating: 5,
-        title: "Amazing energy boost!",
-        content: "I've been using this for 3 weeks and feel so much more energetic. The taste is actually pretty good compared to other greens powders I've tried.",
-        author: "Health Conscious",
-        date: "2024-11-10",
-        verified: true,
-        helpful_count: 234
-      },
-      {
-        rating: 2,
-        title: "Terrible taste",
-        content: "Couldn't get past the grassy taste. Mixed with everything but still overpowering. Gave to my friend who also couldn't drink it.",
-        author: "Disappointed Customer",
-        date: "2024-11-08",
-        verified: true,
-        helpful_count: 45
-      },
-      {
-        rating: 4,
-        title: "Good but expensive",
-        content: "Works well and I notice improved digestion, but the price is quite high for the amount you get. Will probably repurchase when on sale.",
-        author: "Budget Shopper",
-        date: "2024-11-05",
-        verified: true,
-        helpful_count: 89
-      },
-      {
-        rating: 5,
-        title: "Life changing!",
-        content: "My skin cleared up, I have more energy, and my gut health has never been better. Worth every penny!",
-        author: "Happy Customer",
-        date: "2024-11-03",
-        verified: true,
-        helpful_count: 156
-      },
-      {
-        rating: 3,
-        title: "Mixed feelings",
-        content: "Some benefits but not sure if worth the cost. Taste is okay when mixed with juice. No major side effects.",
-        author: "Neutral Reviewer",
-        date: "2024-11-01",
-        verified: false,
-        helpful_count: 12
-      }
-    ];
-
-    return { product_data: productData, reviews };
-  }
-}
-
-// AliExpress scraper
-class AliExpressScraper implements ScrapingService {
-  canHandle(url: string): boolean {
-    try {
-      const hostname = new URL(url).hostname;
-      return hostname.includes('aliexpress.com') || hostname.includes('s.click.aliexpress.com');
-    } catch {
-      return false;
-    }
+// Main scraping service manager, running the enabled scrapers from the registry in priority order
+export class ScrapingManager {
+  private scrapers: { platform: string; config: ScraperConfig; scraper: ScrapingService }[];
+
+  // The default client rate limits, retries and circuit-breaks per host; pass a plain client to bypass that
+  constructor(
+    httpClient: HttpClient = new ResilientHttpClient(defaultHttpClient),
+    private registry: ScraperRegistry = scraperRegistry
+  ) {
+    this.scrapers = registry.getEnabledScrapers().map(({ definition, config }, index) => ({
+      platform: definition.platform,
+      config,
+      scraper: definition.create({ httpClient, config, next: this.scrapersAfter(index + 1) })
+    }));
   }
 
-  async scrapeProduct(url: string): Promise<ScrapingResult> {
-    try {
-      // For now, return mock data - in production, this would use Apify or RapidAPI
-      const mockData = await this.mockAliExpressScrape(url);
-      return { success: true, ...mockData };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to scrape AliExpress product'
-      };
-    }
+  async scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    return this.scrapeFrom(0, url, signal);
   }
 
-  private async mockAliExpressScrape(url: string): Promise<{ product_data: ScrapedProductData; reviews: ScrapedReviewData[] }> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    const productData: ScrapedProductData = {
-      name: "Wireless Bluetooth Earbuds Pro",
-      description: "True wireless earbuds with noise cancellation, 24hr battery life, IPX7 waterproof rating. Premium sound quality.",
-      images: [
-        "https://example.com/earbuds1.jpg",
-        "https://example.com/earbuds2.jpg"
-      ],
-      price: "$29.99",
-      rating: 4.1,
-      review_count: 15420,
-      platform: 'aliexpress',
-      original_url: url
-    };
-
-    const reviews: ScrapedReviewData[] = [
-      {
-        rating: 5,
-        title: "Excellent quality!",
-        content: "Sound quality is amazing for this price. Noise cancellation works great. Battery lasts all day.",
-        author: "Tech Enthusiast",
-        date: "2024-11-12",
-        verified: true,
-        helpful_count: 892
-      },
-      {
-        rating: 1,
-        title: "Stopped working",
-        content: "Left earbud died after 2 weeks of use. Contacted seller but no response. Waste of money.",
-        author: "Frustrated Buyer",
-        date: "2024-11-09",
-        verified: true,
-        helpful_count: 234
-      },
-      {
-        rating: 4,
-        title: "Good value",
-        content: "Not as good as AirPods but for the price, I'm impressed. Comfortable fit and decent battery life.",
-        author: "Value Shopper",
-        date: "2024-11-07",
-        verified: true,
-        helpful_count: 445
-      },
-      {
-        rating: 5,
-        title: "Perfect for gym",
-        content: "Never falls out during workouts. Waterproof feature really works. Sound quality is better than expected.",
-        author: "Fitness Lover",
-        date: "2024-11-04",
-        verified: true,
-        helpful_count: 667
-      }
-    ];
-
-    return { product_data: productData, reviews };
+  // Get platform from URL
+  getPlatform(url: string): string {
+    return this.registry.detectPlatform(url)?.platform || 'external';
   }
-}
 
-// TikTok Shop scraper (placeholder for future integration)
-class TikTokShopScraper implements ScrapingService {
-  canHandle(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.hostname.includes('tiktok.com') && urlObj.pathname.includes('/shop/');
-    } catch {
-      return false;
-    }
-  }
+  // Scrape with the first scraper at or after the given position that can handle this URL
+  private async scrapeFrom(start: number, url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    const entry = this.scrapers.slice(start).find(s => s.scraper.canHandle(url));
 
-  async scrapeProduct(url: string): Promise<ScrapingResult> {
-    try {
-      // For TikTok Shop, we would integrate with the official TikTok Shop API
-      // For now, return mock data
-      const mockData = await this.mockTikTokShopScrape(url);
-      return { success: true, ...mockData };
-    } catch (error) {
+    if (!entry) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to scrape TikTok Shop product'
+        error: 'No suitable scraper found for this URL'
       };
     }
-  }
-
-  private async mockTikTokShopScrape(url: string): Promise<{ product_data: ScrapedProductData; reviews: ScrapedReviewData[] }> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
 
-    const productData: ScrapedProductData = {
-      name: "Viral TikTok Lip Gloss",
-      description: "Clear lip gloss with plumping effect and vanilla scent. As seen on TikTok with 10M+ views.",
-      images: [
-        "https://example.com/lipgloss1.jpg",
-        "https://example.com/lipgloss2.jpg"
-      ],
-      price: "$12.99",
-      rating: 4.6,
-      review_count: 8934,
-      platform: 'tiktok_shop',
-      original_url: url
-    };
-
-    const reviews: ScrapedReviewData[] = [
-      {
-        rating: 5,
-        title: "Obsessed!",
-        content: "This gloss is amazing! Makes my lips look so plump and shiny. The vanilla scent is divine.",
-        author: "Beauty Guru",
-        date: "2024-11-11",
-        verified: true,
-        helpful_count: 1203
-      },
-      {
-        rating: 4,
-        title: "Pretty but sticky",
-        content: "Looks great but feels a bit sticky. Lasts a long time though. Would buy again.",
-        author: "Mixed Feelings",
-        date: "2024-11-08",
-        verified: true,
-        helpful_count: 456
-      },
-      {
-        rating: 5,
-        title: "Worth the hype!",
-        content: "Saw this on TikTok and had to try it. So glad I did! My lips have never looked better.",
-        author: "TikTok Fan",
-        date: "2024-11-06",
-        verified: true,
-        helpful_count: 890
-      }
-    ];
-
-    return { product_data: productData, reviews };
-  }
-}
-
-// Generic external scraper for other platforms
-class GenericExternalScraper implements ScrapingService {
-  canHandle(url: string): boolean {
-    // This scraper can handle any URL
-    return true;
-  }
+    const timeout = AbortSignal.timeout(entry.config.timeoutMs);
+    const scrapeSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
 
-  async scrapeProduct(url: string): Promise<ScrapingResult> {
     try {
-      // For external sites, we would use more sophisticated scraping
-      // For now, return basic mock data
-      const mockData = await this.mockExternalScrape(url);
-      return { success: true, ...mockData };
+      const result = await entry.scraper.scrapeProduct(url, scrapeSignal);
+      return result.reviews && result.reviews.length > entry.config.maxReviews
+        ? { ...result, reviews: result.reviews.slice(0, entry.config.maxReviews) }
+        : result;
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to scrape external product'
-      };
-    }
-  }
-
-  private async mockExternalScrape(url: string): Promise<{ product_data: ScrapedProductData; reviews: ScrapedReviewData[] }> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 4000));
-
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname;
-
-    const productData: ScrapedProductData = {
-      name: "Premium Skincare Serum",
-      description: "Advanced anti-aging serum with hyaluronic acid, vitamin C, and retinol. Visible results in 2 weeks.",
-      images: [
-        "https://example.com/serum1.jpg"
-      ],
-      price: "$89.99",
-      rating: 4.4,
-      review_count: 567,
-      platform: 'external',
-      original_url: url
-    };
-
-    const reviews: ScrapedReviewData[] = [
-      {
-        rating: 5,
-        title: "Incredible results!",
-        content: "My skin has never looked better. Fine lines are reduced and my complexion is glowing.",
-        author: "Skincare Lover",
-        date: "2024-11-10",
-        verified: true,
-        helpful_count: 234
-      },
-      {
-        rating: 3,
-        title: "Good but pricey",
-        content: "Works well but very expensive for the amount. Might not repurchase due to cost.",
-        author: "Budget Conscious",
-        date: "2024-11-07",
-        verified: true,
-        helpful_count: 89
-      },
-      {
-        rating: 5,
-        title: "Worth every penny!",
-        content: "Expensive but amazing results. My friends keep asking what I'm using!",
-        author: "Happy Customer",
-        date: "2024-11-05",
-        verified: true,
-        helpful_count: 345
+      // Cancellation is not a scraping failure; let the caller handle it
+      if (signal?.aborted) throw error;
+      if (timeout.aborted) {
+        return {
+          success: false,
+          error: `Scraping ${entry.platform} timed out after ${Math.round(entry.config.timeoutMs / 1000)}s`
+        };
       }
-    ];
-
-    return { product_data: productData, reviews, warning: `Limited scraping capabilities for ${domain}. Results may be incomplete.` };
-  }
-}
-
-// Main scraping service manager
-export class ScrapingManager {
-  private scrapers: ScrapingService[];
-
-  constructor() {
-    this.scrapers = [
-      new TikTokShopScraper(),
-      new AmazonScraper(),
-      new AliExpressScraper(),
-      new GenericExternalScraper() // Keep this last as it's the fallback
-    ];
-  }
-
-  async scrapeProduct(url: string): Promise<ScrapingResult> {
-    // Find the appropriate scraper for this URL
-    const scraper = this.scrapers.find(s => s.canHandle(url));
-
-    if (!scraper) {
-      return {
-        success: false,
-        error: 'No suitable scraper found for this URL'
-      };
-    }
-
-    try {
-      return await scraper.scrapeProduct(url);
-    } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Scraping failed'
@@ -402,14 +102,14 @@ export class ScrapingManager {
     }
   }
 
-  // Get platform from URL
-  getPlatform(url: string): string {
-    if (new AmazonScraper().canHandle(url)) return 'amazon';
-    if (new AliExpressScraper().canHandle(url)) return 'aliexpress';
-    if (new TikTokShopScraper().canHandle(url)) return 'tiktok_shop';
-    return 'external';
+  // Hand-off target for scrapers that find a URL is not theirs after all
+  private scrapersAfter(start: number): ScrapingService {
+    return {
+      canHandle: url => this.scrapers.slice(start).some(s => s.scraper.canHandle(url)),
+      scrapeProduct: (url, signal) => this.scrapeFrom(start, url, signal)
+    };
   }
 }
 
 // Singleton instance
-export const scrapingManager = new ScrapingManager();
\ No newline at end of file
+export const scrapingManager = new ScrapingManager();
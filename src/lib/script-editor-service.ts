@@ -2,6 +2,7 @@ import { createClient } from './supabase';
 import { generateText } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { Script, BrandRule, ComplianceFlag, StreamingScriptSuggestion } from '@/types/product';
+import { webhookService } from './webhook-service';
 
 export interface ScriptEditorSession {
   script_id: string;
@@ -458,6 +459,13 @@ Respond in JSON format like:
     status: Script['status']
   ): Promise<boolean> {
     try {
+      const { data: previous } = await this.supabase
+        .from('scripts')
+        .select('status, product_container_id, virality_pack_id')
+        .eq('id', scriptId)
+        .eq('user_id', userId)
+        .single();
+
       const { error } = await this.supabase
         .from('scripts')
         .update({
@@ -467,7 +475,21 @@ Respond in JSON format like:
         .eq('id', scriptId)
         .eq('user_id', userId);
 
-      return !error;
+      if (error) {
+        return false;
+      }
+
+      if (previous && previous.status !== status) {
+        await webhookService.dispatch(userId, 'script.status_changed', {
+          script_id: scriptId,
+          product_container_id: previous.product_container_id,
+          virality_pack_id: previous.virality_pack_id,
+          status,
+          previous_status: previous.status
+        });
+      }
+
+      return true;
 
     } catch (error) {
       console.error('Error updating script status:', error);
@@ -0,0 +1,355 @@
+import { HttpClient, HttpError } from './http-client';
+import type { ScrapedProductData, ScrapedReviewData, ScrapingResult, ScrapingService } from './scraping-service';
+import type { ScraperDefinition } from './scraper-registry';
+import { extractStructuredData, findElement, findElements, formatPrice, stripTags } from './structured-data';
+
+// Shape of /products/<handle>.json, limited to the fields we read
+interface ShopifyProductJson {
+  id: number;
+  title: string;
+  body_html?: string | null;
+  vendor?: string;
+  handle: string;
+  variants?: { id: number; price?: string | null }[];
+  images?: { src: string }[];
+}
+
+export type ShopifyReviewProvider = 'judgeme' | 'yotpo' | 'loox';
+
+interface WidgetReviews {
+  reviews: ScrapedReviewData[];
+  rating?: number;
+  review_count?: number;
+}
+
+interface YotpoReview {
+  score?: number;
+  title?: string;
+  content?: string;
+  created_at?: string;
+  verified_buyer?: boolean;
+  votes_up?: number;
+  user?: { display_name?: string };
+}
+
+interface YotpoReviewsPayload {
+  response?: {
+    reviews?: YotpoReview[];
+    bottomline?: { total_review?: number; average_score?: number };
+  };
+}
+
+// Stores on their own domain are only recognisable once fetched; *.myshopify.com always is one
+export function isShopifyStoreUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith('.myshopify.com');
+  } catch {
+    return false;
+  }
+}
+
+// Product handle from /products/<handle>, including locale and collection prefixes
+function getProductHandle(url: URL): string | null {
+  const match = url.pathname.match(/\/products\/([^/?#]+?)(?:\.(?:json|js|oembed))?\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+function toRating(value: unknown): number | undefined {
+  const rating = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(rating) && rating > 0 ? Math.min(5, rating) : undefined;
+}
+
+function toCount(value: unknown): number | undefined {
+  const count = typeof value === 'number' ? value : parseInt(String(value ?? '').replace(/[^\d]/g, ''), 10);
+  return Number.isFinite(count) ? count : undefined;
+}
+
+function toDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+
+  // Loox prints US-style dates
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+
+  return text || undefined;
+}
+
+// Parse the review HTML returned by the Judge.me widget API
+export function parseJudgeMeWidget(html: string): ScrapedReviewData[] {
+  const reviews: ScrapedReviewData[] = [];
+
+  for (const { attributes: root, outer: chunk } of findElements(html, 'class', 'jdgm-rev')) {
+    const body = findElement(chunk, 'class', 'jdgm-rev__body');
+    const content = body ? stripTags(body.inner) : '';
+    const rating = toRating(findElement(chunk, 'class', 'jdgm-rev__rating')?.attributes['data-score']);
+    if (!content || rating === undefined) continue;
+
+    const title = findElement(chunk, 'class', 'jdgm-rev__title');
+    const author = findElement(chunk, 'class', 'jdgm-rev__author');
+    const timestamp = findElement(chunk, 'class', 'jdgm-rev__timestamp');
+    const thumbs = findElement(chunk, 'class', 'jdgm-rev__thumb-count');
+
+    reviews.push({
+      rating,
+      title: title ? stripTags(title.inner) || undefined : undefined,
+      content,
+      author: author ? stripTags(author.inner) || undefined : undefined,
+      date: toDate(timestamp?.attributes['data-content']),
+      verified: root['data-verified-buyer'] === 'true',
+      helpful_count: toCount(root['data-thumb-up-count'] ?? thumbs?.attributes['data-count'])
+    });
+  }
+
+  return reviews;
+}
+
+// Parse a page of the Yotpo reviews API
+export function parseYotpoReviews(payload: YotpoReviewsPayload): WidgetReviews {
+  const reviews = (payload.response?.reviews || [])
+    .filter(review => review.content && toRating(review.score) !== undefined)
+    .map((review): ScrapedReviewData => ({
+      rating: toRating(review.score) as number,
+      title: review.title ? stripTags(review.title) || undefined : undefined,
+      content: stripTags(review.content as string),
+      author: review.user?.display_name || undefined,
+      date: toDate(review.created_at),
+      verified: !!review.verified_buyer,
+      helpful_count: review.votes_up
+    }));
+
+  const bottomline = payload.response?.bottomline;
+  return {
+    reviews,
+    rating: toRating(bottomline?.average_score),
+    review_count: bottomline?.total_review
+  };
+}
+
+// Parse the review grid HTML returned by the Loox widget
+export function parseLooxWidget(html: string): ScrapedReviewData[] {
+  const reviews: ScrapedReviewData[] = [];
+
+  for (const { attributes: root, outer: chunk } of findElements(html, 'class', 'grid-item')) {
+    const text = findElement(chunk, 'class', 'main-text');
+    const content = text ? stripTags(text.inner) : '';
+    const stars = findElement(chunk, 'class', 'stars');
+    const rating = toRating(root['data-rating'] ?? stars?.attributes['aria-label']?.match(/([\d.]+)\s*star/i)?.[1]);
+    if (!content || rating === undefined) continue;
+
+    const author = findElement(chunk, 'class', 'title');
+    const time = findElement(chunk, 'class', 'time');
+
+    reviews.push({
+      rating,
+      content,
+      author: author ? stripTags(author.inner) || undefined : undefined,
+      date: toDate(time ? stripTags(time.inner) : undefined),
+      verified: 'data-verified-notice' in root || findElement(chunk, 'class', 'verified-badge') !== null
+    });
+  }
+
+  return reviews;
+}
+
+// Shopify storefronts: product data from the public product JSON, reviews from the installed review app
+export class ShopifyScraper implements ScrapingService {
+  constructor(
+    private httpClient: HttpClient,
+    private fallback: ScrapingService, // Used when a /products/ URL turns out not to be a Shopify store
+    private maxReviews = 200
+  ) {}
+
+  canHandle(url: string): boolean {
+    try {
+      return isShopifyStoreUrl(url) || getProductHandle(new URL(url)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async scrapeProduct(url: string, signal?: AbortSignal): Promise<ScrapingResult> {
+    const pageUrl = new URL(url);
+    const handle = getProductHandle(pageUrl);
+    if (!handle) {
+      return { success: false, error: 'Shopify URL does not point to a product page' };
+    }
+
+    const product = await this.fetchProductJson(pageUrl.origin, handle, signal);
+    if (!product) {
+      return this.fallback.scrapeProduct(url, signal);
+    }
+
+    try {
+      // The storefront page tells us the currency, the myshopify domain and which review app is installed
+      const page = await this.httpClient.get(url, { signal }).catch(error => {
+        if (signal?.aborted) throw error;
+        return null;
+      });
+      const html = page?.body || '';
+      const structured = html ? extractStructuredData(html, page?.url || url) : null;
+
+      const variantId = pageUrl.searchParams.get('variant');
+      const variant = product.variants?.find(v => String(v.id) === variantId) || product.variants?.[0];
+      const currency = html.match(/Shopify\.currency\s*=\s*\{\s*"active"\s*:\s*"([A-Z]{3})"/)?.[1]
+        || html.match(/<meta[^>]+property=["'](?:og|product):price:currency["'][^>]+content=["']([A-Z]{3})["']/i)?.[1];
+
+      const provider = this.detectReviewProvider(html);
+      let widget: WidgetReviews = { reviews: [] };
+      let warning: string | undefined;
+
+      if (provider) {
+        try {
+          widget = await this.fetchWidgetReviews(provider, html, pageUrl, product, signal);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.error(`Error fetching ${provider} reviews:`, error);
+          warning = `Could not load reviews from the store's review app (${provider}).`;
+        }
+      }
+
+      // Review apps that only publish JSON-LD are still covered by the structured data
+      const reviews = widget.reviews.length ? widget.reviews : structured?.reviews || [];
+      if (!warning && reviews.length === 0) {
+        warning = provider
+          ? `No reviews found in the store's review app (${provider}).`
+          : 'No supported review app found on this Shopify store.';
+      }
+
+      const averageRating = reviews.length
+        ? Math.round((reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length) * 10) / 10
+        : undefined;
+
+      const productData: ScrapedProductData = {
+        name: product.title,
+        description: product.body_html ? stripTags(product.body_html) : structured?.product.description || '',
+        images: product.images?.length ? product.images.map(image => image.src) : structured?.product.images || [],
+        price: formatPrice(variant?.price, currency) || structured?.product.price,
+        rating: widget.rating ?? structured?.product.rating ?? averageRating,
+        review_count: widget.review_count ?? structured?.product.review_count ?? (reviews.length || undefined),
+        platform: 'shopify',
+        original_url: url
+      };
+
+      return { success: true, product_data: productData, reviews, warning };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to scrape Shopify product'
+      };
+    }
+  }
+
+  // Read the public product JSON; null means this is not a Shopify store
+  private async fetchProductJson(origin: string, handle: string, signal?: AbortSignal): Promise<ShopifyProductJson | null> {
+    try {
+      const response = await this.httpClient.get(`${origin}/products/${encodeURIComponent(handle)}.json`, {
+        signal,
+        headers: { Accept: 'application/json' }
+      });
+      const product = (JSON.parse(response.body) as { product?: ShopifyProductJson }).product;
+      return product?.title ? product : null;
+    } catch (error) {
+      // A 404 or a non-JSON answer means some other kind of store; exhausted retries are reported as is
+      if (error instanceof HttpError || error instanceof SyntaxError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private detectReviewProvider(html: string): ShopifyReviewProvider | null {
+    if (/jdgm|judge\.me/i.test(html)) return 'judgeme';
+    if (/yotpo\.com/i.test(html)) return 'yotpo';
+    if (/loox\.io/i.test(html)) return 'loox';
+    return null;
+  }
+
+  private async fetchWidgetReviews(
+    provider: ShopifyReviewProvider,
+    html: string,
+    pageUrl: URL,
+    product: ShopifyProductJson,
+    signal?: AbortSignal
+  ): Promise<WidgetReviews> {
+    switch (provider) {
+      case 'judgeme': {
+        const shopDomain = html.match(/Shopify\.shop\s*=\s*["']([\w-]+\.myshopify\.com)["']/)?.[1]
+          || pageUrl.hostname;
+        return this.paginate(50, async page => {
+          const response = await this.httpClient.get(
+            `https://judge.me/api/v1/widgets/product_review?shop_domain=${encodeURIComponent(shopDomain)}` +
+            `&handle=${encodeURIComponent(product.handle)}&per_page=50&page=${page}`,
+            { signal, headers: { Accept: 'application/json' } }
+          );
+          const { widget } = JSON.parse(response.body) as { widget?: string };
+          return { reviews: parseJudgeMeWidget(widget || '') };
+        });
+      }
+
+      case 'yotpo': {
+        const appKey = html.match(/staticw2\.yotpo\.com\/([A-Za-z0-9]+)\//)?.[1]
+          || html.match(/cdn-widgetsrepository\.yotpo\.com\/v1\/loader\/([A-Za-z0-9]+)/)?.[1]
+          || html.match(/data-appkey=["']([A-Za-z0-9]+)["']/i)?.[1];
+        if (!appKey) throw new Error('Yotpo app key not found on page');
+
+        return this.paginate(100, async page => {
+          const response = await this.httpClient.get(
+            `https://api-cdn.yotpo.com/v1/widget/${appKey}/products/${product.id}/reviews.json?per_page=100&page=${page}`,
+            { signal, headers: { Accept: 'application/json' } }
+          );
+          return parseYotpoReviews(JSON.parse(response.body) as YotpoReviewsPayload);
+        });
+      }
+
+      case 'loox': {
+        const clientId = html.match(/loox\.io\/widget\/([\w-]+)\//)?.[1];
+        if (!clientId) throw new Error('Loox client ID not found on page');
+
+        return this.paginate(20, async page => {
+          const response = await this.httpClient.get(
+            `https://loox.io/widget/${clientId}/reviews/${product.id}?limit=20&page=${page}`,
+            { signal }
+          );
+          return { reviews: parseLooxWidget(response.body) };
+        });
+      }
+    }
+  }
+
+  // Fetch widget pages until one comes back short or maxReviews is reached
+  private async paginate(pageSize: number, fetchPage: (page: number) => Promise<WidgetReviews>): Promise<WidgetReviews> {
+    const result: WidgetReviews = { reviews: [] };
+
+    for (let page = 1; result.reviews.length < this.maxReviews; page++) {
+      const { reviews, rating, review_count } = await fetchPage(page);
+      result.reviews.push(...reviews);
+      result.rating ??= rating;
+      result.review_count ??= review_count;
+      if (reviews.length < pageSize) break;
+    }
+
+    result.reviews = result.reviews.slice(0, this.maxReviews);
+    return result;
+  }
+}
+
+// Registry entry; storefronts on their own domain are picked up by canHandle after platform detection
+export const shopifyScraperDefinition: ScraperDefinition = {
+  platform: 'shopify',
+  priority: 50,
+  detect: isShopifyStoreUrl,
+  productKey: url => {
+    const urlObj = new URL(url);
+    const handle = getProductHandle(urlObj);
+    return handle ? `${urlObj.hostname.toLowerCase()}:${handle}` : null;
+  },
+  canonicalUrl: url => {
+    const urlObj = new URL(url);
+    const handle = getProductHandle(urlObj);
+    return handle ? `${urlObj.origin}/products/${encodeURIComponent(handle)}` : null;
+  },
+  create: ({ httpClient, config, next }) => new ShopifyScraper(httpClient, next, config.maxReviews)
+};
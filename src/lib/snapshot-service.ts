@@ -0,0 +1,136 @@
+import { createClient } from './supabase';
+import { InsightSnapshot, InsightTheme, ThemeDrift } from '@/types/product';
+
+// A theme is flagged when its mentions move by at least this many and this fraction,
+// or its sentiment moves by at least this much, since the previous snapshot
+const MIN_MENTION_CHANGE = 3;
+const MIN_MENTION_CHANGE_RATIO = 0.5;
+const MIN_SENTIMENT_CHANGE = 0.3;
+
+// Compare two runs' themes and return the ones that moved a lot
+export function detectThemeDrift(
+  previous: Pick<InsightSnapshot, 'pain_points' | 'delight_factors'>,
+  current: Pick<InsightSnapshot, 'pain_points' | 'delight_factors'>
+): ThemeDrift[] {
+  const drift: ThemeDrift[] = [];
+
+  const compare = (kind: ThemeDrift['kind'], before: InsightTheme[], after: InsightTheme[]) => {
+    const beforeByTheme = new Map(before.map(theme => [theme.theme, theme]));
+    const afterByTheme = new Map(after.map(theme => [theme.theme, theme]));
+    const themes = new Set([...beforeByTheme.keys(), ...afterByTheme.keys()]);
+
+    for (const theme of themes) {
+      const old = beforeByTheme.get(theme);
+      const now = afterByTheme.get(theme);
+      const previousMentions = old?.mentions || 0;
+      const mentions = now?.mentions || 0;
+
+      let change: ThemeDrift['change'] | null = null;
+      if (!old) {
+        change = mentions >= MIN_MENTION_CHANGE ? 'new' : null;
+      } else if (!now) {
+        change = previousMentions >= MIN_MENTION_CHANGE ? 'gone' : null;
+      } else if (
+        Math.abs(mentions - previousMentions) >= MIN_MENTION_CHANGE &&
+        Math.abs(mentions - previousMentions) / Math.max(previousMentions, 1) >= MIN_MENTION_CHANGE_RATIO
+      ) {
+        change = 'mentions';
+      } else if (Math.abs(now.sentiment - old.sentiment) >= MIN_SENTIMENT_CHANGE) {
+        change = 'sentiment';
+      }
+
+      if (change) {
+        drift.push({
+          theme,
+          kind,
+          change,
+          previous_mentions: previousMentions,
+          mentions,
+          previous_sentiment: old ? old.sentiment : null,
+          sentiment: now ? now.sentiment : null
+        });
+      }
+    }
+  };
+
+  compare('pain_point', previous.pain_points, current.pain_points);
+  compare('delight_factor', previous.delight_factors, current.delight_factors);
+
+  return drift;
+}
+
+export class InsightSnapshotService {
+  private supabase = createClient('service');
+
+  // Record a dated snapshot of a run's insights, flagging drift against the previous one
+  async createSnapshot(
+    productContainerId: string,
+    ingestionJobId: string,
+    insights: Pick<InsightSnapshot, 'pain_points' | 'delight_factors'>,
+    reviewCount: number
+  ): Promise<InsightSnapshot | null> {
+    try {
+      const { data: previous } = await this.supabase
+        .from('insight_snapshots')
+        .select('pain_points, delight_factors')
+        .eq('product_container_id', productContainerId)
+        .neq('ingestion_job_id', ingestionJobId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const drift = previous ? detectThemeDrift(previous, insights) : [];
+
+      // Upsert on the job so a retried step never records the same run twice
+      const { data, error } = await this.supabase
+        .from('insight_snapshots')
+        .upsert({
+          product_container_id: productContainerId,
+          ingestion_job_id: ingestionJobId,
+          review_count: reviewCount,
+          pain_points: insights.pain_points,
+          delight_factors: insights.delight_factors,
+          drift
+        }, { onConflict: 'ingestion_job_id' })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to store insight snapshot: ${error.message}`);
+      }
+
+      if (drift.length > 0) {
+        console.log(`Flagged ${drift.length} drifting themes for container ${productContainerId}`);
+      }
+
+      return data as InsightSnapshot;
+    } catch (error) {
+      console.error('Error creating insight snapshot:', error);
+      return null;
+    }
+  }
+
+  // Get the most recent snapshots for a container, newest first
+  async getSnapshots(productContainerId: string, limit = 20): Promise<InsightSnapshot[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('insight_snapshots')
+        .select('*')
+        .eq('product_container_id', productContainerId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch insight snapshots: ${error.message}`);
+      }
+
+      return data as InsightSnapshot[];
+    } catch (error) {
+      console.error('Error fetching insight snapshots:', error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const insightSnapshotService = new InsightSnapshotService();
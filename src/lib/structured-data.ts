@@ -0,0 +1,558 @@
+import type { ScrapedReviewData } from './scraping-service';
+
+// Product fields found in a page's structured data
+export interface ExtractedProduct {
+  name?: string;
+  description?: string;
+  brand?: string;
+  images: string[];
+  price?: string;
+  rating?: number;
+  review_count?: number;
+}
+
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'opengraph' | 'html';
+
+export interface StructuredDataResult {
+  product: ExtractedProduct;
+  reviews: ScrapedReviewData[];
+  sources: StructuredDataSource[];
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'IndividualProduct', 'ProductModel'];
+
+// Microdata types nested in a Product or Review, and the properties that belong to them.
+// Closing tags are not tracked, so anything else is attributed to the enclosing item.
+const NESTED_MICRODATA_PROPERTIES: Record<string, string[]> = {
+  Offer: ['price', 'priceCurrency', 'lowPrice', 'highPrice', 'availability'],
+  AggregateOffer: ['price', 'priceCurrency', 'lowPrice', 'highPrice', 'availability'],
+  AggregateRating: ['ratingValue', 'bestRating', 'worstRating', 'reviewCount', 'ratingCount'],
+  Rating: ['ratingValue', 'bestRating', 'worstRating'],
+  Person: ['name'],
+  Organization: ['name'],
+  Brand: ['name']
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  GBP: '£',
+  EUR: '€',
+  JPY: '¥',
+  INR: '₹',
+  CAD: 'CA$',
+  AUD: 'A$'
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“'
+};
+
+// Decode the HTML entities that commonly appear in product copy
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Code points past U+10FFFF make fromCodePoint throw; leave malformed entities as written
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Turn an HTML fragment into plain text
+export function stripTags(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\f\v ]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+// Parse the attributes of an opening tag
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\s*[\w:-]+/, '').replace(/\/?>$/, '');
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+// An element located in an HTML string
+export interface HtmlElement {
+  tagName: string;
+  attributes: Record<string, string>;
+  outer: string;
+  inner: string;
+}
+
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Find elements by attribute value; for "class" any one class token matches. Nested tags of the same name are balanced.
+export function findElements(html: string, attribute: string, value: string, limit = Infinity): HtmlElement[] {
+  const valuePattern = attribute === 'class'
+    ? `(?:[^"']*\\s)?${escapeRegExp(value)}(?:\\s[^"']*)?`
+    : escapeRegExp(value);
+  const pattern = new RegExp(
+    `<([a-z][a-z0-9]*)\\b[^>]*\\s${escapeRegExp(attribute)}\\s*=\\s*(["'])${valuePattern}\\2[^>]*>`,
+    'gi'
+  );
+  const elements: HtmlElement[] = [];
+
+  let match: RegExpExecArray | null;
+  while (elements.length < limit && (match = pattern.exec(html)) !== null) {
+    const tagName = match[1].toLowerCase();
+    const innerStart = match.index + match[0].length;
+    let innerEnd = innerStart;
+    let outerEnd = innerStart;
+
+    if (!VOID_ELEMENTS.includes(tagName) && !match[0].endsWith('/>')) {
+      const tags = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+      tags.lastIndex = innerStart;
+      let depth = 1;
+      let tag: RegExpExecArray | null;
+
+      innerEnd = outerEnd = html.length;
+      while ((tag = tags.exec(html)) !== null) {
+        depth += tag[1] ? -1 : 1;
+        if (depth === 0) {
+          innerEnd = tag.index;
+          outerEnd = tag.index + tag[0].length;
+          break;
+        }
+      }
+    }
+
+    elements.push({
+      tagName,
+      attributes: parseAttributes(match[0]),
+      outer: html.slice(match.index, outerEnd),
+      inner: html.slice(innerStart, innerEnd)
+    });
+  }
+
+  return elements;
+}
+
+// First element with the given attribute value, see findElements
+export function findElement(html: string, attribute: string, value: string): HtmlElement | null {
+  return findElements(html, attribute, value, 1)[0] || null;
+}
+
+function resolveUrl(value: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(value.trim(), baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  // Accept "4,5" and "1,234" style numbers; with both separators, as in "1.234,56" or "1,234.56", the last is the decimal point
+  const cleaned = value.trim().replace(/[^\d.,-]/g, '');
+  const decimalComma = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') &&
+    (cleaned.includes('.') || /^-?\d+,\d{1,2}$/.test(cleaned));
+  const normalized = decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  const parsed = parseFloat(normalized);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Review counts are whole numbers, so "1.234" (German) and "1,234" are both thousands separators
+function toCount(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value) : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const digits = value.replace(/[\s.,'’]/g, '').match(/^\d+/);
+  return digits ? parseInt(digits[0], 10) : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const text = stripTags(value);
+    return text || undefined;
+  }
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return toText(value[0]);
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    return toText(node['@value'] ?? node.name);
+  }
+  return undefined;
+}
+
+// Format an amount and ISO currency code the way the other scrapers report prices
+export function formatPrice(amount: unknown, currency?: string): string | undefined {
+  const value = toNumber(amount);
+  if (value === undefined) return undefined;
+
+  const formatted = value.toFixed(2);
+  if (!currency) return formatted;
+
+  const symbol = CURRENCY_SYMBOLS[currency.toUpperCase()];
+  return symbol ? `${symbol}${formatted}` : `${formatted} ${currency.toUpperCase()}`;
+}
+
+// Convert a rating on any scale to the 1-5 scale used everywhere else
+function normalizeRating(value: unknown, best: unknown): number | undefined {
+  const rating = toNumber(value);
+  if (rating === undefined) return undefined;
+
+  const bestRating = toNumber(best) || 5;
+  const normalized = bestRating === 5 ? rating : (rating / bestRating) * 5;
+  return Math.round(Math.min(5, Math.max(0, normalized)) * 10) / 10;
+}
+
+function normalizeDate(value: unknown): string | undefined {
+  const text = toText(value);
+  if (!text) return undefined;
+  return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : text;
+}
+
+function uniqueImages(images: (string | undefined)[]): string[] {
+  return Array.from(new Set(images.filter((image): image is string => !!image)));
+}
+
+// JSON-LD
+
+function hasType(node: JsonLdNode, types: string[]): boolean {
+  const nodeTypes = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return nodeTypes.some(type =>
+    typeof type === 'string' && types.includes(type.replace(/^(https?:\/\/schema\.org\/|schema:)/, ''))
+  );
+}
+
+function parseJsonLdBlocks(html: string): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const pattern = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const raw = match[1]
+      .replace(/^\s*(<!--|\/\/\s*<!\[CDATA\[)/, '')
+      .replace(/(-->|\/\/\s*\]\]>)\s*$/, '')
+      .trim();
+
+    try {
+      nodes.push(...[JSON.parse(raw)].flat());
+    } catch {
+      // Some stores emit invalid JSON-LD (e.g. raw newlines in strings); retry once without control characters
+      try {
+        nodes.push(...[JSON.parse(raw.replace(/[\u0000-\u001f]+/g, ' '))].flat());
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  return nodes.filter(node => node && typeof node === 'object');
+}
+
+// Depth-first search for nodes of the given types, including inside @graph and nested properties
+function findJsonLdNodes(nodes: unknown[], types: string[], found: JsonLdNode[] = []): JsonLdNode[] {
+  for (const value of nodes) {
+    if (Array.isArray(value)) {
+      findJsonLdNodes(value, types, found);
+    } else if (value && typeof value === 'object') {
+      const node = value as JsonLdNode;
+      if (hasType(node, types)) {
+        found.push(node);
+      } else {
+        findJsonLdNodes(Object.values(node), types, found);
+      }
+    }
+  }
+  return found;
+}
+
+function jsonLdImages(value: unknown, baseUrl: string): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return uniqueImages(values.map(image => {
+    if (typeof image === 'string') return resolveUrl(image, baseUrl);
+    if (image && typeof image === 'object') {
+      const node = image as JsonLdNode;
+      const url = node.url ?? node.contentUrl;
+      return typeof url === 'string' ? resolveUrl(url, baseUrl) : undefined;
+    }
+    return undefined;
+  }));
+}
+
+function jsonLdReview(node: JsonLdNode): ScrapedReviewData | null {
+  const reviewRating = (node.reviewRating || {}) as JsonLdNode;
+  const rating = normalizeRating(reviewRating.ratingValue, reviewRating.bestRating);
+  const content = toText(node.reviewBody ?? node.description ?? node.text);
+  if (rating === undefined || !content) return null;
+
+  return {
+    rating,
+    title: toText(node.name ?? node.headline),
+    content,
+    author: toText(node.author),
+    date: normalizeDate(node.datePublished ?? node.dateCreated),
+    verified: false
+  };
+}
+
+function extractJsonLd(html: string, baseUrl: string): { product: ExtractedProduct; reviews: ScrapedReviewData[] } | null {
+  const nodes = parseJsonLdBlocks(html);
+  const product = findJsonLdNodes(nodes, PRODUCT_TYPES)[0];
+  if (!product) return null;
+
+  // ProductGroup pages keep offers and images on their variants
+  const variant = Array.isArray(product.hasVariant) ? product.hasVariant[0] as JsonLdNode : undefined;
+  const offersValue = product.offers ?? variant?.offers;
+  const offer = (Array.isArray(offersValue) ? offersValue[0] : offersValue || {}) as JsonLdNode;
+  // WooCommerce lists priceSpecification as an array of unit price specifications
+  const priceSpecification = ([offer.priceSpecification].flat()[0] || {}) as JsonLdNode;
+  const aggregateRating = (product.aggregateRating || {}) as JsonLdNode;
+
+  const productReviews = [product.review, product.reviews].flat().filter(Boolean) as JsonLdNode[];
+  const reviewNodes = productReviews.length > 0 ? productReviews : findJsonLdNodes(nodes, ['Review']);
+
+  return {
+    product: {
+      name: toText(product.name),
+      description: toText(product.description),
+      brand: toText(product.brand),
+      images: jsonLdImages(product.image ?? variant?.image, baseUrl),
+      price: formatPrice(
+        offer.price ?? offer.lowPrice ?? priceSpecification.price,
+        toText(offer.priceCurrency ?? priceSpecification.priceCurrency)
+      ),
+      rating: normalizeRating(aggregateRating.ratingValue, aggregateRating.bestRating),
+      review_count: toCount(aggregateRating.reviewCount ?? aggregateRating.ratingCount)
+    },
+    reviews: reviewNodes.map(jsonLdReview).filter((review): review is ScrapedReviewData => !!review)
+  };
+}
+
+// Microdata
+
+interface MicrodataItem {
+  type: string;
+  properties: Map<string, string[]>;
+}
+
+// Read the value of an element carrying an itemprop attribute
+function itempropValue(html: string, tagStart: number, tagName: string, attributes: Record<string, string>, baseUrl: string): string {
+  const urlValue = attributes.src ?? attributes.href;
+  if (attributes.content !== undefined) return attributes.content;
+  if (attributes.datetime !== undefined) return attributes.datetime;
+  if (urlValue !== undefined && ['img', 'a', 'link', 'source'].includes(tagName)) {
+    return resolveUrl(urlValue, baseUrl) || urlValue;
+  }
+  if (attributes.value !== undefined) return attributes.value;
+
+  const openEnd = html.indexOf('>', tagStart) + 1;
+  const close = html.toLowerCase().indexOf(`</${tagName}`, openEnd);
+  return stripTags(html.slice(openEnd, close === -1 ? openEnd : close));
+}
+
+// Collect Product and Review items; properties of nested items are stored as "Type.property"
+function extractMicrodataItems(html: string, baseUrl: string): MicrodataItem[] {
+  const items: MicrodataItem[] = [];
+  let current: MicrodataItem | null = null;
+  let nestedType: string | null = null;
+
+  const pattern = /<([a-z][\w-]*)\b[^>]*\bitem(?:type|prop)\s*=[^>]*>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const tagName = match[1].toLowerCase();
+    const attributes = parseAttributes(match[0]);
+    const itemType = attributes.itemtype?.split(/\s+/)[0].replace(/^https?:\/\/schema\.org\//, '');
+
+    if (itemType) {
+      if (PRODUCT_TYPES.includes(itemType) || itemType === 'Review') {
+        current = { type: itemType === 'Review' ? 'Review' : 'Product', properties: new Map() };
+        items.push(current);
+        nestedType = null;
+        continue;
+      }
+      if (NESTED_MICRODATA_PROPERTIES[itemType]) {
+        nestedType = itemType;
+        continue;
+      }
+    }
+
+    if (!current || !attributes.itemprop) continue;
+
+    const value = itempropValue(html, match.index, tagName, attributes, baseUrl);
+    for (const prop of attributes.itemprop.split(/\s+/)) {
+      const key = nestedType && NESTED_MICRODATA_PROPERTIES[nestedType].includes(prop)
+        ? `${nestedType}.${prop}`
+        : prop;
+      current.properties.set(key, [...(current.properties.get(key) || []), value]);
+    }
+  }
+
+  return items;
+}
+
+function extractMicrodata(html: string, baseUrl: string): { product: ExtractedProduct; reviews: ScrapedReviewData[] } | null {
+  const items = extractMicrodataItems(html, baseUrl);
+  const product = items.find(item => item.type === 'Product');
+  if (!product) return null;
+
+  const first = (item: MicrodataItem, ...keys: string[]) => {
+    for (const key of keys) {
+      const value = item.properties.get(key)?.find(v => v.trim());
+      if (value) return value.trim();
+    }
+    return undefined;
+  };
+
+  const reviews = items
+    .filter(item => item.type === 'Review')
+    .map(item => {
+      const rating = normalizeRating(first(item, 'Rating.ratingValue', 'ratingValue'), first(item, 'Rating.bestRating', 'bestRating'));
+      const content = first(item, 'reviewBody', 'description');
+      if (rating === undefined || !content) return null;
+
+      return {
+        rating,
+        title: first(item, 'name', 'headline'),
+        content,
+        author: first(item, 'Person.name', 'author'),
+        date: normalizeDate(first(item, 'datePublished')),
+        verified: false
+      } as ScrapedReviewData;
+    })
+    .filter((review): review is ScrapedReviewData => !!review);
+
+  return {
+    product: {
+      name: first(product, 'name'),
+      description: first(product, 'description'),
+      brand: first(product, 'Brand.name', 'Organization.name', 'brand'),
+      images: uniqueImages(product.properties.get('image') || []),
+      price: formatPrice(
+        first(product, 'Offer.price', 'AggregateOffer.lowPrice', 'AggregateOffer.price', 'price'),
+        first(product, 'Offer.priceCurrency', 'AggregateOffer.priceCurrency', 'priceCurrency')
+      ),
+      rating: normalizeRating(
+        first(product, 'AggregateRating.ratingValue', 'ratingValue'),
+        first(product, 'AggregateRating.bestRating', 'bestRating')
+      ),
+      review_count: toCount(first(product, 'AggregateRating.reviewCount', 'AggregateRating.ratingCount', 'reviewCount'))
+    },
+    reviews
+  };
+}
+
+// OpenGraph and plain HTML
+
+function extractMetaTags(html: string): Map<string, string[]> {
+  const metas = new Map<string, string[]>();
+  const pattern = /<meta\b[^>]*>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content) {
+      metas.set(key, [...(metas.get(key) || []), attributes.content.trim()]);
+    }
+  }
+
+  return metas;
+}
+
+function extractOpenGraph(html: string, baseUrl: string): ExtractedProduct | null {
+  const metas = extractMetaTags(html);
+  const get = (...keys: string[]) => keys.map(key => metas.get(key)?.[0]).find(Boolean);
+
+  const name = get('og:title', 'twitter:title');
+  if (!name) return null;
+
+  return {
+    name,
+    description: get('og:description', 'twitter:description', 'description'),
+    brand: get('product:brand', 'og:brand'),
+    images: uniqueImages([...(metas.get('og:image') || []), ...(metas.get('og:image:secure_url') || [])]
+      .map(image => resolveUrl(image, baseUrl))),
+    price: formatPrice(
+      get('product:price:amount', 'og:price:amount'),
+      get('product:price:currency', 'og:price:currency')
+    )
+  };
+}
+
+function extractHtmlFallback(html: string): ExtractedProduct {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const metas = extractMetaTags(html);
+
+  return {
+    name: title ? stripTags(title[1]) || undefined : undefined,
+    description: metas.get('description')?.[0],
+    images: []
+  };
+}
+
+// Pull product details and reviews out of a product page, preferring JSON-LD, then microdata, then OpenGraph
+export function extractStructuredData(html: string, pageUrl: string): StructuredDataResult {
+  const sources: StructuredDataSource[] = [];
+
+  const jsonLd = extractJsonLd(html, pageUrl);
+  if (jsonLd) sources.push('json-ld');
+
+  const microdata = extractMicrodata(html, pageUrl);
+  if (microdata) sources.push('microdata');
+
+  const openGraph = extractOpenGraph(html, pageUrl);
+  if (openGraph) sources.push('opengraph');
+
+  const fallback = extractHtmlFallback(html);
+  const candidates = [jsonLd?.product, microdata?.product, openGraph, fallback]
+    .filter((candidate): candidate is ExtractedProduct => !!candidate);
+
+  const pick = <K extends keyof ExtractedProduct>(key: K): ExtractedProduct[K] | undefined =>
+    candidates.map(candidate => candidate[key]).find(value => value !== undefined && value !== '');
+
+  const product: ExtractedProduct = {
+    name: pick('name'),
+    description: pick('description'),
+    brand: pick('brand'),
+    images: uniqueImages(candidates.flatMap(candidate => candidate.images)),
+    price: pick('price'),
+    rating: pick('rating'),
+    review_count: pick('review_count')
+  };
+
+  if (!jsonLd && !microdata && !openGraph && product.name) {
+    sources.push('html');
+  }
+
+  const reviews = jsonLd?.reviews.length ? jsonLd.reviews : microdata?.reviews || [];
+
+  return { product, reviews, sources };
+}
@@ -1,10 +1,11 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
 import { auth } from "@clerk/nextjs/server";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createSupabaseClient(supabaseUrl, supabaseAnonKey, {
   global: {
     fetch: (url, options = {}) => {
       return fetch(url, {
@@ -19,7 +20,7 @@ export async function createSupabaseServerClient() {
   const { getToken } = await auth();
   const token = await getToken();
 
-  return createClient(supabaseUrl, supabaseAnonKey, {
+  return createSupabaseClient(supabaseUrl, supabaseAnonKey, {
     global: {
       headers: {
         Authorization: token ? `Bearer ${token}` : "",
@@ -33,3 +34,26 @@ export async function createSupabaseServerClient() {
     },
   });
 }
+
+// Server-only client for services, API routes and the background worker. The service role key
+// bypasses RLS, so queries must be scoped to the user by the caller; never use it in the browser.
+export function createClient(role: "service") {
+  if (!supabaseServiceRoleKey) {
+    throw new Error(`SUPABASE_SERVICE_ROLE_KEY is required for the ${role} Supabase client`);
+  }
+
+  return createSupabaseClient(supabaseUrl, supabaseServiceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      fetch: (url, options = {}) => {
+        return fetch(url, {
+          ...options,
+          cache: "no-store",
+        });
+      },
+    },
+  });
+}
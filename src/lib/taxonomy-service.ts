@@ -0,0 +1,61 @@
+import { createClient } from './supabase';
+import { DEFAULT_TAXONOMY } from './theme-packs';
+import { validateTaxonomyPacks } from './theme-taxonomy';
+import { ThemePack, ThemeTaxonomy } from '@/types/product';
+
+export class TaxonomyService {
+  private supabase = createClient('service');
+
+  // Get a user's latest edited taxonomy, or the built-in one when they have not edited it
+  async getTaxonomy(userId: string): Promise<ThemeTaxonomy> {
+    try {
+      const { data, error } = await this.supabase
+        .from('theme_taxonomies')
+        .select('version, packs')
+        .eq('user_id', userId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch theme taxonomy: ${error.message}`);
+      }
+
+      return data ? { version: `custom@${data.version}`, packs: data.packs as ThemePack[] } : DEFAULT_TAXONOMY;
+    } catch (error) {
+      // Analysis carries on with the built-in themes rather than failing
+      console.error('Error fetching theme taxonomy:', error);
+      return DEFAULT_TAXONOMY;
+    }
+  }
+
+  // Check an edited taxonomy; returns an error message or null
+  validatePacks(packs: unknown): string | null {
+    return validateTaxonomyPacks(packs);
+  }
+
+  // Save an edited taxonomy as the user's next version; earlier versions are kept so old themes stay traceable
+  async saveTaxonomy(userId: string, packs: ThemePack[]): Promise<ThemeTaxonomy> {
+    const { data: latest } = await this.supabase
+      .from('theme_taxonomies')
+      .select('version')
+      .eq('user_id', userId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const version = (latest?.version || 0) + 1;
+    const { error } = await this.supabase
+      .from('theme_taxonomies')
+      .insert({ user_id: userId, version, packs });
+
+    if (error) {
+      throw new Error(`Failed to save theme taxonomy: ${error.message}`);
+    }
+
+    return { version: `custom@${version}`, packs };
+  }
+}
+
+// Singleton instance
+export const taxonomyService = new TaxonomyService();
@@ -0,0 +1,220 @@
+import { openai } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+import { aiService } from './ai-service';
+import { getAIConfig, validateAIConfig } from './ai-config';
+import { hashString } from './review-quality';
+
+// Turns sentences into vectors whose dot product measures how alike they are
+export interface SentenceEmbedder {
+  name: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export interface DiscoverySentence {
+  review_id: string;
+  text: string;
+}
+
+export interface DiscoveredTheme {
+  id: string; // Slug of the label, e.g. "clumps_in_cold_water"
+  label: string; // Human-readable name from the LLM
+  sentences: DiscoverySentence[]; // Closest to the cluster's center first
+}
+
+// Fewer sentences than this are not worth clustering
+const MIN_DISCOVERY_SENTENCES = 20;
+// Most recent sentences embedded per run, to bound embedding cost
+const MAX_DISCOVERY_SENTENCES = 1500;
+const MAX_CLUSTERS = 12;
+// A cluster needs sentences from this many different reviews to become a theme
+const MIN_CLUSTER_REVIEWS = 3;
+// Sentences per cluster shown to the LLM when naming it
+const SAMPLES_PER_CLUSTER = 8;
+const KMEANS_ITERATIONS = 25;
+const HASHING_DIMENSIONS = 512;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'as', 'is', 'it',
+  'its', 'was', 'were', 'be', 'been', 'are', 'am', 'this', 'that', 'these', 'those', 'i', 'me', 'my', 'we', 'our',
+  'you', 'your', 'they', 'them', 'he', 'she', 'his', 'her', 'so', 'if', 'then', 'than', 'just', 'have', 'has', 'had',
+  'do', 'does', 'did', 'will', 'would', 'can', 'could', 'there', 'what', 'when', 'which', 'who', 'all', 'very', 'really'
+]);
+
+// Whole-sentence splitting; sentences too short or long to be about one thing are dropped
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => {
+      const words = sentence.split(/\s+/).length;
+      return words >= 4 && words <= 40;
+    });
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Deterministic PRNG so the same sentences always cluster the same way
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Spherical k-means with k-means++ seeding; returns each vector's cluster and the cluster centers
+export function clusterVectors(vectors: number[][], k: number): { assignments: number[]; centroids: number[][] } {
+  const random = seededRandom(vectors.length);
+  const centroids: number[][] = [vectors[Math.floor(random() * vectors.length)]];
+
+  while (centroids.length < k) {
+    const distances = vectors.map(vector => Math.max(0, 1 - Math.max(...centroids.map(c => dot(vector, c)))));
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    if (total === 0) break;
+
+    let target = random() * total;
+    const next = distances.findIndex(distance => (target -= distance) <= 0);
+    centroids.push(vectors[next === -1 ? vectors.length - 1 : next]);
+  }
+
+  let assignments = new Array<number>(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const updated = vectors.map(vector => {
+      let best = 0;
+      centroids.forEach((centroid, index) => {
+        if (dot(vector, centroid) > dot(vector, centroids[best])) best = index;
+      });
+      return best;
+    });
+
+    const changed = updated.some((cluster, index) => cluster !== assignments[index]);
+    assignments = updated;
+    if (!changed) break;
+
+    centroids.forEach((centroid, cluster) => {
+      const sum = new Array<number>(centroid.length).fill(0);
+      vectors.forEach((vector, index) => {
+        if (assignments[index] !== cluster) return;
+        vector.forEach((value, dimension) => { sum[dimension] += value; });
+      });
+      if (sum.some(value => value !== 0)) centroids[cluster] = normalize(sum);
+    });
+  }
+
+  return { assignments, centroids };
+}
+
+// Offline embedder: hashed counts of content words and word pairs
+export class HashingEmbedder implements SentenceEmbedder {
+  name = 'hashing@1';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const words = text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(w => w && !STOPWORDS.has(w));
+      const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+      const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+      for (const feature of features) {
+        vector[hashString(feature) % HASHING_DIMENSIONS] += 1;
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+// OpenAI embeddings; Anthropic has no embedding model, so Anthropic-only setups use the hashing embedder
+export class OpenAIEmbedder implements SentenceEmbedder {
+  name = 'openai/text-embedding-3-small';
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const { embeddings } = await embedMany({
+      model: openai.embedding('text-embedding-3-small'),
+      values: texts,
+      abortSignal: signal
+    });
+    return embeddings.map(normalize);
+  }
+}
+
+// Finds themes the taxonomy misses by clustering review sentences and having the LLM name each cluster
+export class ThemeDiscovery {
+  constructor(
+    private embedder: SentenceEmbedder = getAIConfig().openaiApiKey ? new OpenAIEmbedder() : new HashingEmbedder()
+  ) {}
+
+  // Discovery is opt-in with THEME_DISCOVERY=true and needs an AI model to name clusters
+  isEnabled(): boolean {
+    return process.env.THEME_DISCOVERY === 'true' && validateAIConfig().isValid;
+  }
+
+  // Cluster sentences into named themes; clusters the LLM matches to a known theme are left to that theme
+  async discover(
+    sentences: DiscoverySentence[],
+    knownThemes: Array<{ id: string; label: string }>,
+    signal?: AbortSignal
+  ): Promise<DiscoveredTheme[]> {
+    const sample = sentences.slice(-MAX_DISCOVERY_SENTENCES);
+    if (sample.length < MIN_DISCOVERY_SENTENCES) {
+      return [];
+    }
+
+    const vectors = await this.embedder.embed(sample.map(sentence => sentence.text), signal);
+    const k = Math.min(MAX_CLUSTERS, Math.max(2, Math.round(Math.sqrt(sample.length / 2))));
+    const { assignments, centroids } = clusterVectors(vectors, k);
+
+    // Keep clusters several reviews share, ordering their sentences from most to least typical
+    const clusters = centroids
+      .map((centroid, cluster) => sample
+        .map((sentence, index) => ({ sentence, index }))
+        .filter(({ index }) => assignments[index] === cluster)
+        .sort((a, b) => dot(vectors[b.index], centroid) - dot(vectors[a.index], centroid))
+        .map(({ sentence }) => sentence))
+      .filter(members => new Set(members.map(member => member.review_id)).size >= MIN_CLUSTER_REVIEWS);
+
+    if (clusters.length === 0) {
+      return [];
+    }
+
+    const names = await aiService.nameThemeClusters(
+      clusters.map(members => members.slice(0, SAMPLES_PER_CLUSTER).map(member => member.text)),
+      knownThemes,
+      signal
+    );
+
+    const knownIds = new Set(knownThemes.map(theme => theme.id));
+    const discovered = new Map<string, DiscoveredTheme>();
+
+    clusters.forEach((members, index) => {
+      const { label, existing_theme } = names[index] || {};
+      if (!label || existing_theme) return;
+
+      const id = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50);
+      if (!id || knownIds.has(id)) return;
+
+      // Two clusters given the same name become one theme
+      const theme = discovered.get(id);
+      if (theme) {
+        theme.sentences.push(...members);
+      } else {
+        discovered.set(id, { id, label, sentences: members });
+      }
+    });
+
+    return Array.from(discovered.values());
+  }
+}
+
+// Singleton instance
+export const themeDiscovery = new ThemeDiscovery();
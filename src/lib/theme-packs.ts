@@ -0,0 +1,241 @@
+import { ThemePack, ThemeTaxonomy } from '@/types/product';
+
+// Built-in theme packs. Theme IDs are stored on reviews, pain points and delight factors,
+// so renaming one splits its history; bump DEFAULT_TAXONOMY_VERSION whenever a pack changes.
+export const DEFAULT_TAXONOMY_VERSION = 'default@2';
+
+const GENERAL_PACK: ThemePack = {
+  category: 'general',
+  themes: [
+    {
+      id: 'price_value',
+      label: 'Price & value',
+      phrases: ['price*', 'cost*', 'expensive', 'overpriced', 'cheap price', 'worth', 'value for money', 'good value', 'bang for', 'money', 'pricey', 'affordable', 'bargain', 'deal'],
+      exclude: ['money back', 'money-back', 'deal with', 'big deal']
+    },
+    {
+      id: 'customer_service',
+      label: 'Customer service',
+      phrases: ['customer service', 'customer support', 'support team', 'seller', 'vendor', 'refund*', 'return policy', 'replacement', 'contacted', 'responded', 'response from', 'no response', 'never replied', 'money back']
+    },
+    {
+      id: 'shipping_delivery',
+      label: 'Shipping & delivery',
+      phrases: ['ship', 'ships', 'shipping', 'shipped', 'shipment*', 'delivery', 'delivered', 'arrived', 'arrive*', 'package', 'packaging', 'parcel', 'took weeks', 'on time', 'in transit', 'tracking'],
+      affirmed_phrases: ['damaged in transit', 'arrived damaged', 'arrived broken', 'never arrived', 'late']
+    },
+    {
+      id: 'build_quality',
+      label: 'Build quality & durability',
+      phrases: ['quality', 'well made', 'well-made', 'poorly made', 'cheaply made', 'durable', 'durability', 'sturdy', 'flimsy', 'fragile', 'solid'],
+      affirmed_phrases: ['broke', 'broken', 'fell apart', 'falling apart', 'cracked', 'snapped', 'stopped working', 'defective', 'ripped', 'tore'],
+      exclude: ['broke out', 'broke me out', 'broke the bank', 'quality time', 'sound quality', 'picture quality', 'video quality', 'audio quality', 'call quality']
+    },
+    {
+      id: 'ease_of_use',
+      label: 'Ease of use',
+      phrases: ['easy to use', 'easy to set up', 'easy to install', 'hard to use', 'difficult to use', 'complicated', 'user friendly', 'user-friendly', 'intuitive', 'instructions', 'manual', 'setup', 'set up', 'straightforward', 'confusing']
+    },
+    {
+      id: 'appearance',
+      label: 'Look & design',
+      phrases: ['looks', 'look great', 'looks cheap', 'appearance', 'design', 'colou*', 'beautiful', 'ugly', 'stylish', 'pretty', 'gorgeous', 'aesthetic', 'sleek'],
+      exclude: ['looks like', 'look like', 'looking for', 'look for', 'look into']
+    }
+  ]
+};
+
+const BEAUTY_PACK: ThemePack = {
+  category: 'beauty',
+  keywords: ['serum', 'moisturi*', 'cream', 'lotion', 'cleanser', 'toner', 'mascara', 'lipstick', 'foundation', 'concealer', 'skincare', 'skin care', 'makeup', 'shampoo', 'conditioner', 'perfume', 'fragrance', 'sunscreen', 'spf'],
+  themes: [
+    {
+      id: 'smell_aroma',
+      label: 'Scent',
+      phrases: ['smell*', 'scent*', 'fragrance*', 'aroma', 'odou*', 'perfume*', 'unscented', 'fragrance free', 'fragrance-free'],
+      affirmed_phrases: ['stinks', 'stink*', 'smells bad']
+    },
+    {
+      id: 'texture_feel',
+      label: 'Texture & feel',
+      phrases: ['texture', 'consistency', 'absorbs', 'absorb*', 'lightweight', 'feels light', 'feels heavy'],
+      affirmed_phrases: ['greasy', 'oily', 'sticky', 'tacky', 'thick', 'watery', 'chalky', 'cakey', 'pills', 'pilling', 'residue']
+    },
+    {
+      id: 'skin_reaction',
+      label: 'Skin reaction',
+      phrases: ['sensitive skin', 'gentle', 'reaction', 'allergic'],
+      affirmed_phrases: ['breakout*', 'broke me out', 'broke out', 'rash', 'irritat*', 'burn*', 'sting*', 'itch*', 'redness', 'acne', 'pimples', 'clogged']
+    },
+    {
+      id: 'visible_results',
+      label: 'Visible results',
+      phrases: ['results', 'difference', 'glow*', 'hydrat*', 'brighter', 'smoother', 'softer', 'clearer skin', 'fine lines', 'wrinkles', 'dark spots', 'works', 'worked', 'effective'],
+      exclude: ['works out', 'worked out']
+    },
+    {
+      id: 'wear_longevity',
+      label: 'Wear time',
+      phrases: ['long lasting', 'long-lasting', 'lasts all day', 'all day wear', 'wears off', 'wore off', 'fades', 'faded', 'transfer*', 'smudge*', 'budge*', 'touch up*']
+    },
+    {
+      id: 'shade_match',
+      label: 'Shade match',
+      phrases: ['shade*', 'undertone*', 'too dark', 'too light', 'orange', 'ashy', 'color match', 'colour match']
+    }
+  ]
+};
+
+const SUPPLEMENTS_PACK: ThemePack = {
+  category: 'supplements',
+  keywords: ['supplement*', 'vitamin*', 'capsule*', 'gummies', 'gummy', 'protein powder', 'probiotic*', 'collagen', 'creatine', 'pre-workout', 'pre workout', 'magnesium', 'omega', 'multivitamin', 'electrolyte*', 'tablet*'],
+  themes: [
+    {
+      id: 'taste_quality',
+      label: 'Taste',
+      phrases: ['taste*', 'tasting', 'flavo*', 'aftertaste', 'delicious', 'yummy', 'tasty', 'bland', 'bitter', 'sweet', 'chalky taste', 'gross', 'disgusting']
+    },
+    {
+      id: 'effectiveness',
+      label: 'Effectiveness',
+      phrases: ['results', 'effective', 'ineffective', 'works', 'worked', 'difference', 'energy', 'sleep*', 'focus', 'recovery', 'digestion', 'bloating', 'placebo'],
+      affirmed_phrases: ['helped', 'helps', 'noticed'],
+      exclude: ['works out', 'worked out', 'helped me pick', 'customer service helped']
+    },
+    {
+      id: 'side_effects',
+      label: 'Side effects',
+      phrases: ['side effect*'],
+      affirmed_phrases: ['nause*', 'headache*', 'upset stomach', 'stomach ache', 'cramp*', 'diarrhea', 'jitters', 'jittery', 'heart racing', 'dizzy', 'made me sick', 'felt sick']
+    },
+    {
+      id: 'dosage_format',
+      label: 'Dose & format',
+      phrases: ['dose', 'dosage', 'serving*', 'scoop*', 'pills', 'capsules', 'swallow', 'too big', 'huge pills', 'dissolve*', 'mixes', 'mix well', 'clump*']
+    },
+    {
+      id: 'ingredients',
+      label: 'Ingredients',
+      phrases: ['ingredient*', 'sugar', 'sweetener*', 'artificial', 'natural', 'organic', 'vegan', 'gluten', 'fillers', 'third party tested', 'third-party tested', 'label']
+    }
+  ]
+};
+
+const ELECTRONICS_PACK: ThemePack = {
+  category: 'electronics',
+  keywords: ['headphone*', 'earbud*', 'speaker', 'charger', 'cable', 'phone', 'laptop', 'tablet', 'camera', 'monitor', 'keyboard', 'mouse', 'bluetooth', 'usb', 'power bank', 'smartwatch', 'projector', 'router'],
+  themes: [
+    {
+      id: 'battery_life',
+      label: 'Battery life',
+      phrases: ['battery', 'batteries', 'battery life', 'charge lasts', 'lasts all day', 'hours of use', 'recharg*', 'charging', 'charges'],
+      affirmed_phrases: ['dies quickly', 'drains', 'dead battery'],
+      exclude: ['charging cable', 'charging case', 'charging port']
+    },
+    {
+      id: 'connectivity',
+      label: 'Connectivity',
+      phrases: ['bluetooth', 'pairing', 'paired', 'pairs easily', 'connection', 'connect*', 'wifi', 'wi-fi', 'signal', 'range', 'app'],
+      affirmed_phrases: ['disconnect*', 'drops out', 'cuts out', 'lag*']
+    },
+    {
+      id: 'sound_quality',
+      label: 'Sound quality',
+      phrases: ['sound quality', 'sound', 'audio', 'bass', 'treble', 'volume', 'noise cancell*', 'microphone', 'mic', 'call quality', 'crackl*', 'static']
+    },
+    {
+      id: 'performance',
+      label: 'Performance',
+      phrases: ['performance', 'fast', 'slow', 'speed', 'powerful', 'responsive', 'overheat*', 'freez*', 'crash*', 'glitch*', 'bug*']
+    },
+    {
+      id: 'display_quality',
+      label: 'Display & picture',
+      phrases: ['screen', 'display', 'brightness', 'resolution', 'picture quality', 'video quality', 'image quality', 'blurry', 'sharp image', 'pixel*']
+    },
+    {
+      id: 'compatibility',
+      label: 'Compatibility',
+      phrases: ['compatible', 'compatibility', 'works with', 'iphone', 'android', 'mac', 'windows', 'adapter', 'driver*']
+    }
+  ]
+};
+
+const APPAREL_PACK: ThemePack = {
+  category: 'apparel',
+  keywords: ['shirt', 't-shirt', 'dress', 'jeans', 'pants', 'leggings', 'jacket', 'hoodie', 'sweater', 'shoes', 'sneakers', 'boots', 'socks', 'bra', 'underwear', 'swimsuit', 'skirt', 'shorts', 'apparel', 'clothing'],
+  themes: [
+    {
+      id: 'size_fit',
+      label: 'Size & fit',
+      phrases: ['size*', 'sizing', 'fit', 'fits', 'fitted', 'true to size', 'runs small', 'runs large', 'runs big', 'too small', 'too big', 'too tight', 'too loose', 'size up', 'size down', 'length', 'waist', 'inseam']
+    },
+    {
+      id: 'fabric_material',
+      label: 'Fabric & material',
+      phrases: ['fabric', 'material', 'cotton', 'polyester', 'thin', 'thick', 'soft', 'stretch*', 'see through', 'see-through', 'itchy', 'scratchy', 'breathable'],
+      affirmed_phrases: ['pilling', 'pills']
+    },
+    {
+      id: 'comfort',
+      label: 'Comfort',
+      phrases: ['comfortable', 'comfy', 'uncomfortable', 'comfort', 'cozy', 'all day', 'blister*', 'digs in', 'chafe*', 'chafing']
+    },
+    {
+      id: 'color_accuracy',
+      label: 'Colour vs. photos',
+      phrases: ['color is', 'colour is', 'looks different', 'different color', 'different colour', 'as pictured', 'than the picture', 'than pictured', 'like the photo*']
+    },
+    {
+      id: 'wash_care',
+      label: 'Washing & care',
+      phrases: ['wash*', 'dryer', 'laundry', 'iron*', 'wrinkle*'],
+      affirmed_phrases: ['shrank', 'shrunk', 'shrinks', 'faded', 'fades', 'bled', 'color ran', 'colour ran']
+    }
+  ]
+};
+
+const HOME_PACK: ThemePack = {
+  category: 'home',
+  keywords: ['furniture', 'chair', 'table', 'desk', 'shelf', 'lamp', 'rug', 'curtain*', 'bedding', 'sheets', 'pillow', 'mattress', 'vacuum', 'blender', 'air fryer', 'cookware', 'pan', 'kitchen', 'organizer', 'storage', 'humidifier', 'diffuser'],
+  themes: [
+    {
+      id: 'assembly',
+      label: 'Assembly',
+      phrases: ['assembl*', 'put together', 'instructions', 'screws', 'hardware', 'holes', 'tools'],
+      affirmed_phrases: ['missing parts', 'parts missing', "holes didn't line up", 'did not line up']
+    },
+    {
+      id: 'cleaning_maintenance',
+      label: 'Cleaning',
+      phrases: ['clean*', 'wipe*', 'dishwasher', 'stain*', 'dust*', 'maintenance'],
+      exclude: ['cleaning product']
+    },
+    {
+      id: 'noise_level',
+      label: 'Noise',
+      phrases: ['noise', 'noisy', 'loud', 'quiet', 'silent', 'rattl*', 'squeak*', 'humming', 'hums', 'buzz*']
+    },
+    {
+      id: 'dimensions',
+      label: 'Size & dimensions',
+      phrases: ['dimensions', 'measurements', 'smaller than', 'bigger than', 'larger than', 'too small', 'too big', 'fits perfectly', 'space', 'compact', 'bulky', 'footprint']
+    },
+    {
+      id: 'smell_aroma',
+      label: 'Smell',
+      phrases: ['smell*', 'odou*', 'scent*', 'fumes', 'chemical smell', 'off-gas*', 'off gas*']
+    },
+    {
+      id: 'performance',
+      label: 'Performance',
+      phrases: ['works', 'worked', 'suction', 'heats', 'heat*', 'cools', 'power', 'powerful', 'weak', 'effective', 'does the job'],
+      exclude: ['works out', 'worked out']
+    }
+  ]
+};
+
+export const DEFAULT_TAXONOMY: ThemeTaxonomy = {
+  version: DEFAULT_TAXONOMY_VERSION,
+  packs: [GENERAL_PACK, BEAUTY_PACK, SUPPLEMENTS_PACK, ELECTRONICS_PACK, APPAREL_PACK, HOME_PACK]
+};
@@ -0,0 +1,225 @@
+import { ProductCategory, ThemeDefinition, ThemePack, ThemeTaxonomy } from '@/types/product';
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = ['beauty', 'supplements', 'electronics', 'apparel', 'home'];
+
+// Reviews that mention no theme count towards this one
+export const FALLBACK_THEME = 'general_experience';
+
+// Words that negate a phrase when they come shortly before it in the same clause
+export const NEGATORS = new Set([
+  'not', 'no', 'never', 'without', 'hardly', 'barely', 'nor', 'none', 'nothing', 'zero',
+  'isnt', 'wasnt', 'doesnt', 'didnt', 'dont', 'wont', 'cant', 'cannot', 'couldnt', 'arent', 'werent',
+  'havent', 'hasnt', 'hadnt', 'shouldnt', 'wouldnt'
+]);
+export const NEGATION_WINDOW = 3; // Words before the phrase
+
+const THEME_ID_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+const MAX_PHRASES_PER_THEME = 200;
+
+// One place a review mentions a theme
+export interface AspectMention {
+  theme: string;
+  sentence: string; // Normalized sentence containing the mention, or the whole text for the fallback theme
+  start?: number; // Position of the matched phrase in the sentence; unset when the mention covers the whole text
+  end?: number;
+}
+
+interface CompiledTheme {
+  id: string;
+  label: string;
+  phrases?: RegExp;
+  affirmed?: RegExp;
+  exclude?: RegExp;
+}
+
+// Lower-case, straighten apostrophes and treat hyphens as spaces so "well-made" matches "well made"
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[’‘`]/g, "'").replace(/-/g, ' ');
+}
+
+// Phrase alternatives anchored on whole words; "*" at the end of a word matches any ending
+function compilePhrases(phrases: string[] | undefined): RegExp | undefined {
+  const alternatives = (phrases || [])
+    .map(phrase => normalizeText(phrase).trim())
+    .filter(Boolean)
+    .map(phrase => phrase
+      .split(/\s+/)
+      .map(word => {
+        const wildcard = word.endsWith('*');
+        const escaped = word.replace(/\*$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return wildcard ? `${escaped}[\\p{L}\\p{N}]*` : escaped;
+      })
+      .join('\\s+'))
+    .sort((a, b) => b.length - a.length);
+
+  return alternatives.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu')
+    : undefined;
+}
+
+// Whether a match is negated, e.g. "doesn't leak" or "no breakouts at all"
+function isNegated(text: string, index: number): boolean {
+  const clause = text.slice(Math.max(0, index - 60), index).split(/[.!?;,:]|\bbut\b/).pop() || '';
+  return clause
+    .replace(/'/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(-NEGATION_WINDOW)
+    .some(word => NEGATORS.has(word));
+}
+
+// The sentence around a match, with the match's position inside it
+function getSentence(text: string, index: number, length: number): Pick<AspectMention, 'sentence' | 'start' | 'end'> {
+  const from = text.slice(0, index).search(/[^.!?\n]*$/);
+  const rest = text.slice(index + length).search(/[.!?\n]/);
+  const raw = text.slice(from, rest === -1 ? text.length : index + length + rest + 1);
+  const start = index - from - (raw.length - raw.trimStart().length);
+
+  return { sentence: raw.trim(), start, end: start + length };
+}
+
+// Blank out excluded phrases so their words cannot match the theme
+function removeExcluded(text: string, exclude?: RegExp): string {
+  return exclude ? text.replace(exclude, match => ' '.repeat(match.length)) : text;
+}
+
+// Matches review text against the general themes plus one category's pack
+export class ThemeMatcher {
+  private themes: CompiledTheme[];
+
+  constructor(taxonomy: ThemeTaxonomy, category: ProductCategory | null) {
+    const packs = taxonomy.packs.filter(pack => pack.category === 'general' || pack.category === category);
+    const seen = new Set<string>();
+
+    // Category themes come first so a pack can refine a general theme with the same ID
+    this.themes = [...packs].sort((a, b) => Number(a.category === 'general') - Number(b.category === 'general'))
+      .flatMap(pack => pack.themes)
+      .filter(theme => !seen.has(theme.id) && seen.add(theme.id))
+      .map(theme => ({
+        id: theme.id,
+        label: theme.label,
+        phrases: compilePhrases(theme.phrases),
+        affirmed: compilePhrases(theme.affirmed_phrases),
+        exclude: compilePhrases(theme.exclude)
+      }));
+  }
+
+  // Every theme the matcher looks for
+  listThemes(): Array<{ id: string; label: string }> {
+    return this.themes.map(({ id, label }) => ({ id, label }));
+  }
+
+  // IDs of every theme the text mentions, or the fallback theme when it mentions none
+  match(content: string): string[] {
+    return Array.from(new Set(this.mentions(content).map(mention => mention.theme)));
+  }
+
+  // Every place the text mentions a theme, with the sentence it appears in
+  mentions(content: string): AspectMention[] {
+    const text = normalizeText(content);
+    const mentions: AspectMention[] = [];
+
+    for (const theme of this.themes) {
+      const searchable = removeExcluded(text, theme.exclude);
+      const matches = [
+        ...(theme.phrases ? Array.from(searchable.matchAll(theme.phrases)) : []),
+        ...(theme.affirmed
+          ? Array.from(searchable.matchAll(theme.affirmed)).filter(match => !isNegated(searchable, match.index!))
+          : [])
+      ];
+
+      for (const match of matches) {
+        mentions.push({ theme: theme.id, ...getSentence(text, match.index!, match[0].length) });
+      }
+    }
+
+    return mentions.length > 0 ? mentions : [{ theme: FALLBACK_THEME, sentence: text.trim() }];
+  }
+}
+
+// Label stored with reviews and themes: the taxonomy version and the pack applied, e.g. "default@2/beauty"
+export function getTaxonomyVersion(taxonomy: ThemeTaxonomy, category: ProductCategory | null): string {
+  return `${taxonomy.version}/${category || 'general'}`;
+}
+
+// Guess a product's category from its name and description, falling back to which pack its reviews mention most
+export function detectCategory(
+  taxonomy: ThemeTaxonomy,
+  product: { name?: string | null; description?: string | null },
+  reviewTexts: string[] = []
+): ProductCategory | null {
+  const scores = new Map<ProductCategory, number>();
+  const name = normalizeText(product.name || '');
+  const description = normalizeText(product.description || '');
+
+  for (const pack of taxonomy.packs) {
+    if (pack.category === 'general') continue;
+    const keywords = compilePhrases(pack.keywords);
+    const count = (text: string) => (keywords ? Array.from(text.matchAll(keywords)).length : 0);
+    scores.set(pack.category, count(name) * 3 + count(description));
+  }
+
+  // Reviews only decide when the product itself gives nothing away
+  if (Array.from(scores.values()).every(score => score === 0)) {
+    for (const pack of taxonomy.packs) {
+      if (pack.category === 'general') continue;
+      const matcher = new ThemeMatcher({ ...taxonomy, packs: [pack] }, pack.category);
+      const hits = reviewTexts.filter(text => matcher.match(text)[0] !== FALLBACK_THEME).length;
+      scores.set(pack.category, hits >= 3 ? hits : 0);
+    }
+  }
+
+  const [best] = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  return best && best[1] > 0 ? best[0] : null;
+}
+
+function validateTheme(theme: ThemeDefinition, where: string): string | null {
+  if (!theme || typeof theme !== 'object') return `${where} must be an object`;
+  if (typeof theme.id !== 'string' || !THEME_ID_PATTERN.test(theme.id)) {
+    return `${where} needs an id of lower-case letters, digits and underscores`;
+  }
+  if (typeof theme.label !== 'string' || !theme.label.trim()) return `Theme ${theme.id} needs a label`;
+
+  for (const key of ['phrases', 'affirmed_phrases', 'exclude'] as const) {
+    const list = theme[key];
+    if (list === undefined && key !== 'phrases') continue;
+    if (!Array.isArray(list) || list.some(phrase => typeof phrase !== 'string' || !phrase.trim())) {
+      return `Theme ${theme.id} ${key} must be a list of non-empty phrases`;
+    }
+    if (list.length > MAX_PHRASES_PER_THEME) return `Theme ${theme.id} has more than ${MAX_PHRASES_PER_THEME} ${key}`;
+  }
+
+  if (theme.phrases.length === 0 && !theme.affirmed_phrases?.length) {
+    return `Theme ${theme.id} needs at least one phrase`;
+  }
+  return null;
+}
+
+// Check an edited taxonomy before it is saved; returns an error message or null
+export function validateTaxonomyPacks(packs: unknown): string | null {
+  if (!Array.isArray(packs) || packs.length === 0) return 'Taxonomy must have at least one theme pack';
+
+  const categories = new Set<string>();
+  for (const pack of packs as ThemePack[]) {
+    if (!pack || (pack.category !== 'general' && !PRODUCT_CATEGORIES.includes(pack.category))) {
+      return `Pack category must be general or one of: ${PRODUCT_CATEGORIES.join(', ')}`;
+    }
+    if (categories.has(pack.category)) return `There is more than one ${pack.category} pack`;
+    categories.add(pack.category);
+
+    if (pack.keywords !== undefined && (!Array.isArray(pack.keywords) || pack.keywords.some(k => typeof k !== 'string'))) {
+      return `Keywords for the ${pack.category} pack must be a list of words`;
+    }
+    if (!Array.isArray(pack.themes)) return `The ${pack.category} pack needs a list of themes`;
+
+    const ids = new Set<string>();
+    for (const [index, theme] of pack.themes.entries()) {
+      const error = validateTheme(theme, `Theme ${index + 1} of the ${pack.category} pack`);
+      if (error) return error;
+      if (ids.has(theme.id) || theme.id === FALLBACK_THEME) return `Theme ID ${theme.id} is used twice in the ${pack.category} pack`;
+      ids.add(theme.id);
+    }
+  }
+
+  return null;
+}
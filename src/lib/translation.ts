@@ -0,0 +1,50 @@
+import { aiService } from './ai-service';
+import { validateAIConfig } from './ai-config';
+
+// Translates review text into English, the language themes and sentiment are analyzed in
+export interface Translator {
+  name: string;
+  translate(texts: string[], language: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+// Offline stand-in that leaves text as written; for tests and setups without an AI model
+export class StubTranslator implements Translator {
+  name = 'stub';
+
+  async translate(texts: string[]): Promise<string[]> {
+    return [...texts];
+  }
+}
+
+// Translates with the configured AI model, leaving batches it cannot translate as written
+export class LlmTranslator implements Translator {
+  name = 'llm@1';
+  private batchSize = 20;
+  private fallback = new StubTranslator();
+
+  async translate(texts: string[], language: string, signal?: AbortSignal): Promise<string[]> {
+    const translations: string[] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      try {
+        translations.push(...await aiService.translateTexts(batch, language, signal));
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Error translating ${language} reviews, keeping them as written:`, error);
+        translations.push(...await this.fallback.translate(batch));
+      }
+    }
+
+    return translations;
+  }
+}
+
+// REVIEW_TRANSLATOR picks the backend: "llm" (the default when an AI key is configured) or "stub"
+function createTranslator(): Translator {
+  const choice = process.env.REVIEW_TRANSLATOR || (validateAIConfig().isValid ? 'llm' : 'stub');
+  return choice === 'llm' ? new LlmTranslator() : new StubTranslator();
+}
+
+// Singleton instance
+export const translator = createTranslator();
@@ -0,0 +1,119 @@
+import { HttpClient, HttpResponse, defaultHttpClient } from './http-client';
+import { ScraperRegistry, scraperRegistry } from './scraper-registry';
+
+// Follows a URL's redirects; swap it out to resolve short links offline
+export interface RedirectResolver {
+  resolve(url: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface CanonicalUrl {
+  original_url: string; // As entered
+  canonical_url: string; // Redirects followed, tracking stripped, in the platform's canonical form
+  platform: string;
+  product_key: string | null; // Platform product identity, e.g. "amazon:amazon.de:B07XJ8C8F5"
+  resolved: boolean; // Whether a short link was followed
+}
+
+// Shorteners that are not tied to one platform
+const GENERIC_SHORT_LINK_HOSTS = ['bit.ly', 'tinyurl.com', 't.co', 'ow.ly', 'buff.ly', 'rebrand.ly', 'shorturl.at', 'linktr.ee'];
+
+// Ad-click and analytics parameters that never identify a product on any site. Names such as "ref" or "tag"
+// can identify a product or variant on some stores, so platforms list their own in ScraperDefinition.trackingParams.
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid', 'ttclid', 'twclid', 'igshid', 'yclid', 'mc_cid', 'mc_eid', '_ga', '_gl']);
+
+// Platform parameters match by name, or by prefix when they end in "*" (e.g. "pd_rd_*")
+function isTrackingParam(name: string, platformParams: string[]): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower)
+    || lower.startsWith('utm_')
+    || platformParams.some(param => param.endsWith('*') ? lower.startsWith(param.slice(0, -1)) : lower === param);
+}
+
+// Drop tracking parameters and the fragment, lower-case the host and sort what is left
+export function stripTrackingParams(url: string, platformParams: string[] = []): string {
+  const urlObj = new URL(url);
+  const params = Array.from(urlObj.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name, platformParams))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  urlObj.search = params.length ? new URLSearchParams(params).toString() : '';
+  urlObj.hash = '';
+  urlObj.hostname = urlObj.hostname.toLowerCase();
+
+  return urlObj.toString();
+}
+
+// Most redirects followed for one short link
+const MAX_REDIRECT_HOPS = 5;
+
+// Default resolver: follows redirects one hop at a time from their Location headers, so a store that answers the
+// final page with an error or a bot check still tells us where the short link goes
+export class HttpRedirectResolver implements RedirectResolver {
+  constructor(private httpClient: HttpClient, private timeoutMs = 10000) {}
+
+  async resolve(url: string, signal?: AbortSignal): Promise<string> {
+    let current = url;
+
+    for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+      let response: HttpResponse;
+      try {
+        response = await this.httpClient.get(current, { signal, timeoutMs: this.timeoutMs, redirect: 'manual' });
+      } catch (error) {
+        // The page a redirect led to failed or was blocked; where it led is all that was needed
+        if (current !== url && !signal?.aborted) return current;
+        throw error;
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response.url || current;
+      }
+      current = new URL(location, current).toString();
+    }
+
+    return current;
+  }
+}
+
+export class UrlCanonicalizer {
+  constructor(
+    private resolver: RedirectResolver = new HttpRedirectResolver(defaultHttpClient),
+    private registry: ScraperRegistry = scraperRegistry
+  ) {}
+
+  // Canonicalize a product URL; unresolvable short links are kept as entered so scraping can try again later
+  async canonicalize(url: string, signal?: AbortSignal): Promise<CanonicalUrl> {
+    let current = url.trim();
+    let resolved = false;
+
+    if (this.isShortLink(current)) {
+      try {
+        current = await this.resolver.resolve(current, signal);
+        resolved = current !== url.trim();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Error resolving short link ${url}:`, error);
+      }
+    }
+
+    const stripped = stripTrackingParams(current, this.registry.getTrackingParams(current));
+    const canonical = this.registry.getCanonicalUrl(stripped) || stripped;
+    const identity = this.registry.getProductKey(canonical);
+
+    return {
+      original_url: url.trim(),
+      canonical_url: canonical,
+      platform: this.registry.detectPlatform(canonical)?.platform || 'external',
+      product_key: identity?.key || null,
+      resolved
+    };
+  }
+
+  private isShortLink(url: string): boolean {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return GENERIC_SHORT_LINK_HOSTS.includes(hostname) || this.registry.isShortLink(url);
+  }
+}
+
+// Singleton instance
+export const urlCanonicalizer = new UrlCanonicalizer();
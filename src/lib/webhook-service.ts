@@ -0,0 +1,285 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Webhook } from 'svix';
+import { createClient } from './supabase';
+import { jobQueue } from './job-queue';
+import { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '@/types/product';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'container.completed',
+  'container.failed',
+  'container.cancelled',
+  'virality_packs.regenerated',
+  'script.status_changed'
+];
+
+// Payload of a 'webhook_delivery' job on the background queue
+export interface WebhookDeliveryQueuePayload {
+  delivery_id: string;
+}
+
+export interface WebhookEndpointInput {
+  url?: string;
+  events?: WebhookEventType[];
+  description?: string;
+  enabled?: boolean;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_MAX_ATTEMPTS = 6;
+const RESPONSE_BODY_LIMIT = 2000;
+
+// Columns safe to return to the client; the signing secret is only shown once on creation
+const PUBLIC_ENDPOINT_COLUMNS = 'id, user_id, url, events, description, enabled, created_at, updated_at';
+
+export class WebhookService {
+  private supabase = createClient('service');
+
+  // Validate endpoint input, returning an error message when it is not acceptable
+  validateEndpointInput(input: WebhookEndpointInput): string | null {
+    if (input.url !== undefined) {
+      try {
+        const url = new URL(input.url);
+        const isLocal = ['localhost', '127.0.0.1'].includes(url.hostname);
+        if (url.protocol !== 'https:' && !(isLocal && url.protocol === 'http:')) {
+          return 'Webhook URL must use HTTPS';
+        }
+      } catch {
+        return 'Invalid webhook URL';
+      }
+    }
+
+    if (input.events !== undefined) {
+      if (!Array.isArray(input.events) || input.events.length === 0) {
+        return 'At least one event type is required';
+      }
+      const unknown = input.events.filter(event => !WEBHOOK_EVENT_TYPES.includes(event));
+      if (unknown.length > 0) {
+        return `Unknown event types: ${unknown.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Create a webhook endpoint with a freshly generated signing secret
+  async createEndpoint(
+    userId: string,
+    input: Required<Pick<WebhookEndpointInput, 'url' | 'events'>> & WebhookEndpointInput
+  ): Promise<WebhookEndpoint> {
+    const secret = `whsec_${randomBytes(24).toString('base64')}`;
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .insert({
+        user_id: userId,
+        url: input.url,
+        events: input.events,
+        description: input.description,
+        enabled: input.enabled ?? true,
+        secret
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+    }
+
+    return data as WebhookEndpoint;
+  }
+
+  // Get all webhook endpoints for a user
+  async getEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_endpoints')
+        .select(PUBLIC_ENDPOINT_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+      }
+
+      return data as WebhookEndpoint[];
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      return [];
+    }
+  }
+
+  // Update a webhook endpoint
+  async updateEndpoint(
+    userId: string,
+    endpointId: string,
+    input: WebhookEndpointInput
+  ): Promise<WebhookEndpoint | null> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update(input)
+      .eq('id', endpointId)
+      .eq('user_id', userId)
+      .select(PUBLIC_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as WebhookEndpoint;
+  }
+
+  // Delete a webhook endpoint and its delivery log
+  async deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', endpointId)
+        .eq('user_id', userId);
+
+      return !error;
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return false;
+    }
+  }
+
+  // Get recent deliveries for one of the user's endpoints
+  async getDeliveries(userId: string, endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('endpoint_id', endpointId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch webhook deliveries: ${error.message}`);
+      }
+
+      return data as WebhookDelivery[];
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return [];
+    }
+  }
+
+  // Record a delivery for every endpoint subscribed to the event and queue them for sending
+  async dispatch(userId: string, eventType: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const { data: endpoints, error } = await this.supabase
+        .from('webhook_endpoints')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('enabled', true)
+        .contains('events', [eventType]);
+
+      if (error || !endpoints || endpoints.length === 0) {
+        return;
+      }
+
+      for (const endpoint of endpoints) {
+        const deliveryId = randomUUID();
+        const payload = {
+          id: deliveryId,
+          type: eventType,
+          created_at: new Date().toISOString(),
+          data
+        };
+
+        const { error: insertError } = await this.supabase
+          .from('webhook_deliveries')
+          .insert({
+            id: deliveryId,
+            endpoint_id: endpoint.id,
+            user_id: userId,
+            event_type: eventType,
+            payload
+          });
+
+        if (insertError) {
+          console.error(`Error recording webhook delivery for endpoint ${endpoint.id}:`, insertError);
+          continue;
+        }
+
+        const queuePayload: WebhookDeliveryQueuePayload = { delivery_id: deliveryId };
+        await jobQueue.enqueue('webhook_delivery', queuePayload, { max_attempts: DELIVERY_MAX_ATTEMPTS });
+      }
+    } catch (error) {
+      // Webhooks must never break the state change that triggered them
+      console.error(`Error dispatching ${eventType} webhook:`, error);
+    }
+  }
+
+  // Send one delivery attempt; throws when the receiver did not accept it so the queue retries
+  async deliver(deliveryId: string, options: { finalAttempt: boolean }): Promise<void> {
+    const { data: delivery, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*, webhook_endpoints(url, secret, enabled)')
+      .eq('id', deliveryId)
+      .single();
+
+    if (error || !delivery) {
+      throw new Error(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const endpoint = delivery.webhook_endpoints as { url: string; secret: string; enabled: boolean } | null;
+    if (!endpoint || !endpoint.enabled || delivery.status === 'delivered') {
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = new Date();
+    const signature = new Webhook(endpoint.secret).sign(deliveryId, timestamp, body);
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'webhook-id': deliveryId,
+          'webhook-timestamp': Math.floor(timestamp.getTime() / 1000).toString(),
+          'webhook-signature': signature
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+
+      if (!response.ok) {
+        errorMessage = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      errorMessage = fetchError instanceof Error ? fetchError.message : 'Delivery failed';
+    }
+
+    await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        attempts,
+        response_status: responseStatus,
+        response_body: responseBody,
+        error_message: errorMessage || null,
+        status: !errorMessage ? 'delivered' : options.finalAttempt ? 'failed' : 'pending',
+        delivered_at: !errorMessage ? new Date().toISOString() : null
+      })
+      .eq('id', deliveryId);
+
+    if (errorMessage) {
+      throw new Error(errorMessage);
+    }
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService();
@@ -3,19 +3,55 @@
 export interface ProductContainer {
   id: string;
   user_id: string;
-  product_url: string;
+  product_url: string; // The canonical URL that gets scraped
+  original_url?: string | null; // As entered, before short links were followed and tracking stripped
+  canonical_url?: string | null;
+  product_key?: string | null; // Platform product identity, e.g. "amazon:amazon.de:B07XJ8C8F5"
   product_name?: string;
   product_description?: string;
   product_image_url?: string;
-  platform: 'tiktok_shop' | 'amazon' | 'aliexpress' | 'external';
-  status: 'pending' | 'scraping' | 'analyzing' | 'completed' | 'failed';
-  error_message?: string;
+  platform: 'tiktok_shop' | 'amazon' | 'aliexpress' | 'shopify' | 'external' | 'manual'; // Manual containers get their reviews by import, never by scraping
+  marketplace?: string | null; // Regional storefront, e.g. "amazon.co.uk"
+  status: 'pending' | 'scraping' | 'analyzing' | 'completed' | 'failed' | 'cancelled';
+  error_message?: string | null;
   scraping_job_id?: string;
   analysis_job_id?: string;
+  batch_id?: string | null;
+  refresh_schedule?: RefreshSchedule | null;
+  next_refresh_at?: string | null;
+  last_refreshed_at?: string | null;
+  review_quality?: ReviewQualitySummary | null; // How many reviews the latest analysis left out, and why
+  category?: ProductCategory | null; // Picks the theme pack; detected from the product when not set
+  competitor_brands?: string[]; // Brand names redacted from quotes and AI prompts
+  language_mix?: LanguageMix | null; // Stored reviews by the language they were written in
   created_at: string;
   updated_at: string;
 }
 
+export type RefreshSchedule = 'daily' | 'weekly' | 'monthly';
+
+export type ProductCategory = 'beauty' | 'supplements' | 'electronics' | 'apparel' | 'home';
+
+// A theme reviews can mention. Phrases match whole words; a trailing * matches any ending, e.g. "expens*"
+export interface ThemeDefinition {
+  id: string; // Stored as the pain point or delight factor theme
+  label: string;
+  phrases: string[]; // Mention the theme negated or not, e.g. "worth" in "not worth the money"
+  affirmed_phrases?: string[]; // Only mention the theme when not negated, e.g. "leaks" but not "doesn't leak"
+  exclude?: string[]; // Phrases that contain a match without being about the theme, e.g. "last week"
+}
+
+export interface ThemePack {
+  category: ProductCategory | 'general'; // General themes apply to every product
+  keywords?: string[]; // Words in a product's name or description that point to this category
+  themes: ThemeDefinition[];
+}
+
+export interface ThemeTaxonomy {
+  version: string; // "default@2" for the built-in taxonomy, "custom@<n>" for a user's edits
+  packs: ThemePack[];
+}
+
 export interface ViralityPack {
   id: string;
   product_container_id: string;
@@ -37,7 +73,11 @@ export interface PainPoint {
   theme: string;
   sentiment: number; // -1.0 to 1.0 (negative to positive)
   mentions: number;
+  weighted_mentions?: number; // Mentions weighted by helpfulness and verification
   example_quotes: string[];
+  taxonomy_version?: string | null; // Taxonomy and theme pack that produced the theme, e.g. "default@2/beauty"
+  label?: string | null; // Display name of a discovered theme
+  source?: ThemeSource;
   created_at: string;
 }
 
@@ -47,7 +87,102 @@ export interface DelightFactor {
   theme: string;
   sentiment: number; // 0.0 to 1.0 (positive only)
   mentions: number;
+  weighted_mentions?: number; // Mentions weighted by helpfulness and verification
   example_quotes: string[];
+  taxonomy_version?: string | null;
+  label?: string | null;
+  source?: ThemeSource;
+  created_at: string;
+}
+
+// Taxonomy themes come from phrase patterns; discovered themes from clustering review sentences
+export type ThemeSource = 'taxonomy' | 'discovered';
+
+export interface Review {
+  id: string;
+  product_container_id: string;
+  fingerprint: string;
+  platform: string;
+  author?: string;
+  review_date?: string;
+  rating: number;
+  title?: string;
+  content: string;
+  verified: boolean;
+  helpful_count?: number;
+  sentiment: number; // -1.0 to 1.0, from the star rating
+  pain_point_themes: string[];
+  delight_factor_themes: string[];
+  language?: string | null; // ISO 639-1 code of the review as written, or 'und'
+  original_title?: string | null; // As written, when title and content hold an English translation
+  original_content?: string | null;
+  theme_sentiments?: Record<string, number> | null; // Sentiment towards each theme, from the sentences that mention it
+  sentiment_model?: string | null; // Model that scored the theme sentiments, e.g. 'lexicon@2'
+  quality_flag?: ReviewQualityFlag | null; // Set when the review is left out of insights
+  taxonomy_version?: string | null; // Taxonomy and theme pack its themes were extracted with
+  ingestion_job_id?: string | null;
+  created_at: string;
+}
+
+// Personal details and brand names removed from review text before it is stored or sent to an AI model
+export type RedactionType = 'email' | 'phone' | 'order_number' | 'name' | 'competitor';
+
+export type RedactionCounts = Record<RedactionType, number>;
+
+export interface RedactionReport {
+  counts: RedactionCounts;
+  competitor_brands: string[]; // Dictionary entries that were found
+}
+
+export interface RedactionAudit {
+  id: string;
+  product_container_id: string;
+  ingestion_job_id?: string | null;
+  stage: 'insights' | 'prompt'; // Stored insights, or the virality pack prompt
+  counts: RedactionCounts;
+  competitor_brands: string[];
+  created_at: string;
+}
+
+// Review counts by ISO 639-1 language code, e.g. { "en": 120, "es": 30 }
+export type LanguageMix = Record<string, number>;
+
+// Why a review was left out of insights
+export type ReviewQualityFlag = 'duplicate' | 'near_duplicate' | 'incentivized';
+
+export interface ReviewQualitySummary {
+  total_reviews: number;
+  analyzed_reviews: number;
+  excluded: Record<ReviewQualityFlag, number>;
+  unverified_reviews: number; // Analyzed, but with less weight
+}
+
+export interface InsightTheme {
+  theme: string;
+  sentiment: number;
+  mentions: number;
+  weighted_mentions?: number;
+  example_quotes: string[];
+}
+
+export interface ThemeDrift {
+  theme: string;
+  kind: 'pain_point' | 'delight_factor';
+  change: 'new' | 'gone' | 'mentions' | 'sentiment';
+  previous_mentions: number;
+  mentions: number;
+  previous_sentiment: number | null;
+  sentiment: number | null;
+}
+
+export interface InsightSnapshot {
+  id: string;
+  product_container_id: string;
+  ingestion_job_id?: string | null;
+  review_count: number;
+  pain_points: InsightTheme[];
+  delight_factors: InsightTheme[];
+  drift: ThemeDrift[];
   created_at: string;
 }
 
@@ -91,12 +226,48 @@ export interface UserSubscription {
 
 export interface CreateProductRequest {
   product_url: string;
+  batch_id?: string;
+  platform?: 'manual'; // Reviews will be imported instead of scraped; the URL is kept for reference only
+  category?: ProductCategory;
 }
 
 export interface CreateProductResponse {
   success: boolean;
   product_container?: ProductContainer;
   error?: string;
+  warning?: string;
+  duplicate_container_ids?: string[]; // The user's other containers for the same product
+}
+
+export interface ProductBatch {
+  id: string;
+  user_id: string;
+  source: 'csv' | 'list';
+  total_urls: number;
+  rejected_urls: ProductBatchRejectedUrl[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductBatchRejectedUrl {
+  url: string;
+  error: string;
+}
+
+export interface CreateProductBatchRequest {
+  input: string; // CSV file contents or a newline-separated list of URLs
+  source?: ProductBatch['source'];
+}
+
+export interface CreateProductBatchResponse {
+  success: boolean;
+  batch?: ProductBatch;
+  product_containers?: ProductContainer[];
+  error?: string;
+}
+
+export interface ProductBatchWithContainers extends ProductBatch {
+  product_containers: Pick<ProductContainer, 'id' | 'product_url' | 'product_name' | 'platform' | 'status' | 'error_message'>[];
 }
 
 export interface ProductContainerWithAnalysis extends ProductContainer {
@@ -133,4 +304,39 @@ export interface ProductAnalytics {
   average_virality_score: number;
   credits_remaining: number;
   credits_used: number;
-}
\ No newline at end of file
+}
+
+export type WebhookEventType =
+  | 'container.completed'
+  | 'container.failed'
+  | 'container.cancelled'
+  | 'virality_packs.regenerated'
+  | 'script.status_changed';
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  secret?: string; // Only returned when the endpoint is created
+  events: WebhookEventType[];
+  description?: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  response_status?: number;
+  response_body?: string;
+  error_message?: string;
+  delivered_at?: string;
+  created_at: string;
+  updated_at: string;
+}
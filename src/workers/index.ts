@@ -0,0 +1,53 @@
+// Standalone background worker entrypoint: `npm run worker`
+// API routes only enqueue work; this process claims and runs it.
+import { QueueWorker } from './queue-worker';
+import { ingestionService, IngestionQueuePayload } from '@/lib/ingestion-service';
+import { webhookService, WebhookDeliveryQueuePayload } from '@/lib/webhook-service';
+import { refreshService } from '@/lib/refresh-service';
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const worker = new QueueWorker({
+  concurrency: getNumberEnv('WORKER_CONCURRENCY', 2),
+  pollIntervalMs: getNumberEnv('WORKER_POLL_INTERVAL_MS', 2000),
+  heartbeatIntervalMs: getNumberEnv('WORKER_HEARTBEAT_INTERVAL_MS', 30000),
+  staleAfterSeconds: getNumberEnv('WORKER_STALE_AFTER_SECONDS', 300),
+  handlers: {
+    ingestion: async (job) => {
+      const result = await ingestionService.runQueuedIngestion(
+        job.payload as unknown as IngestionQueuePayload,
+        { willRetry: job.attempts < job.max_attempts }
+      );
+
+      if (result.status === 'failed') {
+        throw new Error(result.error || 'Ingestion failed');
+      }
+    },
+    webhook_delivery: async (job) => {
+      const { delivery_id } = job.payload as unknown as WebhookDeliveryQueuePayload;
+      await webhookService.deliver(delivery_id, { finalAttempt: job.attempts >= job.max_attempts });
+    }
+  }
+});
+
+worker.start();
+
+// Start scheduled re-ingestions as they fall due; claiming is atomic, so every worker can run this
+const refreshTimer = setInterval(
+  () => refreshService.runDueRefreshes(),
+  getNumberEnv('REFRESH_CHECK_INTERVAL_MS', 60000)
+);
+
+// Finish in-flight jobs before exiting; anything left is requeued once its lock goes stale
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}`);
+  clearInterval(refreshTimer);
+  await worker.stop(getNumberEnv('WORKER_SHUTDOWN_TIMEOUT_MS', 60000));
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,110 @@
+import { hostname } from 'os';
+import { jobQueue, QueueJob, QueueJobType } from '@/lib/job-queue';
+
+// A handler runs one claimed job; throwing schedules a retry or dead-letters the job
+export type QueueJobHandler = (job: QueueJob) => Promise<void>;
+
+export interface QueueWorkerOptions {
+  handlers: Partial<Record<QueueJobType, QueueJobHandler>>;
+  concurrency: number;
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number;
+  staleAfterSeconds: number;
+  workerId?: string;
+}
+
+// Polls the job queue and runs claimed jobs with a concurrency limit
+export class QueueWorker {
+  private readonly workerId: string;
+  private readonly jobTypes: QueueJobType[];
+  private running = new Map<string, Promise<void>>();
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = true;
+
+  constructor(private options: QueueWorkerOptions) {
+    this.workerId = options.workerId || `${hostname()}:${process.pid}`;
+    this.jobTypes = Object.keys(options.handlers) as QueueJobType[];
+  }
+
+  // Start polling for jobs
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    console.log(`Worker ${this.workerId} started for job types: ${this.jobTypes.join(', ')}`);
+
+    this.pollTimer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.options.heartbeatIntervalMs);
+    this.poll();
+  }
+
+  // Stop claiming new jobs and wait for the running ones to finish
+  async stop(timeoutMs: number): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.pollTimer);
+
+    console.log(`Worker ${this.workerId} stopping, waiting for ${this.running.size} running job(s)`);
+
+    await Promise.race([
+      Promise.allSettled(this.running.values()),
+      new Promise(resolve => setTimeout(resolve, timeoutMs))
+    ]);
+
+    clearInterval(this.heartbeatTimer);
+  }
+
+  // Claim as many jobs as there are free slots
+  private async poll(): Promise<void> {
+    if (this.stopped || this.polling) return;
+    this.polling = true;
+
+    try {
+      await jobQueue.requeueStale(this.options.staleAfterSeconds);
+
+      const freeSlots = this.options.concurrency - this.running.size;
+      const jobs = await jobQueue.claim(this.workerId, this.jobTypes, freeSlots);
+
+      for (const job of jobs) {
+        const execution = this.execute(job).finally(() => this.running.delete(job.id));
+        this.running.set(job.id, execution);
+      }
+    } catch (error) {
+      console.error('Error polling job queue:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Run a single job and record its outcome on the queue
+  private async execute(job: QueueJob): Promise<void> {
+    const handler = this.options.handlers[job.job_type];
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.job_type}`);
+      }
+
+      console.log(`Running ${job.job_type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+      await handler(job);
+      await jobQueue.complete(job.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      const status = await jobQueue.fail(job, errorMessage);
+
+      if (status === 'dead') {
+        console.error(`Job ${job.id} moved to dead-letter after ${job.attempts} attempt(s): ${errorMessage}`);
+      } else {
+        console.warn(`Job ${job.id} failed, will retry: ${errorMessage}`);
+      }
+    }
+  }
+
+  // Keep locks on running jobs fresh so other workers do not reclaim them
+  private async heartbeat(): Promise<void> {
+    await Promise.all(
+      Array.from(this.running.keys()).map(jobId => jobQueue.heartbeat(jobId, this.workerId))
+    );
+  }
+}
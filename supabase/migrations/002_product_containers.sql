@@ -9,7 +9,7 @@ CREATE TABLE IF NOT EXISTS public.product_containers (
   product_name TEXT,
   product_description TEXT,
   product_image_url TEXT,
-  platform TEXT NOT NULL, -- 'tiktok_shop', 'amazon', 'aliexpress', 'external'
+  platform TEXT NOT NULL, -- 'tiktok_shop', 'amazon', 'aliexpress', 'shopify', 'external', 'manual'
   status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'scraping', 'analyzing', 'completed', 'failed'
   error_message TEXT,
   scraping_job_id TEXT,
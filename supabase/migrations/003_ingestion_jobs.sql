@@ -0,0 +1,42 @@
+-- Ingestion Jobs Migration for CreatorsCook.com
+-- Persists every ingestion run so failed product containers can be debugged after the fact
+
+-- Create the ingestion_jobs table
+CREATE TABLE IF NOT EXISTS public.ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_container_id UUID NOT NULL REFERENCES public.product_containers(id) ON DELETE CASCADE,
+  product_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'scraping', 'processing', 'completed', 'failed'
+  status_history JSONB NOT NULL DEFAULT '[]', -- Array of { status, at } transitions
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  scraped_summary JSONB, -- Product name, review count, average rating and scraper warning
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ingestion_jobs table
+-- Users can only access ingestion jobs from their own product containers
+CREATE POLICY "Users can only access own ingestion jobs" ON public.ingestion_jobs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.product_containers
+      WHERE product_containers.id = ingestion_jobs.product_container_id
+      AND product_containers.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_container_id ON public.ingestion_jobs(product_container_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON public.ingestion_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created_at ON public.ingestion_jobs(created_at DESC);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_ingestion_jobs_updated_at
+  BEFORE UPDATE ON public.ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
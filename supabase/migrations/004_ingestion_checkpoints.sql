@@ -0,0 +1,8 @@
+-- Ingestion Checkpoints Migration for CreatorsCook.com
+-- Stores each pipeline step's output so a failed job can resume without re-scraping
+
+ALTER TABLE public.ingestion_jobs
+  ADD COLUMN IF NOT EXISTS checkpoints JSONB NOT NULL DEFAULT '{}', -- Keyed by step: { completed_at, output }
+  ADD COLUMN IF NOT EXISTS current_step TEXT, -- 'scrape', 'update_product', 'process_reviews', 'store_insights', 'angle_reasoning'
+  ADD COLUMN IF NOT EXISTS failed_step TEXT,
+  ADD COLUMN IF NOT EXISTS resume_count INTEGER NOT NULL DEFAULT 0;
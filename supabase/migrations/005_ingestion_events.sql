@@ -0,0 +1,29 @@
+-- Ingestion Events Migration for CreatorsCook.com
+-- Append-only progress log streamed to the UI over Server-Sent Events
+
+-- Create the ingestion_events table
+CREATE TABLE IF NOT EXISTS public.ingestion_events (
+  id BIGSERIAL PRIMARY KEY, -- Monotonic, doubles as the SSE event ID
+  product_container_id UUID NOT NULL REFERENCES public.product_containers(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.ingestion_jobs(id) ON DELETE CASCADE,
+  type TEXT NOT NULL, -- 'step_started', 'reviews_scraped', 'insights_stored', 'packs_generated', 'completed', 'failed', 'cancelled'
+  data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.ingestion_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ingestion_events table
+CREATE POLICY "Users can only access own ingestion events" ON public.ingestion_events
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.product_containers
+      WHERE product_containers.id = ingestion_events.product_container_id
+      AND product_containers.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_ingestion_events_container_id ON public.ingestion_events(product_container_id, id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_events_job_id ON public.ingestion_events(job_id);
@@ -0,0 +1,79 @@
+-- Job Queue Migration for CreatorsCook.com
+-- Durable background work: API routes enqueue, the standalone worker claims and runs
+
+-- Create the job_queue table
+CREATE TABLE IF NOT EXISTS public.job_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type TEXT NOT NULL, -- 'ingestion'
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'dead'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- Earliest time the job may be claimed
+  locked_by TEXT, -- Worker ID holding the job
+  locked_at TIMESTAMP WITH TIME ZONE, -- Refreshed by worker heartbeats
+  last_error TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The queue is only touched by the service role; no user-facing policies
+ALTER TABLE public.job_queue ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_job_queue_claimable ON public.job_queue(job_type, run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_job_queue_running ON public.job_queue(locked_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_job_queue_status ON public.job_queue(status);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_job_queue_updated_at
+  BEFORE UPDATE ON public.job_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim up to p_limit due jobs for a worker without blocking other workers
+CREATE OR REPLACE FUNCTION public.claim_queue_jobs(
+  p_worker_id TEXT,
+  p_job_types TEXT[],
+  p_limit INTEGER
+)
+RETURNS SETOF public.job_queue AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.job_queue AS q
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      attempts = q.attempts + 1
+  WHERE q.id IN (
+    SELECT id FROM public.job_queue
+    WHERE status = 'queued'
+    AND run_at <= NOW()
+    AND job_type = ANY(p_job_types)
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Return jobs held by workers that stopped heartbeating to the queue, or dead-letter them
+CREATE OR REPLACE FUNCTION public.requeue_stale_queue_jobs(p_stale_after_seconds INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  requeued INTEGER;
+BEGIN
+  UPDATE public.job_queue
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+      last_error = COALESCE(last_error, 'Worker stopped responding'),
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE status = 'running'
+  AND locked_at < NOW() - make_interval(secs => p_stale_after_seconds);
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
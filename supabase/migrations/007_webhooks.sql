@@ -0,0 +1,60 @@
+-- Outbound Webhooks Migration for CreatorsCook.com
+-- Per-user webhook endpoints and a log of every delivery attempt
+
+-- Create the webhook_endpoints table
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- This will store the Clerk user ID
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL, -- whsec_ prefixed signing secret (Standard Webhooks / Svix format)
+  events TEXT[] NOT NULL DEFAULT '{}', -- e.g. 'container.completed', 'script.status_changed'
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create the webhook_deliveries table
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- Also sent as the webhook-id header
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- This will store the Clerk user ID
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'delivered', 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT, -- Truncated response from the receiver
+  error_message TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can only access own webhook endpoints" ON public.webhook_endpoints
+  FOR ALL USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can only access own webhook deliveries" ON public.webhook_deliveries
+  FOR ALL USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_events ON public.webhook_endpoints USING GIN(events);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON public.webhook_deliveries(status);
+
+-- Create updated_at triggers
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON public.webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
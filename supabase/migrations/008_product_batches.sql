@@ -0,0 +1,52 @@
+-- Product Batches Migration for CreatorsCook.com
+-- Groups product containers created from a single bulk URL upload
+
+-- Create the product_batches table
+CREATE TABLE IF NOT EXISTS public.product_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- This will store the Clerk user ID
+  source TEXT NOT NULL DEFAULT 'list', -- 'csv' or 'list'
+  total_urls INTEGER NOT NULL DEFAULT 0,
+  rejected_urls JSONB NOT NULL DEFAULT '[]', -- Array of { url, error } for URLs that never became containers
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link product containers to the batch that created them
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.product_batches(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.product_batches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for product_batches table
+-- Users can only access their own batches
+CREATE POLICY "Users can only access own product batches" ON public.product_batches
+  FOR ALL USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_product_batches_user_id ON public.product_batches(user_id);
+CREATE INDEX IF NOT EXISTS idx_product_containers_batch_id ON public.product_containers(batch_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_product_batches_updated_at
+  BEFORE UPDATE ON public.product_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow checking credits for a whole batch at once
+DROP FUNCTION IF EXISTS public.has_sufficient_credits(TEXT);
+
+CREATE OR REPLACE FUNCTION public.has_sufficient_credits(p_user_id TEXT, p_required INTEGER DEFAULT 1)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_credits INTEGER;
+  credits_used INTEGER;
+BEGIN
+  SELECT angle_credits, credits_used INTO current_credits, credits_used
+  FROM public.user_subscriptions
+  WHERE user_id = p_user_id;
+
+  RETURN (current_credits - credits_used) >= p_required;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
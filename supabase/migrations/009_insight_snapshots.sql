@@ -0,0 +1,65 @@
+-- Insight Snapshots Migration for CreatorsCook.com
+-- Scheduled re-ingestion and a dated history of each run's pain points and delight factors
+
+-- Per-container refresh schedule
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS refresh_schedule TEXT, -- NULL, 'daily', 'weekly' or 'monthly'
+  ADD COLUMN IF NOT EXISTS next_refresh_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create the insight_snapshots table
+CREATE TABLE IF NOT EXISTS public.insight_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_container_id UUID NOT NULL REFERENCES public.product_containers(id) ON DELETE CASCADE,
+  ingestion_job_id UUID REFERENCES public.ingestion_jobs(id) ON DELETE SET NULL,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  pain_points JSONB NOT NULL DEFAULT '[]', -- Array of { theme, sentiment, mentions, example_quotes }
+  delight_factors JSONB NOT NULL DEFAULT '[]', -- Array of { theme, sentiment, mentions, example_quotes }
+  drift JSONB NOT NULL DEFAULT '[]', -- Themes that moved a lot since the previous snapshot
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(ingestion_job_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.insight_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for insight_snapshots table
+-- Users can only access snapshots from their own product containers
+CREATE POLICY "Users can only access own insight snapshots" ON public.insight_snapshots
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.product_containers
+      WHERE product_containers.id = insight_snapshots.product_container_id
+      AND product_containers.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_insight_snapshots_container_created ON public.insight_snapshots(product_container_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_product_containers_next_refresh_at ON public.product_containers(next_refresh_at)
+  WHERE refresh_schedule IS NOT NULL;
+
+-- Claim containers whose refresh is due and move their next refresh forward in one step
+CREATE OR REPLACE FUNCTION public.claim_due_refreshes(p_limit INTEGER)
+RETURNS SETOF public.product_containers AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.product_containers AS c
+  SET last_refreshed_at = NOW(),
+      next_refresh_at = NOW() + CASE c.refresh_schedule
+        WHEN 'daily' THEN INTERVAL '1 day'
+        WHEN 'weekly' THEN INTERVAL '7 days'
+        ELSE INTERVAL '1 month'
+      END
+  WHERE c.id IN (
+    SELECT id FROM public.product_containers
+    WHERE refresh_schedule IS NOT NULL
+    AND next_refresh_at <= NOW()
+    AND status NOT IN ('scraping', 'analyzing')
+    ORDER BY next_refresh_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
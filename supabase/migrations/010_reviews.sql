@@ -0,0 +1,42 @@
+-- Reviews Migration for CreatorsCook.com
+-- Stores every scraped review so re-ingestion only processes new ones and themes can be traced to their reviews
+
+-- Create the reviews table
+CREATE TABLE IF NOT EXISTS public.reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_container_id UUID NOT NULL REFERENCES public.product_containers(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL, -- SHA-256 of platform, author, date and content hash
+  platform TEXT NOT NULL,
+  author TEXT,
+  review_date TEXT, -- As reported by the platform
+  rating DECIMAL(2,1) NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  helpful_count INTEGER,
+  sentiment DECIMAL(3,2) NOT NULL, -- -1.0 to 1.0
+  pain_point_themes TEXT[] NOT NULL DEFAULT '{}', -- Pain point themes this review contributed to
+  delight_factor_themes TEXT[] NOT NULL DEFAULT '{}', -- Delight factor themes this review contributed to
+  ingestion_job_id UUID REFERENCES public.ingestion_jobs(id) ON DELETE SET NULL, -- Job that first saw the review
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(product_container_id, fingerprint)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for reviews table
+-- Users can only access reviews from their own product containers
+CREATE POLICY "Users can only access own reviews" ON public.reviews
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.product_containers
+      WHERE product_containers.id = reviews.product_container_id
+      AND product_containers.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_reviews_container_id ON public.reviews(product_container_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_pain_point_themes ON public.reviews USING GIN(pain_point_themes);
+CREATE INDEX IF NOT EXISTS idx_reviews_delight_factor_themes ON public.reviews USING GIN(delight_factor_themes);
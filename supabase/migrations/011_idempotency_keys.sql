@@ -0,0 +1,36 @@
+-- Idempotency Keys Migration for CreatorsCook.com
+-- Remembers responses to mutating requests so a replayed Idempotency-Key has no side effects
+
+-- Create the idempotency_keys table
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- This will store the Clerk user ID
+  idempotency_key TEXT NOT NULL,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of method, path and body; a reused key must match it
+  status TEXT NOT NULL DEFAULT 'in_progress', -- 'in_progress', 'completed'
+  response_status INTEGER,
+  response_body JSONB,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, idempotency_key)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for idempotency_keys table
+-- Users can only access their own idempotency keys
+CREATE POLICY "Users can only access own idempotency keys" ON public.idempotency_keys
+  FOR ALL USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_idempotency_keys_updated_at
+  BEFORE UPDATE ON public.idempotency_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
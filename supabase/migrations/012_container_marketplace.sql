@@ -0,0 +1,5 @@
+-- Container Marketplace Migration for CreatorsCook.com
+-- Records which regional storefront a product was scraped from (e.g. amazon.co.uk, amazon.de)
+
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS marketplace TEXT;
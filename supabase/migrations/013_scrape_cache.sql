@@ -0,0 +1,70 @@
+-- Scrape Cache Migration for CreatorsCook.com
+-- Shares scrape results between containers and re-runs that point at the same product
+
+-- Create the scrape_cache table
+CREATE TABLE IF NOT EXISTS public.scrape_cache (
+  cache_key TEXT PRIMARY KEY, -- Canonical product identity, e.g. 'amazon:amazon.de:B07XJ8C8F5'
+  platform TEXT NOT NULL,
+  product_url TEXT NOT NULL, -- URL of the scrape that filled the entry
+  result JSONB NOT NULL, -- Successful ScrapingResult
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  scraped_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Daily hit and miss counters per platform
+CREATE TABLE IF NOT EXISTS public.scrape_cache_stats (
+  platform TEXT NOT NULL,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+  bypasses INTEGER NOT NULL DEFAULT 0, -- Forced fresh scrapes
+  PRIMARY KEY (platform, day)
+);
+
+-- Both tables are only touched by the service role; no user-facing policies
+ALTER TABLE public.scrape_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scrape_cache_stats ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scrape_cache_expires_at ON public.scrape_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_scrape_cache_stats_day ON public.scrape_cache_stats(day);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_scrape_cache_updated_at
+  BEFORE UPDATE ON public.scrape_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Count a cache lookup; p_event is 'hit', 'miss' or 'bypass'
+CREATE OR REPLACE FUNCTION public.record_scrape_cache_event(
+  p_platform TEXT,
+  p_event TEXT,
+  p_cache_key TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.scrape_cache_stats (platform, day, hits, misses, bypasses)
+  VALUES (
+    p_platform,
+    CURRENT_DATE,
+    CASE WHEN p_event = 'hit' THEN 1 ELSE 0 END,
+    CASE WHEN p_event = 'miss' THEN 1 ELSE 0 END,
+    CASE WHEN p_event = 'bypass' THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (platform, day) DO UPDATE
+  SET hits = scrape_cache_stats.hits + EXCLUDED.hits,
+      misses = scrape_cache_stats.misses + EXCLUDED.misses,
+      bypasses = scrape_cache_stats.bypasses + EXCLUDED.bypasses;
+
+  IF p_event = 'hit' AND p_cache_key IS NOT NULL THEN
+    UPDATE public.scrape_cache
+    SET hit_count = hit_count + 1,
+        last_hit_at = NOW()
+    WHERE cache_key = p_cache_key;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
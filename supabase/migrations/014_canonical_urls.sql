@@ -0,0 +1,19 @@
+-- Canonical URL Migration for CreatorsCook.com
+-- Keeps the URL as entered next to its canonical form and product identity, so short links and
+-- affiliate-tagged URLs for the same product can be recognised as duplicates
+
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS original_url TEXT,
+  ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+  ADD COLUMN IF NOT EXISTS product_key TEXT;
+
+-- Existing containers were stored as typed
+UPDATE public.product_containers
+SET original_url = COALESCE(original_url, product_url),
+    canonical_url = COALESCE(canonical_url, product_url)
+WHERE original_url IS NULL OR canonical_url IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_containers_user_product_key
+  ON public.product_containers(user_id, product_key);
+CREATE INDEX IF NOT EXISTS idx_product_containers_user_canonical_url
+  ON public.product_containers(user_id, canonical_url);
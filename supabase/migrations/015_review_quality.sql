@@ -0,0 +1,20 @@
+-- Review Quality Migration for CreatorsCook.com
+-- Flags duplicate and incentivized reviews, weights theme mentions and records what each analysis left out
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS quality_flag TEXT; -- 'duplicate', 'near_duplicate', 'incentivized'; null when the review counts
+
+ALTER TABLE public.pain_points
+  ADD COLUMN IF NOT EXISTS weighted_mentions DECIMAL(10,2); -- Mentions weighted by helpfulness and verification
+
+ALTER TABLE public.delight_factors
+  ADD COLUMN IF NOT EXISTS weighted_mentions DECIMAL(10,2);
+
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS review_quality JSONB; -- Counts of analyzed, excluded and unverified reviews
+
+-- Existing themes were counted unweighted
+UPDATE public.pain_points SET weighted_mentions = mentions WHERE weighted_mentions IS NULL;
+UPDATE public.delight_factors SET weighted_mentions = mentions WHERE weighted_mentions IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_quality_flag ON public.reviews(product_container_id, quality_flag);
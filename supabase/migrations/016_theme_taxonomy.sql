@@ -0,0 +1,35 @@
+-- Theme Taxonomy Migration for CreatorsCook.com
+-- Editable, versioned theme taxonomies with per-category packs, and the taxonomy version behind every theme
+
+-- Create the theme_taxonomies table; each save adds a version so existing themes stay traceable
+CREATE TABLE IF NOT EXISTS public.theme_taxonomies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- This will store the Clerk user ID
+  version INTEGER NOT NULL,
+  packs JSONB NOT NULL, -- ThemePack[]: general themes plus beauty, supplements, electronics, apparel and home packs
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, version)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.theme_taxonomies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can only access own theme taxonomies" ON public.theme_taxonomies
+  FOR ALL USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Category picks the theme pack; detected from the product when not set
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS category TEXT; -- 'beauty', 'supplements', 'electronics', 'apparel', 'home'
+
+-- Taxonomy version and pack, e.g. 'default@1/beauty' or 'custom@3/general'
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS taxonomy_version TEXT;
+
+ALTER TABLE public.pain_points
+  ADD COLUMN IF NOT EXISTS taxonomy_version TEXT;
+
+ALTER TABLE public.delight_factors
+  ADD COLUMN IF NOT EXISTS taxonomy_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_theme_taxonomies_user_version ON public.theme_taxonomies(user_id, version DESC);
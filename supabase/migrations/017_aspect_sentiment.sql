@@ -0,0 +1,10 @@
+-- Aspect Sentiment Migration for CreatorsCook.com
+-- Sentiment towards each theme a review mentions, scored from the sentences that mention it
+
+-- Theme ID to sentiment (-1.0 to 1.0), e.g. {"battery_life": -0.62, "design": 0.71}
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS theme_sentiments JSONB;
+
+-- Model behind theme_sentiments, e.g. 'lexicon@1' or 'llm@1'; reviews scored by another model are re-scored
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS sentiment_model TEXT;
@@ -0,0 +1,11 @@
+-- Discovered Themes Migration for CreatorsCook.com
+-- Themes found by clustering review sentences, stored alongside taxonomy themes
+
+-- 'taxonomy' for phrase-pattern themes, 'discovered' for clustered ones; label is the discovered theme's display name
+ALTER TABLE public.pain_points
+  ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'taxonomy',
+  ADD COLUMN IF NOT EXISTS label TEXT;
+
+ALTER TABLE public.delight_factors
+  ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'taxonomy',
+  ADD COLUMN IF NOT EXISTS label TEXT;
@@ -0,0 +1,33 @@
+-- Redaction Migration for CreatorsCook.com
+-- Per-container competitor brand dictionary and an audit trail of what was redacted from quotes and AI prompts
+
+-- Brand names replaced with a placeholder in quotes and prompts
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS competitor_brands TEXT[] NOT NULL DEFAULT '{}';
+
+-- Create the redaction_audits table; counts only, the redacted values are never stored
+CREATE TABLE IF NOT EXISTS public.redaction_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_container_id UUID NOT NULL REFERENCES public.product_containers(id) ON DELETE CASCADE,
+  ingestion_job_id UUID REFERENCES public.ingestion_jobs(id) ON DELETE SET NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('insights', 'prompt')),
+  counts JSONB NOT NULL, -- e.g. {"email": 1, "phone": 0, "order_number": 2, "name": 0, "competitor": 3}
+  competitor_brands TEXT[] NOT NULL DEFAULT '{}', -- Dictionary entries that were found
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.redaction_audits ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for redaction_audits table
+-- Users can only access audits from their own product containers
+CREATE POLICY "Users can only access own redaction audits" ON public.redaction_audits
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.product_containers
+      WHERE product_containers.id = redaction_audits.product_container_id
+      AND product_containers.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_redaction_audits_container_created ON public.redaction_audits(product_container_id, created_at DESC);
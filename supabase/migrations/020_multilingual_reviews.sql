@@ -0,0 +1,15 @@
+-- Multilingual Reviews Migration for CreatorsCook.com
+-- Detected review languages, the original text of translated reviews and each container's language mix
+
+-- ISO 639-1 code, or 'und' when the language could not be told
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- As written by the reviewer; NULL when title and content were not translated
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS original_title TEXT,
+  ADD COLUMN IF NOT EXISTS original_content TEXT;
+
+-- Review count per language from the latest analysis, e.g. {"en": 42, "es": 12}
+ALTER TABLE public.product_containers
+  ADD COLUMN IF NOT EXISTS language_mix JSONB;